@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBlogFacets, getFilteredBlogs } from '@/lib/contentstack';
+import { BLOG_PAGE_SIZE, BlogListResponse, parseBlogFilters } from '@/lib/blog-facets';
+
+const MAX_LIMIT = 100;
+
+/**
+ * One page of the blog index with facet counts, filtered like the /blog URL
+ * GET /api/blogs?tag=react&reading=short&limit=10&skip=20
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const limitParam = parseInt(searchParams.get('limit') || `${BLOG_PAGE_SIZE}`, 10);
+  const skipParam = parseInt(searchParams.get('skip') || '0', 10);
+  const limit = Math.min(Math.max(Number.isFinite(limitParam) ? limitParam : BLOG_PAGE_SIZE, 1), MAX_LIMIT);
+  const skip = Math.max(Number.isFinite(skipParam) ? skipParam : 0, 0);
+  const filters = parseBlogFilters(searchParams);
+
+  try {
+    const [result, facets] = await Promise.all([
+      getFilteredBlogs(filters, { limit, skip }),
+      getBlogFacets(filters),
+    ]);
+
+    const body: BlogListResponse = { ...result, facets };
+    return NextResponse.json(body, { status: 200 });
+
+  } catch (error) {
+    console.error('Blog list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load posts' },
+      { status: 500 }
+    );
+  }
+}
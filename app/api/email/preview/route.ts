@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllBlogs, getBlogBySlug } from '@/lib/contentstack';
+import {
+  EMAIL_TEMPLATE_NAMES,
+  EmailTemplateData,
+  EmailTemplateName,
+  isEmailTemplateName,
+  renderEmail,
+} from '@/lib/email-templates';
+import { CONFIRMATION_TOKEN_TTL, getPostUrl, getSiteUrl } from '@/lib/newsletter-emails';
+import type { Blog } from '@/lib/types';
+
+// Number of latest posts used when no ?blog= is given
+const DEFAULT_DIGEST_POSTS = 3;
+
+/**
+ * Load the posts named by ?blog=slug-a,slug-b, or the latest posts
+ */
+async function loadPreviewPosts(blogParam: string | null, count: number): Promise<Blog[] | null> {
+  if (!blogParam) {
+    return (await getAllBlogs()).slice(0, count);
+  }
+
+  const slugs = blogParam.split(',').map(slug => slug.trim().replace(/^\//, '')).filter(Boolean);
+  const posts = await Promise.all(slugs.map(slug => getBlogBySlug(slug)));
+  return posts.every(Boolean) ? (posts as Blog[]) : null;
+}
+
+/**
+ * Sample data for a template, using real entries. Links in the footer are
+ * placeholders so previews never mint working tokens.
+ */
+async function getPreviewData(template: EmailTemplateName, blogParam: string | null) {
+  const footerLinks = {
+    preferencesUrl: `${getSiteUrl()}/preferences?token=preview`,
+    unsubscribeUrl: `${getSiteUrl()}/unsubscribe?token=preview`,
+  };
+
+  switch (template) {
+    case 'new-post': {
+      const posts = await loadPreviewPosts(blogParam, 1);
+      if (!posts?.[0]) return null;
+      return { post: posts[0], postUrl: getPostUrl(posts[0]), ...footerLinks } satisfies EmailTemplateData['new-post'];
+    }
+    case 'digest': {
+      const posts = await loadPreviewPosts(blogParam, DEFAULT_DIGEST_POSTS);
+      if (!posts?.length) return null;
+      return { posts: posts.map(post => ({ post, postUrl: getPostUrl(post) })), ...footerLinks } satisfies EmailTemplateData['digest'];
+    }
+    case 'confirmation':
+      return {
+        confirmUrl: `${getSiteUrl()}/confirm?token=preview`,
+        expiresInHours: CONFIRMATION_TOKEN_TTL / 3600,
+      } satisfies EmailTemplateData['confirmation'];
+  }
+}
+
+/**
+ * Development-only email preview:
+ * /api/email/preview?template=new-post&blog=my-post-slug&format=html|text|json
+ */
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const template = searchParams.get('template') || 'new-post';
+  const format = searchParams.get('format') || 'html';
+
+  if (!isEmailTemplateName(template)) {
+    return NextResponse.json(
+      { error: `Unknown template "${template}"`, templates: EMAIL_TEMPLATE_NAMES },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await getPreviewData(template, searchParams.get('blog'));
+    if (!data) {
+      return NextResponse.json({ error: 'Blog not found' }, { status: 404 });
+    }
+
+    const email = renderEmail(template, data as EmailTemplateData[typeof template]);
+
+    if (format === 'json') {
+      return NextResponse.json(email);
+    }
+
+    return new NextResponse(format === 'text' ? email.text : email.html, {
+      headers: {
+        'Content-Type': format === 'text' ? 'text/plain; charset=utf-8' : 'text/html; charset=utf-8',
+        'X-Email-Subject': encodeURIComponent(email.subject),
+      },
+    });
+
+  } catch (error) {
+    console.error('Email preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render email preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSubscriberStore } from '@/lib/subscriber-store';
+import { verifySignedToken } from '@/lib/signed-tokens';
+
+// Confirmation links sent before the /confirm page existed point here; hand them to
+// the page so that opening the link (or a scanner prefetching it) changes nothing
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  const confirmUrl = new URL('/confirm', request.nextUrl.origin);
+  if (token) {
+    confirmUrl.searchParams.set('token', token);
+  }
+  return NextResponse.redirect(confirmUrl);
+}
+
+// Activate a pending subscription; called by the /confirm page's button
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const token = typeof body?.token === 'string' ? body.token : null;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Confirmation token is required' },
+        { status: 400 }
+      );
+    }
+
+    const verification = verifySignedToken(token, 'confirm');
+    if (!verification.valid) {
+      console.warn(`Newsletter confirmation rejected: ${verification.reason}`);
+      return verification.reason === 'expired'
+        ? NextResponse.json(
+            { error: 'This confirmation link has expired. Sign up again to get a new one.' },
+            { status: 410 }
+          )
+        : NextResponse.json(
+            { error: 'Invalid confirmation link' },
+            { status: 401 }
+          );
+    }
+
+    const store = getSubscriberStore();
+    const subscriber = await store.findById(verification.payload.sub);
+
+    // The record must still belong to the address the link was sent to
+    if (!subscriber || subscriber.email !== verification.payload.email) {
+      return NextResponse.json(
+        { error: 'Subscription not found. Sign up again to get a new link.' },
+        { status: 404 }
+      );
+    }
+
+    if (subscriber.status === 'active') {
+      return NextResponse.json(
+        { message: 'Subscription already confirmed' },
+        { status: 200 }
+      );
+    }
+
+    // Unsubscribed (or suppressed) since the link was sent - they need to sign up again
+    if (subscriber.status === 'inactive' || subscriber.status === 'suppressed') {
+      return NextResponse.json(
+        { error: 'This subscription was cancelled. Sign up again to get a new link.' },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    await store.update(subscriber.id, {
+      status: 'active',
+      subscribed_at: now,
+      confirmed_at: now,
+    });
+    console.log(`Confirmed subscriber: ${subscriber.email} at ${now}`);
+
+    return NextResponse.json(
+      { message: 'Subscription confirmed' },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    console.error('Newsletter confirmation error:', error);
+    return NextResponse.json(
+      { error: "We couldn't confirm your subscription. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { runWeeklyDigest } from '@/lib/newsletter-digest';
+
+// Sending can take a while with many subscribers
+export const maxDuration = 300;
+
+/**
+ * Check the bearer token against CRON_SECRET (sent automatically by Vercel Cron)
+ */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function handleDigest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('Digest rejected: CRON_SECRET is not configured');
+    return NextResponse.json({ error: 'Digest job is not configured' }, { status: 500 });
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const since = searchParams.get('since');
+  if (since && Number.isNaN(Date.parse(since))) {
+    return NextResponse.json({ error: 'since must be an ISO date' }, { status: 400 });
+  }
+
+  try {
+    const result = await runWeeklyDigest({
+      dryRun: searchParams.get('dryRun') === 'true',
+      since: since ? new Date(since) : undefined,
+    });
+    return NextResponse.json(result, { status: 200 });
+
+  } catch (error) {
+    console.error('Digest job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run digest' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET for schedulers such as Vercel Cron, POST for scripts/send-digest.mjs
+export const GET = handleDigest;
+export const POST = handleDigest;
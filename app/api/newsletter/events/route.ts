@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSubscriberStore } from '@/lib/subscriber-store';
+import { getProcessedEventStore } from '@/lib/webhook-security';
+import {
+  applyProviderEvent,
+  EventOutcome,
+  getProviderEventId,
+  ProviderEvent,
+  verifyEventWebhookRequest,
+} from '@/lib/email-events';
+
+// SendGrid Event Webhook: point it at /api/newsletter/events with Signed Event Webhook enabled
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes sent, so read the raw body before parsing
+  const rawBody = await request.text();
+  const verification = verifyEventWebhookRequest(
+    rawBody,
+    request.headers.get('x-twilio-email-event-webhook-signature'),
+    request.headers.get('x-twilio-email-event-webhook-timestamp')
+  );
+
+  if (!verification.valid) {
+    if (verification.reason === 'missing_secret') {
+      console.error('Email event webhook rejected: SENDGRID_WEBHOOK_PUBLIC_KEY is not configured');
+      return NextResponse.json({ error: 'Webhook verification is not configured' }, { status: 500 });
+    }
+
+    console.warn(`Email event webhook rejected: ${verification.reason}`);
+    return NextResponse.json({ error: 'Unauthorized', reason: verification.reason }, { status: 401 });
+  }
+
+  let events: ProviderEvent[];
+  try {
+    events = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  if (!Array.isArray(events)) {
+    return NextResponse.json({ error: 'Expected an array of events' }, { status: 400 });
+  }
+
+  const store = getSubscriberStore();
+  const processedEvents = getProcessedEventStore();
+  const outcomes: Partial<Record<EventOutcome | 'duplicate', number>> = {};
+
+  try {
+    for (const event of events) {
+      const eventId = getProviderEventId(event);
+      if (!(await processedEvents.claim(eventId))) {
+        outcomes.duplicate = (outcomes.duplicate || 0) + 1;
+        continue;
+      }
+
+      try {
+        const outcome = await applyProviderEvent(store, event);
+        await processedEvents.complete(eventId);
+        outcomes[outcome] = (outcomes[outcome] || 0) + 1;
+      } catch (error) {
+        // Let SendGrid's retry apply the event again
+        await processedEvents.release(eventId);
+        throw error;
+      }
+    }
+
+    return NextResponse.json({ message: `Processed ${events.length} events`, outcomes }, { status: 200 });
+
+  } catch (error) {
+    console.error('Email event webhook processing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process events' },
+      { status: 500 }
+    );
+  }
+}
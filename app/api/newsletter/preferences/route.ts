@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSubscriberStore, NewsletterSubscriber } from '@/lib/subscriber-store';
+import { verifySignedToken } from '@/lib/signed-tokens';
+import { normalizePreferences } from '@/lib/subscriber-preferences';
+
+/**
+ * Resolve the subscriber a preferences token was issued to
+ */
+async function findSubscriberForToken(token: string | null | undefined): Promise<
+  { subscriber: NewsletterSubscriber } | { error: string; status: number }
+> {
+  if (!token) {
+    return { error: 'Preferences token is required', status: 400 };
+  }
+
+  const verification = verifySignedToken(token, 'preferences');
+  if (!verification.valid) {
+    console.warn(`Preferences request rejected: ${verification.reason}`);
+    return { error: 'Invalid preferences link', status: 401 };
+  }
+
+  const subscriber = await getSubscriberStore().findById(verification.payload.sub);
+  if (!subscriber || subscriber.email !== verification.payload.email) {
+    return { error: 'Subscriber not found', status: 404 };
+  }
+
+  return { subscriber };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const result = await findSubscriberForToken(request.nextUrl.searchParams.get('token'));
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const { subscriber } = result;
+    return NextResponse.json({
+      email: subscriber.email,
+      status: subscriber.status,
+      preferences: subscriber.preferences,
+    });
+
+  } catch (error) {
+    console.error('Newsletter preferences error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { token, preferences } = await request.json();
+
+    const result = await findSubscriberForToken(token);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    if (!preferences || typeof preferences !== 'object') {
+      return NextResponse.json(
+        { error: 'Preferences are required' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await getSubscriberStore().update(result.subscriber.id, {
+      preferences: normalizePreferences(preferences),
+    });
+    console.log(`Updated preferences: ${updated.email}`, updated.preferences);
+
+    return NextResponse.json({
+      message: 'Preferences saved',
+      preferences: updated.preferences,
+    });
+
+  } catch (error) {
+    console.error('Newsletter preferences error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save preferences. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
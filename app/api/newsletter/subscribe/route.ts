@@ -1,51 +1,100 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stack } from '@/lib/contentstack';
-import { QueryOperation } from '@contentstack/delivery-sdk';
+import { getSubscriberStore, normalizeEmail } from '@/lib/subscriber-store';
+import { sendConfirmationEmail } from '@/lib/newsletter-emails';
+import { SUBSCRIBE_ERROR_MESSAGES, SubscribeErrorCode } from '@/lib/subscribe-errors';
+import {
+  getClientIp,
+  getSubscribeRateLimiters,
+  isDisposableEmail,
+  isHoneypotTripped,
+  isValidEmail,
+} from '@/lib/subscribe-protection';
+
+const PENDING_MESSAGE = 'Check your inbox to confirm your subscription.';
+
+function errorResponse(code: SubscribeErrorCode, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error: SUBSCRIBE_ERROR_MESSAGES[code], code }, { status, headers });
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { email } = await request.json();
+    const limiters = getSubscribeRateLimiters();
+    const ipLimit = limiters.ip.hit(getClientIp(request.headers));
+    if (!ipLimit.allowed) {
+      return errorResponse('rate_limited', 429, { 'Retry-After': String(ipLimit.retryAfterSeconds) });
+    }
 
-    if (!email || !/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(email)) {
-      return NextResponse.json(
-        { error: 'Valid email is required' },
-        { status: 400 }
-      );
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('invalid_request', 400);
+    }
+    if (!body || typeof body !== 'object') {
+      return errorResponse('invalid_request', 400);
+    }
+    const { email, source } = body;
+
+    // Bots get the normal response so they don't learn to skip the field
+    if (isHoneypotTripped(body)) {
+      console.warn(`Newsletter signup honeypot tripped from ${getClientIp(request.headers)}`);
+      return NextResponse.json({ status: 'pending', message: PENDING_MESSAGE }, { status: 202 });
+    }
+
+    if (typeof email !== 'string' || !isValidEmail(email.trim())) {
+      return errorResponse('invalid_email', 400);
+    }
+
+    if (isDisposableEmail(email)) {
+      return errorResponse('disposable_email', 400);
     }
 
+    const emailLimit = limiters.email.hit(normalizeEmail(email));
+    if (!emailLimit.allowed) {
+      return errorResponse('rate_limited', 429, { 'Retry-After': String(emailLimit.retryAfterSeconds) });
+    }
+
+    const store = getSubscriberStore();
+    const signupSource = typeof source === 'string' && source.trim() ? source.trim() : 'website';
+
     // Check if email already exists
-    const existingSubscriber = await stack
-      .contentType('newsletter_subscriber')
-      .entry()
-      .query()
-      .where('email', QueryOperation.EQUALS, email)
-      .find();
-
-    if (existingSubscriber.entries && existingSubscriber.entries.length > 0) {
+    const existingSubscriber = await store.findByEmail(email);
+
+    if (existingSubscriber?.status === 'active') {
       return NextResponse.json(
-        { message: 'Email already subscribed' },
+        { status: 'active', message: 'Email already subscribed' },
         { status: 200 }
       );
     }
 
-    // Note: This is a demo implementation. In a real application, you would:
-    // 1. Use the Contentstack Management API to create entries, or
-    // 2. Store subscribers in a separate database, or
-    // 3. Use a third-party email service like Mailchimp, ConvertKit, etc.
-    
-    // For this demo, we'll simulate successful subscription
-    console.log(`New subscriber: ${email} at ${new Date().toISOString()}`);
-    
+    // Bounced or complaining addresses stay on the suppression list
+    if (existingSubscriber?.status === 'suppressed') {
+      return errorResponse('suppressed', 409);
+    }
+
+    // Pending and previously unsubscribed addresses go through confirmation (again)
+    const subscriber = existingSubscriber
+      ? await store.update(existingSubscriber.id, {
+          status: 'pending',
+          source: signupSource,
+          unsubscribed_at: null,
+        })
+      : await store.create({ email, source: signupSource, status: 'pending' });
+
+    const delivery = await sendConfirmationEmail(subscriber);
+    if (!delivery.ok) {
+      // The record stays pending; signing up again resends the link
+      return errorResponse('confirmation_failed', 502);
+    }
+    console.log(`Pending subscriber: ${subscriber.email} via ${signupSource}, confirmation sent`);
+
     return NextResponse.json(
-      { message: 'Successfully subscribed to newsletter!' },
-      { status: 201 }
+      { status: 'pending', message: PENDING_MESSAGE },
+      { status: 202 }
     );
 
   } catch (error) {
     console.error('Newsletter subscription error:', error);
-    return NextResponse.json(
-      { error: 'Failed to subscribe. Please try again.' },
-      { status: 500 }
-    );
+    return errorResponse('server_error', 500);
   }
-}
\ No newline at end of file
+}
@@ -1,42 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stack } from '@/lib/contentstack';
-import { QueryOperation } from '@contentstack/delivery-sdk';
+import { getSubscriberStore } from '@/lib/subscriber-store';
+import { verifySignedToken } from '@/lib/signed-tokens';
+
+/**
+ * Read the unsubscribe token from the query string (List-Unsubscribe one-click POST)
+ * or from a JSON body (the /unsubscribe page)
+ */
+async function readToken(request: NextRequest): Promise<string | null> {
+  const queryToken = request.nextUrl.searchParams.get('token');
+  if (queryToken) return queryToken;
+
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.json().catch(() => null);
+    return typeof body?.token === 'string' ? body.token : null;
+  }
+
+  return null;
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { email } = await request.json();
+    const token = await readToken(request);
 
-    if (!email || !/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(email)) {
+    if (!token) {
       return NextResponse.json(
-        { error: 'Valid email is required' },
+        { error: 'Unsubscribe token is required' },
         { status: 400 }
       );
     }
 
-    // Find the subscriber
-    const existingSubscriber = await stack
-      .contentType('newsletter_subscriber')
-      .entry()
-      .query()
-      .where('email', QueryOperation.EQUALS, email)
-      .find();
+    const verification = verifySignedToken(token, 'unsubscribe');
+    if (!verification.valid) {
+      console.warn(`Unsubscribe rejected: ${verification.reason}`);
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link' },
+        { status: 401 }
+      );
+    }
+
+    const store = getSubscriberStore();
+
+    // Find the subscriber the link was issued to
+    const existingSubscriber = await store.findById(verification.payload.sub);
 
-    if (!existingSubscriber.entries || existingSubscriber.entries.length === 0) {
+    if (!existingSubscriber || existingSubscriber.email !== verification.payload.email) {
       return NextResponse.json(
         { message: 'Email not found in our subscriber list' },
         { status: 404 }
       );
     }
 
-    // Note: This is a demo implementation. In a real application, you would:
-    // 1. Use the Contentstack Management API to update entries, or
-    // 2. Update subscribers in a separate database, or
-    // 3. Use a third-party email service API to unsubscribe
-    
-    // For this demo, we'll simulate successful unsubscription
-    const subscriberEntry = existingSubscriber.entries[0];
-    console.log(`Unsubscribed: ${email} at ${new Date().toISOString()}`);
-    
+    // Suppressed addresses already get nothing; keep them on the suppression list
+    if (existingSubscriber.status === 'inactive' || existingSubscriber.status === 'suppressed') {
+      return NextResponse.json(
+        { message: 'Email is already unsubscribed' },
+        { status: 200 }
+      );
+    }
+
+    await store.update(existingSubscriber.id, {
+      status: 'inactive',
+      unsubscribed_at: new Date().toISOString(),
+    });
+    console.log(`Unsubscribed: ${existingSubscriber.email} at ${new Date().toISOString()}`);
+
     return NextResponse.json(
       { message: 'Successfully unsubscribed from newsletter' },
       { status: 200 }
@@ -51,33 +78,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Handle GET requests for unsubscribe links in emails
+// Links opened in a browser (or prefetched by mail scanners) must not unsubscribe
+// on their own - send them to the confirmation page instead
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const email = searchParams.get('email');
-
-  if (!email) {
-    return NextResponse.redirect('/');
-  }
-
-  try {
-    // Auto-unsubscribe via GET request (from email link)
-    const response = await fetch(`${request.nextUrl.origin}/api/newsletter/unsubscribe`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ email }),
-    });
-
-    if (response.ok) {
-      // Redirect to a success page or homepage with success message
-      return NextResponse.redirect(`${request.nextUrl.origin}/?unsubscribed=true`);
-    } else {
-      return NextResponse.redirect(`${request.nextUrl.origin}/?unsubscribe_error=true`);
-    }
-  } catch (error) {
-    console.error('Unsubscribe error:', error);
-    return NextResponse.redirect(`${request.nextUrl.origin}/?unsubscribe_error=true`);
-  }
-}
\ No newline at end of file
+  const token = request.nextUrl.searchParams.get('token');
+  const target = token ? `/unsubscribe?token=${encodeURIComponent(token)}` : '/unsubscribe';
+  return NextResponse.redirect(`${request.nextUrl.origin}${target}`);
+}
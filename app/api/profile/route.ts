@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createAnonymousProfileKey,
+  createProfileCookieValue,
+  getEmailProfileKey,
+  getInterestProfileStore,
+  getUidProfileKey,
+  isValidPersonalizeUid,
+  PROFILE_COOKIE,
+  PROFILE_COOKIE_MAX_AGE,
+  readProfileCookieValue,
+} from '@/lib/interest-profile-store';
+import { verifySignedToken } from '@/lib/signed-tokens';
+import { normalizeInterestProfile } from '@/lib/user-interests';
+
+type ProfileKeyResolution =
+  | { profileKey: string; previousKey?: string }
+  | { error: string; status: number };
+
+function getCookieProfileKey(request: NextRequest): string | null {
+  return readProfileCookieValue(request.cookies.get(PROFILE_COOKIE)?.value);
+}
+
+/**
+ * Work out which profile a sync writes to. A signed newsletter link proves the
+ * reader's email, which moves them to the email-keyed profile shared by all their
+ * devices. Otherwise the signed cookie decides; without one, a Personalize UID
+ * can start a profile, but can't take over one another browser already holds.
+ */
+async function resolveProfileKey(request: NextRequest, userId: unknown, token: unknown): Promise<ProfileKeyResolution> {
+  const cookieKey = getCookieProfileKey(request);
+
+  if (token) {
+    const verification = typeof token === 'string'
+      ? [verifySignedToken(token, 'preferences'), verifySignedToken(token, 'confirm')].find(result => result.valid)
+      : undefined;
+    if (!verification?.valid) {
+      return { error: 'Invalid newsletter link', status: 401 };
+    }
+
+    const profileKey = getEmailProfileKey(verification.payload.email);
+    return { profileKey, previousKey: cookieKey && cookieKey !== profileKey ? cookieKey : undefined };
+  }
+
+  if (cookieKey) {
+    return { profileKey: cookieKey };
+  }
+
+  if (isValidPersonalizeUid(userId)) {
+    const profileKey = getUidProfileKey(userId);
+    if (await getInterestProfileStore().get(profileKey)) {
+      return { error: 'Profile belongs to another browser', status: 403 };
+    }
+    return { profileKey };
+  }
+
+  return { profileKey: createAnonymousProfileKey() };
+}
+
+function withProfileCookie(response: NextResponse, profileKey: string): NextResponse {
+  response.cookies.set(PROFILE_COOKIE, createProfileCookieValue(profileKey), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: PROFILE_COOKIE_MAX_AGE,
+  });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const profileKey = getCookieProfileKey(request);
+    const profile = profileKey ? await getInterestProfileStore().get(profileKey) : null;
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+
+  } catch (error) {
+    console.error('Profile read error:', error);
+    return NextResponse.json({ error: 'Failed to load profile' }, { status: 500 });
+  }
+}
+
+// Merge a client's localStorage profile into the stored one and return the result.
+// Body: { profile, userId?: Personalize UID, token?: signed newsletter link token }
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body?.profile || typeof body.profile !== 'object') {
+      return NextResponse.json({ error: 'profile is required' }, { status: 400 });
+    }
+
+    const resolution = await resolveProfileKey(request, body.userId, body.token);
+    if ('error' in resolution) {
+      return NextResponse.json({ error: resolution.error }, { status: resolution.status });
+    }
+
+    const store = getInterestProfileStore();
+    const { profileKey, previousKey } = resolution;
+
+    // Bring this browser's earlier profile along to the email-keyed one
+    if (previousKey) {
+      const previous = await store.get(previousKey);
+      if (previous) {
+        await store.merge(profileKey, previous);
+        await store.delete(previousKey);
+      }
+    }
+
+    const profile = await store.merge(profileKey, normalizeInterestProfile(body.profile));
+    return withProfileCookie(NextResponse.json({ profile }), profileKey);
+
+  } catch (error) {
+    console.error('Profile sync error:', error);
+    return NextResponse.json({ error: 'Failed to save profile' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const profileKey = getCookieProfileKey(request);
+    if (profileKey) {
+      await getInterestProfileStore().delete(profileKey);
+    }
+
+    const response = NextResponse.json({ message: 'Profile deleted' });
+    response.cookies.delete(PROFILE_COOKIE);
+    return response;
+
+  } catch (error) {
+    console.error('Profile delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete profile' }, { status: 500 });
+  }
+}
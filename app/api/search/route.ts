@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchBlogsRanked } from '@/lib/contentstack';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Full-text blog search backed by the server-side search index
+ * GET /api/search?q=react+hooks&limit=20
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get('q') || '').trim();
+  const limitParam = parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`, 10);
+  const limit = Math.min(Math.max(Number.isFinite(limitParam) ? limitParam : DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  if (!query) {
+    return NextResponse.json({ query, total: 0, results: [] }, { status: 200 });
+  }
+
+  try {
+    const results = await searchBlogsRanked(query, { snippetField: 'content' });
+
+    return NextResponse.json({
+      query,
+      total: results.length,
+      results: results.slice(0, limit).map(result => ({
+        blog: result.document,
+        score: result.score,
+        matchedFields: result.matchedFields,
+        matches: result.matches,
+        snippet: result.snippet,
+      })),
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchSuggestions } from '@/lib/contentstack';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+
+/**
+ * Typeahead suggestions for the search bar: matching tags, authors and post titles
+ * GET /api/search/suggest?q=rea&limit=8
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get('q') || '').trim();
+  const limitParam = parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`, 10);
+  const limit = Math.min(Math.max(Number.isFinite(limitParam) ? limitParam : DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  try {
+    const suggestions = await getSearchSuggestions(query, limit);
+    return NextResponse.json({ query, suggestions }, { status: 200 });
+
+  } catch (error) {
+    console.error('Search suggestion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,75 +1,116 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { stack } from '@/lib/contentstack';
-import { QueryOperation } from '@contentstack/delivery-sdk';
+import type { Blog } from '@/lib/types';
+import {
+  ContentAction,
+  ContentChange,
+  REVALIDATED_ACTIONS,
+  REVALIDATED_CONTENT_TYPES,
+  revalidateContentChange,
+} from '@/lib/revalidation';
+import { getProcessedEventStore, verifyWebhookRequest } from '@/lib/webhook-security';
+import { getSubscriberStore } from '@/lib/subscriber-store';
+import { buildNewPostBatch } from '@/lib/newsletter-emails';
+import { getEmailTransport } from '@/lib/email-transport';
+import { SendQueue } from '@/lib/send-queue';
+import { matchesPreferences, wantsInstantDelivery } from '@/lib/subscriber-preferences';
+import { getSendHistoryStore } from '@/lib/send-history';
 
-// Email service - using SendGrid as example
-// You'll need to install: npm install @sendgrid/mail
-// and add SENDGRID_API_KEY to your .env file
+// Emails are rendered by lib/email-templates and delivered by lib/email-transport
 
 interface WebhookPayload {
-  event: string;
+  event: string;                       // 'entry.publish' or just 'publish'
+  event_id?: string;
   triggered_at: string;
   data: {
-    uid: string;
-    title: string;
-    content_type: string;
-    action: string;
-    locale: string;
+    uid?: string;
+    title?: string;
+    content_type: string | { uid: string };
+    action?: string;
+    locale?: string;
+    entry?: {                          // Full entry, sent by Contentstack's default payload
+      uid: string;
+      title?: string;
+      url?: string;
+      author?: { uid: string }[];
+    };
   };
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    // Verify webhook signature (recommended for security)
-    const signature = request.headers.get('x-cs-signature');
-    // You can implement signature verification here for security
-    
-    const payload: WebhookPayload = await request.json();
-    
-    // Check if this is a blog publish event
-    if (
-      payload.event !== 'entry.publish' || 
-      payload.data.content_type !== 'blog' ||
-      payload.data.action !== 'publish'
-    ) {
-      return NextResponse.json({ message: 'Event ignored' }, { status: 200 });
-    }
+/**
+ * Normalize the webhook payload into a content change, or null for events we don't revalidate
+ */
+function parseContentChange(payload: WebhookPayload): ContentChange | null {
+  const contentType = typeof payload.data?.content_type === 'string'
+    ? payload.data.content_type
+    : payload.data?.content_type?.uid;
+  const action = (payload.data?.action || payload.event?.split('.').pop()) as ContentAction;
+  const uid = payload.data?.entry?.uid || payload.data?.uid;
+
+  if (!contentType || !uid || !REVALIDATED_CONTENT_TYPES.includes(contentType) || !REVALIDATED_ACTIONS.includes(action)) {
+    return null;
+  }
 
-    // Get the published blog details
-    const blogUid = payload.data.uid;
-    const blog = await stack
-      .contentType('blog')
-      .entry(blogUid)
-      .fetch();
+  return {
+    contentType,
+    uid,
+    action,
+    url: payload.data.entry?.url,
+    authorUids: payload.data.entry?.author?.map(author => author.uid).filter(Boolean),
+  };
+}
 
-    if (!blog) {
-      return NextResponse.json({ error: 'Blog not found' }, { status: 404 });
-    }
+/**
+ * Identify a delivery so retries of the same event are recognised
+ */
+function getEventId(request: NextRequest, payload: WebhookPayload): string {
+  const headerId = request.headers.get('x-cs-event-id');
+  if (headerId) return headerId;
+  if (payload.event_id) return payload.event_id;
 
-    // Get all newsletter subscribers
-    const subscribers = await stack
-      .contentType('newsletter_subscriber')
-      .entry()
-      .query()
-      .where('status', QueryOperation.EQUALS, 'active')
-      .find();
+  // Redeliveries carry the original trigger time
+  const uid = payload.data?.entry?.uid || payload.data?.uid;
+  return `${payload.event}:${uid}:${payload.triggered_at}`;
+}
 
-    if (!subscribers.entries || subscribers.entries.length === 0) {
-      return NextResponse.json({ message: 'No subscribers found' }, { status: 200 });
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes sent, so read the raw body before parsing
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-cs-signature');
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const verification = verifyWebhookRequest(rawBody, signature, payload?.triggered_at);
+  if (!verification.valid) {
+    if (verification.reason === 'missing_secret') {
+      console.error('Webhook rejected: CONTENTSTACK_WEBHOOK_SECRET is not configured');
+      return NextResponse.json({ error: 'Webhook verification is not configured' }, { status: 500 });
     }
 
-    // Send emails to all subscribers
-    const emailPromises = subscribers.entries.map((subscriber: any) =>
-      sendNewBlogEmail(subscriber.email, blog)
-    );
+    console.warn(`Webhook rejected: ${verification.reason}`);
+    return NextResponse.json({ error: 'Unauthorized', reason: verification.reason }, { status: 401 });
+  }
 
-    await Promise.allSettled(emailPromises);
+  const eventId = getEventId(request, payload);
+  const processedEvents = getProcessedEventStore();
 
-    return NextResponse.json({ 
-      message: `Notifications sent to ${subscribers.entries.length} subscribers` 
-    }, { status: 200 });
+  if (!(await processedEvents.claim(eventId))) {
+    return NextResponse.json({ message: 'Duplicate event ignored', eventId }, { status: 200 });
+  }
+
+  try {
+    const response = await handleWebhookEvent(payload);
+    await processedEvents.complete(eventId);
+    return response;
 
   } catch (error) {
+    // Let Contentstack's retry process the event again
+    await processedEvents.release(eventId);
     console.error('Webhook processing error:', error);
     return NextResponse.json(
       { error: 'Failed to process webhook' },
@@ -78,87 +119,66 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function sendNewBlogEmail(subscriberEmail: string, blog: any) {
-  try {
-    // Using SendGrid - you can replace with your preferred email service
-    const sgMail = require('@sendgrid/mail');
-    sgMail.setApiKey(process.env.SENDGRID_API_KEY);
-
-    const blogUrl = `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001'}/blog/${blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url}`;
-    
-    const msg = {
-      to: subscriberEmail,
-      from: process.env.FROM_EMAIL || 'noreply@yourdomain.com',
-      subject: `New Story Published: ${blog.title}`,
-      html: generateEmailTemplate(blog, blogUrl, subscriberEmail),
-    };
+async function handleWebhookEvent(payload: WebhookPayload): Promise<NextResponse> {
+  const change = parseContentChange(payload);
 
-    await sgMail.send(msg);
-    console.log(`Email sent to ${subscriberEmail}`);
-  } catch (error) {
-    console.error(`Failed to send email to ${subscriberEmail}:`, error);
+  if (!change) {
+    return NextResponse.json({ message: 'Event ignored' }, { status: 200 });
   }
-}
 
-function generateEmailTemplate(blog: any, blogUrl: string, subscriberEmail: string): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>New Story Published</title>
-    </head>
-    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-      <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
-        <h1 style="color: #2563eb; margin-bottom: 20px;">📖 New Story Published!</h1>
-        
-        ${blog.banner_image ? `
-          <img src="${blog.banner_image.url}" alt="${blog.title}" style="width: 100%; height: 200px; object-fit: cover; border-radius: 8px; margin-bottom: 20px;">
-        ` : ''}
-        
-        <h2 style="color: #1f2937; margin-bottom: 15px;">${blog.title}</h2>
-        
-        ${blog.summary ? `
-          <p style="color: #6b7280; font-size: 16px; margin-bottom: 20px;">${blog.summary}</p>
-        ` : ''}
-        
-        <div style="margin-bottom: 25px;">
-          ${blog.author?.[0]?.title ? `
-            <p style="margin: 5px 0; color: #6b7280;">
-              <strong>Author:</strong> ${blog.author[0].title}
-            </p>
-          ` : ''}
-          ${blog.reading_time ? `
-            <p style="margin: 5px 0; color: #6b7280;">
-              <strong>Reading Time:</strong> ${blog.reading_time} minutes
-            </p>
-          ` : ''}
-          ${blog.categories_tags && blog.categories_tags.length > 0 ? `
-            <p style="margin: 5px 0; color: #6b7280;">
-              <strong>Tags:</strong> ${blog.categories_tags.join(', ')}
-            </p>
-          ` : ''}
-        </div>
-        
-        <div style="text-align: center; margin: 30px 0;">
-          <a href="${blogUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
-            Read Full Story
-          </a>
-        </div>
-        
-        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
-        
-        <div style="text-align: center; color: #9ca3af; font-size: 14px;">
-          <p>You're receiving this because you subscribed to our newsletter.</p>
-          <p>
-            <a href="${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001'}/unsubscribe?email=${encodeURIComponent(subscriberEmail)}" style="color: #6b7280; text-decoration: underline;">
-              Unsubscribe
-            </a>
-          </p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-}
\ No newline at end of file
+  // Refresh cached pages first so readers following the email see the new post
+  const revalidation = revalidateContentChange(change);
+
+  // Only newly published posts are emailed to subscribers
+  if (change.contentType !== 'blog' || change.action !== 'publish') {
+    return NextResponse.json({ message: 'Content revalidated', revalidation }, { status: 200 });
+  }
+
+  // Get the published blog details
+  const blogUid = change.uid;
+  const blog = await stack
+    .contentType('blog')
+    .entry(blogUid)
+    .fetch<Blog>();
+
+  if (!blog) {
+    return NextResponse.json({ error: 'Blog not found', revalidation }, { status: 404 });
+  }
+
+  // Active subscribers who want instant emails about this post's topics or authors
+  const post = {
+    tags: blog.categories_tags || [],
+    authorUids: (blog.author || []).map(author => author.uid),
+  };
+  // Skip anyone already emailed about it, e.g. when the post is re-published
+  const alreadySent = await getSendHistoryStore().getRecipientIds(blog.uid);
+  const subscribers = (await getSubscriberStore().list({ status: 'active' })).filter(subscriber =>
+    !alreadySent.has(subscriber.id) &&
+    wantsInstantDelivery(subscriber.preferences) && matchesPreferences(subscriber.preferences, post)
+  );
+
+  if (subscribers.length === 0) {
+    return NextResponse.json({ message: 'No matching subscribers found', revalidation }, { status: 200 });
+  }
+
+  // Queue one batched email to all matching subscribers (rate limited, with retries)
+  const queue = new SendQueue(getEmailTransport(), { context: `new-post:${blog.uid}` });
+  const { results, summary } = await queue.send([buildNewPostBatch(subscribers, blog)]);
+
+  // Record deliveries so a later digest doesn't repeat this post
+  await getSendHistoryStore().record(subscribers
+    .filter((_, index) => results[index].ok)
+    .map(subscriber => ({
+      subscriberId: subscriber.id,
+      postUid: blog.uid,
+      kind: 'instant' as const,
+      sent_at: new Date().toISOString(),
+    })));
+
+  return NextResponse.json({ 
+    message: `Delivered to ${summary.delivered} of ${summary.total} subscribers` +
+      (summary.failed > 0 ? ` (${summary.failed} failed)` : ''),
+    delivery: summary,
+    revalidation
+  }, { status: 200 });
+}
@@ -0,0 +1,22 @@
+import Link from "next/link";
+
+/**
+ * Shown when an author UID does not match a published author
+ */
+export default function AuthorNotFound() {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">
+          Author not found
+        </h1>
+        <Link 
+          href="/blog" 
+          className="text-blue-600 hover:text-blue-800 underline"
+        >
+          ← Back to Insight Hub
+        </Link>
+      </div>
+    </div>
+  );
+}
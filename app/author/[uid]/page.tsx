@@ -1,86 +1,59 @@
-"use client";
-
-import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
-import { getAuthorByUid, getBlogsByAuthor } from "@/lib/contentstack";
-import { Author, Blog } from "@/lib/types";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getAllAuthors, getAuthorByUid, getBlogsByAuthor } from "@/lib/contentstack";
+import { withContentTags } from "@/lib/revalidation";
+
+// Regenerate author pages in the background at most every 30 minutes
+export const revalidate = 1800;
+
+// Authors added after the build are rendered on first request, then cached
+export const dynamicParams = true;
+
+interface AuthorPageProps {
+  params: Promise<{ uid: string }>;
+}
+
+// Fetching an unknown entry UID rejects rather than returning nothing
+const loadAuthor = (uid: string) =>
+  withContentTags(["author"], ["author", uid], () => getAuthorByUid(uid).catch(() => null), revalidate);
 
 /**
- * Author Profile Page - Displays author information and their blog posts
+ * Pre-render every author profile at build time
  */
-export default function AuthorPage() {
-  const params = useParams();
-  const uid = params.uid as string;
-  
-  const [author, setAuthor] = useState<Author | null>(null);
-  const [blogs, setBlogs] = useState<Blog[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchAuthorData = async () => {
-      if (!uid) return;
-      
-      try {
-        const [authorData, authorBlogs] = await Promise.all([
-          getAuthorByUid(uid),
-          getBlogsByAuthor(uid)
-        ]);
-        
-        if (authorData) {
-          setAuthor(authorData);
-          setBlogs(authorBlogs);
-        } else {
-          setError("Author not found");
-        }
-      } catch (error) {
-        console.error("Error fetching author data:", error);
-        setError("Failed to load author information");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAuthorData();
-  }, [uid]);
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-white">
-        <div className="max-w-4xl mx-auto px-4 py-8">
-          <div className="animate-pulse">
-            <div className="h-32 w-32 bg-gray-200 rounded-full mb-6 mx-auto"></div>
-            <div className="h-8 bg-gray-200 rounded mb-4 w-64 mx-auto"></div>
-            <div className="h-4 bg-gray-200 rounded mb-8 w-96 mx-auto"></div>
-            <div className="space-y-6">
-              {[1, 2, 3].map((i) => (
-                <div key={i} className="h-24 bg-gray-200 rounded"></div>
-              ))}
-            </div>
-          </div>
-        </div>
-      </div>
-    );
+export async function generateStaticParams() {
+  const authors = await withContentTags(["author"], ["authors"], () => getAllAuthors(), revalidate);
+  return authors.map(author => ({ uid: author.uid }));
+}
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const { uid } = await params;
+  const author = await loadAuthor(uid);
+
+  if (!author) {
+    return { title: "Author not found - Insight Hub" };
   }
 
-  if (error || !author) {
-    return (
-      <div className="min-h-screen bg-white flex items-center justify-center">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold text-gray-800 mb-4">
-            {error || "Author not found"}
-          </h1>
-          <Link 
-            href="/blog" 
-            className="text-blue-600 hover:text-blue-800 underline"
-          >
-            ← Back to Insight Hub
-          </Link>
-        </div>
-      </div>
-    );
+  return {
+    title: `${author.title} - Insight Hub`,
+    description: author.bio,
+  };
+}
+
+/**
+ * Author Profile Page - Displays author information and their blog posts
+ */
+export default async function AuthorPage({ params }: AuthorPageProps) {
+  const { uid } = await params;
+
+  const [author, blogs] = await Promise.all([
+    loadAuthor(uid),
+    withContentTags(["blog"], ["author-blogs", uid], () => getBlogsByAuthor(uid), revalidate)
+  ]);
+
+  if (!author) {
+    notFound();
   }
 
   return (
@@ -0,0 +1,25 @@
+import Link from "next/link";
+
+/**
+ * Shown when a blog slug does not match a published post
+ */
+export default function BlogPostNotFound() {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center">
+      <div className="text-center max-w-md mx-auto px-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          Story not found
+        </h1>
+        <p className="text-gray-600 mb-8">
+          The story you're looking for doesn't exist or has been removed.
+        </p>
+        <Link 
+          href="/blog" 
+          className="inline-flex items-center px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+        >
+          ← Back to all stories
+        </Link>
+      </div>
+    </div>
+  );
+}
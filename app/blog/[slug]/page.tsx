@@ -1,141 +1,69 @@
-"use client";
-
-import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
-import DOMPurify from "dompurify";
-import { getBlogBySlug, initPersonalization } from "@/lib/contentstack";
-import { getPersonalizationAPI } from "@/lib/personalization-api";
-import { trackInterestFromBlog } from "@/lib/user-interests";
-import { getHybridPersonalizationManager } from "@/lib/hybrid-personalization";
-import { Blog } from "@/lib/types";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getAllBlogs, getBlogBySlug } from "@/lib/contentstack";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+import { withContentTags } from "@/lib/revalidation";
+import BlogViewTracker from "@/app/components/BlogViewTracker";
+
+// Regenerate each post in the background at most every 5 minutes
+export const revalidate = 300;
+
+// Posts published after the build are rendered on first request, then cached
+export const dynamicParams = true;
+
+interface BlogPostPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Tagged so the publish webhook can drop it from the data cache
+const loadBlog = (slug: string) =>
+  withContentTags(["blog"], ["blog-post", slug], () => getBlogBySlug(slug), revalidate);
 
 /**
- * Individual Blog Post Page - Medium-style design
+ * Pre-render every published post at build time
  */
-export default function BlogPostPage() {
-  const params = useParams();
-  const slug = params.slug as string;
-  
-  const [blog, setBlog] = useState<Blog | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+export async function generateStaticParams() {
+  const blogs = await withContentTags(["blog"], ["blogs"], () => getAllBlogs(), revalidate);
 
-  useEffect(() => {
-    const fetchBlog = async () => {
-      if (!slug) return;
-      
-      try {
-        const blogPost = await getBlogBySlug(slug);
-        if (blogPost) {
-          setBlog(blogPost);
-          
-          // Track with hybrid personalization system
-          const hybridManager = getHybridPersonalizationManager();
-          const tags = blogPost.categories_tags || [];
-          
-          // Track blog view with enhanced hybrid tracking
-          try {
-            await hybridManager.trackBlogView({
-              uid: blogPost.uid,
-              title: blogPost.title,
-              tags: tags,
-              author: blogPost.author?.[0]?.title,
-              readTime: 0 // Will be updated with actual reading time
-            });
-            console.log('📖 BlogPost: Successfully tracked blog view with hybrid system');
-          } catch (error) {
-            console.error('📖 BlogPost: Error tracking blog view with hybrid system:', error);
-            
-            // Fallback to individual systems
-            if (tags.length > 0) {
-              console.log('📖 BlogPost: Fallback - tracking user interests from tags:', tags);
-              trackInterestFromBlog(tags, blogPost.uid);
-            }
+  return blogs
+    .map(blog => (blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url))
+    .filter((slug): slug is string => !!slug && !slug.includes('/'))
+    .map(slug => ({ slug }));
+}
 
-            // Fallback to Contentstack only
-            let personalizationAPI = getPersonalizationAPI();
-            if (!personalizationAPI) {
-              personalizationAPI = initPersonalization();
-            }
-            
-            if (personalizationAPI) {
-              try {
-                await personalizationAPI.trackBlogView(blogPost.uid, tags);
-                console.log('📖 BlogPost: Fallback tracking successful');
-              } catch (fallbackError) {
-                console.error('📖 BlogPost: Fallback tracking failed:', fallbackError);
-              }
-            }
-          }
-        } else {
-          setError("Blog post not found");
-        }
-      } catch (error) {
-        console.error("Error fetching blog:", error);
-        setError("Failed to load blog post");
-      } finally {
-        setLoading(false);
-      }
-    };
+export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const blog = await loadBlog(slug);
 
-    fetchBlog();
-  }, [slug]);
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-white">
-        {/* Simple Top Navigation */}
-        <nav className="border-b border-gray-100">
-          <div className="max-w-4xl mx-auto px-6 py-4">
-            <Link href="/blog" className="text-gray-600 hover:text-black transition-colors">
-              ← Back to Insight Hub
-            </Link>
-          </div>
-        </nav>
-        
-        <div className="max-w-2xl mx-auto px-6 py-16">
-          <div className="animate-pulse">
-            <div className="h-12 bg-gray-200 rounded mb-8"></div>
-            <div className="flex items-center mb-8">
-              <div className="w-12 h-12 bg-gray-200 rounded-full mr-4"></div>
-              <div>
-                <div className="h-4 bg-gray-200 rounded w-32 mb-2"></div>
-                <div className="h-3 bg-gray-200 rounded w-24"></div>
-              </div>
-            </div>
-            <div className="h-64 bg-gray-200 rounded mb-8"></div>
-            <div className="space-y-4">
-              <div className="h-4 bg-gray-200 rounded"></div>
-              <div className="h-4 bg-gray-200 rounded w-5/6"></div>
-              <div className="h-4 bg-gray-200 rounded w-4/6"></div>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
+  if (!blog) {
+    return { title: "Story not found - Insight Hub" };
   }
 
-  if (error || !blog) {
-    return (
-      <div className="min-h-screen bg-white flex items-center justify-center">
-        <div className="text-center max-w-md mx-auto px-6">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            {error || "Story not found"}
-          </h1>
-          <p className="text-gray-600 mb-8">
-            The story you're looking for doesn't exist or has been removed.
-          </p>
-          <Link 
-            href="/blog" 
-            className="inline-flex items-center px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
-          >
-            ← Back to all stories
-          </Link>
-        </div>
-      </div>
-    );
+  return {
+    title: `${blog.title} - Insight Hub`,
+    description: blog.summary,
+    openGraph: {
+      title: blog.title,
+      description: blog.summary,
+      type: "article",
+      publishedTime: blog.published_date,
+      authors: blog.author?.map(author => author.title),
+      images: blog.banner_image ? [blog.banner_image.url] : undefined,
+    },
+  };
+}
+
+/**
+ * Individual Blog Post Page - Medium-style design
+ */
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { slug } = await params;
+  const blog = await loadBlog(slug);
+
+  if (!blog) {
+    notFound();
   }
 
   return (
@@ -149,8 +77,17 @@ export default function BlogPostPage() {
         </div>
       </nav>
 
+      {/* Personalization tracking */}
+      <BlogViewTracker
+        uid={blog.uid}
+        title={blog.title}
+        tags={blog.categories_tags || []}
+        author={blog.author?.[0]?.title}
+        readingTimeMinutes={blog.reading_time}
+      />
+
       {/* Main Content */}
-      <article className="max-w-2xl mx-auto px-6">
+      <article className="max-w-2xl mx-auto px-6" data-reading-content>
         {/* Header Section */}
         <header className="py-16 border-b border-gray-100">
           {/* Title */}
@@ -180,12 +117,20 @@ export default function BlogPostPage() {
                 </Link>
               )}
               <div>
-                <Link 
-                  href={`/author/${blog.author?.[0]?.uid || '#'}`}
-                  className="text-lg font-medium text-gray-900 hover:underline"
-                >
-                  {blog.author?.[0]?.title || "Unknown Author"}
-                </Link>
+                {blog.author && blog.author.length > 0 ? (
+                  <p className="text-lg font-medium text-gray-900">
+                    {blog.author.map((author, index) => (
+                      <span key={author.uid}>
+                        {index > 0 && (index === blog.author!.length - 1 ? " & " : ", ")}
+                        <Link href={`/author/${author.uid}`} className="hover:underline">
+                          {author.title}
+                        </Link>
+                      </span>
+                    ))}
+                  </p>
+                ) : (
+                  <span className="text-lg font-medium text-gray-900">Unknown Author</span>
+                )}
                 <div className="flex items-center text-sm text-gray-500 mt-1">
                   {blog.published_date && (
                     <time dateTime={blog.published_date}>
@@ -260,7 +205,7 @@ export default function BlogPostPage() {
                 prose-ul:my-6 prose-ol:my-6 prose-li:my-2
                 prose-img:rounded-lg prose-img:my-8"
               dangerouslySetInnerHTML={{
-                __html: DOMPurify.sanitize(blog.content),
+                __html: sanitizeHtml(blog.content),
               }}
             />
           )}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BlogFacets,
+  BlogFilters as BlogFilterState,
+  FacetValue,
+  ReadingTimeBucket,
+  createEmptyFilters,
+  hasActiveFilters,
+} from "@/lib/blog-facets";
+
+interface BlogFiltersProps {
+  facets: BlogFacets | null;
+  filters: BlogFilterState;
+  onChange: (filters: BlogFilterState) => void;
+  className?: string;
+}
+
+// Number of tags shown before "Show all"
+const COLLAPSED_TAG_COUNT = 12;
+
+/**
+ * Toggle a value in a list
+ */
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function FacetChip({ facet, onToggle }: { facet: FacetValue; onToggle: () => void }) {
+  const isDisabled = facet.count === 0 && !facet.selected;
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      disabled={isDisabled}
+      aria-pressed={facet.selected}
+      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+        facet.selected
+          ? "bg-black text-white"
+          : "bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+      }`}
+    >
+      <span>{facet.label}</span>
+      <span className={facet.selected ? "text-gray-300" : "text-gray-400"}>{facet.count}</span>
+    </button>
+  );
+}
+
+/**
+ * Facet filter panel for the blog index: tags, authors, reading time and date range
+ */
+export default function BlogFilters({ facets, filters, onChange, className = "" }: BlogFiltersProps) {
+  const [showAllTags, setShowAllTags] = useState(false);
+
+  if (!facets) {
+    return null;
+  }
+
+  const visibleTags = showAllTags ? facets.tags : facets.tags.slice(0, COLLAPSED_TAG_COUNT);
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Tags */}
+      {facets.tags.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Topics</h3>
+          <div className="flex flex-wrap gap-2">
+            {visibleTags.map(facet => (
+              <FacetChip
+                key={facet.value}
+                facet={facet}
+                onToggle={() => onChange({ ...filters, tags: toggleValue(filters.tags, facet.value) })}
+              />
+            ))}
+            {facets.tags.length > COLLAPSED_TAG_COUNT && (
+              <button
+                type="button"
+                onClick={() => setShowAllTags(!showAllTags)}
+                className="px-3 py-1.5 text-sm text-gray-500 hover:text-black transition-colors"
+              >
+                {showAllTags ? "Show fewer" : `Show all ${facets.tags.length}`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Authors */}
+      {facets.authors.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Authors</h3>
+          <div className="flex flex-wrap gap-2">
+            {facets.authors.map(facet => (
+              <FacetChip
+                key={facet.value}
+                facet={facet}
+                onToggle={() => onChange({ ...filters, authors: toggleValue(filters.authors, facet.value) })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Reading Time */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Reading time</h3>
+        <div className="flex flex-wrap gap-2">
+          {facets.readingTime.map(facet => (
+            <FacetChip
+              key={facet.value}
+              facet={facet}
+              onToggle={() => onChange({
+                ...filters,
+                readingTime: toggleValue(filters.readingTime, facet.value as ReadingTimeBucket),
+              })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Date Range */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Published</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <span>From</span>
+            <input
+              type="date"
+              value={filters.from || ""}
+              min={facets.dateRange.min}
+              max={filters.to || facets.dateRange.max}
+              onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg bg-gray-50 focus:bg-white focus:border-gray-400 focus:outline-none"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span>To</span>
+            <input
+              type="date"
+              value={filters.to || ""}
+              min={filters.from || facets.dateRange.min}
+              max={facets.dateRange.max}
+              onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg bg-gray-50 focus:bg-white focus:border-gray-400 focus:outline-none"
+            />
+          </label>
+        </div>
+      </div>
+
+      {hasActiveFilters(filters) && (
+        <button
+          type="button"
+          onClick={() => onChange(createEmptyFilters())}
+          className="text-sm text-gray-600 hover:text-black underline transition-colors"
+        >
+          Clear all filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,581 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+// Removed useSearchParams to avoid Next.js 15 enumeration issues
+import Image from "next/image";
+import Link from "next/link";
+import {
+  BLOG_PAGE_SIZE,
+  BlogFacets,
+  BlogListResponse,
+  BlogFilters as BlogFilterState,
+  applyBlogFiltersToParams,
+  computeBlogFacets,
+  createEmptyFilters,
+  filterBlogs,
+  hasActiveFilters,
+  parseBlogFilters,
+} from "@/lib/blog-facets";
+import { Blog, BlogSearchHit, BlogSearchResponse } from "@/lib/types";
+import SearchBar from "@/app/components/SearchBar";
+import Pagination, { PaginationMode } from "@/app/components/Pagination";
+import HighlightedText from "@/app/components/HighlightedText";
+import BlogFilters from "@/app/components/BlogFilters";
+
+// Pagination mode for the blog index: numbered pages or an appending "load more" button
+const PAGINATION_MODE: PaginationMode =
+  process.env.NEXT_PUBLIC_BLOG_PAGINATION_MODE === "load-more" ? "load-more" : "pages";
+
+/**
+ * Read the current page number from the URL (?page=), defaulting to 1
+ */
+function getPageFromUrl(): number {
+  if (typeof window === 'undefined') return 1;
+  const page = parseInt(new URLSearchParams(window.location.search).get('page') || '1', 10);
+  return Number.isFinite(page) && page > 0 ? page : 1;
+}
+
+/**
+ * Read facet filters from the URL (?tag=&author=&reading=&from=&to=)
+ */
+function getFiltersFromUrl(): BlogFilterState {
+  if (typeof window === 'undefined') return createEmptyFilters();
+  return parseBlogFilters(new URLSearchParams(window.location.search));
+}
+
+/**
+ * Sync the page number and filters into the URL without a navigation
+ */
+function syncUrl(page: number, filters: BlogFilterState, mode: "push" | "replace" = "push") {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  url.search = applyBlogFiltersToParams(url.searchParams, filters).toString();
+  if (page > 1) {
+    url.searchParams.set('page', String(page));
+  } else {
+    url.searchParams.delete('page');
+  }
+  if (mode === "push") {
+    window.history.pushState(null, '', url);
+  } else {
+    window.history.replaceState(null, '', url);
+  }
+}
+
+/**
+ * Get the highlight ranges a search hit has for one field (and array value)
+ */
+function getHighlightRanges(hit: BlogSearchHit | undefined, field: string, valueIndex?: number) {
+  if (!hit) return [];
+  return hit.matches.filter(match =>
+    match.field === field && (valueIndex === undefined || match.valueIndex === valueIndex)
+  );
+}
+
+interface BlogIndexProps {
+  initialBlogs: Blog[];
+  initialFacets: BlogFacets | null;
+  initialTotal: number;
+}
+
+/**
+ * Interactive blog index - search, facet filters and pagination. The first,
+ * unfiltered page is rendered on the server and handed in as initial props.
+ */
+export default function BlogIndex({ initialBlogs, initialFacets, initialTotal }: BlogIndexProps) {
+  const [blogs, setBlogs] = useState<Blog[]>(initialBlogs);
+  const [loading, setLoading] = useState(false);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [hasSearched, setHasSearched] = useState(false);
+  const [searchHits, setSearchHits] = useState<Record<string, BlogSearchHit>>({});
+  const [searchResults, setSearchResults] = useState<Blog[]>([]);
+
+  // Facet filter state
+  const [filters, setFilters] = useState<BlogFilterState>(createEmptyFilters());
+  const [facets, setFacets] = useState<BlogFacets | null>(initialFacets);
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(Math.max(Math.ceil(initialTotal / BLOG_PAGE_SIZE), 1));
+  const [totalBlogs, setTotalBlogs] = useState(initialTotal);
+  const [pageLoading, setPageLoading] = useState(false);
+
+  // Load a page of blogs matching the filters, along with facet counts. In load-more mode,
+  // `append` adds the page to the current list and restoring ?page=N on first load
+  // fetches pages 1..N in one request.
+  const loadPage = async (
+    page: number,
+    activeFilters: BlogFilterState,
+    options: { append?: boolean; restore?: boolean } = {}
+  ) => {
+    const query = options.restore && PAGINATION_MODE === "load-more" && page > 1
+      ? { limit: page * BLOG_PAGE_SIZE, skip: 0 }
+      : { limit: BLOG_PAGE_SIZE, skip: (page - 1) * BLOG_PAGE_SIZE };
+
+    const params = applyBlogFiltersToParams(new URLSearchParams(), activeFilters);
+    params.set('limit', String(query.limit));
+    params.set('skip', String(query.skip));
+
+    const response = await fetch(`/api/blogs?${params}`);
+    if (!response.ok) {
+      throw new Error(`Blog list request failed with status ${response.status}`);
+    }
+    const { facets: blogFacets, ...result }: BlogListResponse = await response.json();
+
+    const lastPage = Math.max(Math.ceil(result.total / BLOG_PAGE_SIZE), 1);
+    const resolvedPage = Math.min(page, lastPage);
+
+    setBlogs(previous => options.append ? [...previous, ...result.entries] : result.entries);
+    setCurrentPage(resolvedPage);
+    setTotalPages(lastPage);
+    setTotalBlogs(result.total);
+    setFacets(blogFacets);
+
+    return resolvedPage;
+  };
+
+  useEffect(() => {
+    const fetchBlogs = async () => {
+      try {
+        const urlFilters = getFiltersFromUrl();
+        const urlPage = getPageFromUrl();
+
+        // ?search= links (e.g. the hero CTAs) open straight onto the results
+        const searchParam = new URLSearchParams(window.location.search).get('search')?.trim();
+        if (searchParam) {
+          setFilters(urlFilters);
+          await handleSearch(searchParam, urlFilters);
+          return;
+        }
+
+        // The server rendered the first unfiltered page; only refetch for deep links
+        if (urlPage > 1 || hasActiveFilters(urlFilters)) {
+          setLoading(true);
+          setFilters(urlFilters);
+          const page = await loadPage(urlPage, urlFilters, { restore: true });
+          syncUrl(page, urlFilters, "replace");
+        }
+      } catch (error) {
+        console.error("Error fetching blogs:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBlogs();
+
+    // Keep the list in sync with browser back/forward navigation between pages and filters
+    const handlePopState = () => {
+      const urlFilters = getFiltersFromUrl();
+      setFilters(urlFilters);
+      setHasSearched(false);
+      loadPage(getPageFromUrl(), urlFilters, { restore: true }).catch(error => {
+        console.error("Error fetching blogs:", error);
+      });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []); // Remove searchParams dependency to avoid enumeration
+
+  // Page change handler (page-number mode)
+  const handlePageChange = async (page: number) => {
+    if (page < 1 || page > totalPages || page === currentPage) return;
+
+    setPageLoading(true);
+    try {
+      const resolvedPage = await loadPage(page, filters);
+      syncUrl(resolvedPage, filters);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (error) {
+      console.error("Error fetching blogs:", error);
+    } finally {
+      setPageLoading(false);
+    }
+  };
+
+  // Load more handler (load-more mode)
+  const handleLoadMore = async () => {
+    if (currentPage >= totalPages) return;
+
+    setPageLoading(true);
+    try {
+      const resolvedPage = await loadPage(currentPage + 1, filters, { append: true });
+      syncUrl(resolvedPage, filters, "replace");
+    } catch (error) {
+      console.error("Error fetching blogs:", error);
+    } finally {
+      setPageLoading(false);
+    }
+  };
+
+  // Facet filter change handler
+  const handleFiltersChange = async (nextFilters: BlogFilterState) => {
+    setFilters(nextFilters);
+
+    if (hasSearched) {
+      // Narrow the current search results in place
+      setBlogs(filterBlogs(searchResults, nextFilters));
+      setFacets(computeBlogFacets(searchResults, nextFilters));
+      syncUrl(1, nextFilters, "replace");
+      return;
+    }
+
+    setPageLoading(true);
+    try {
+      const resolvedPage = await loadPage(1, nextFilters);
+      syncUrl(resolvedPage, nextFilters);
+    } catch (error) {
+      console.error("Error filtering blogs:", error);
+    } finally {
+      setPageLoading(false);
+    }
+  };
+
+  // Search handler function. Filters default to the current ones; the initial
+  // URL search passes its own since state has not caught up yet.
+  const handleSearch = async (query: string, activeFilters: BlogFilterState = filters) => {
+    setSearchQuery(query);
+    
+    if (!query.trim()) {
+      // Reset to the first page of all blogs if search is empty
+      setHasSearched(false);
+      setSearchHits({});
+      setSearchResults([]);
+      try {
+        await loadPage(1, activeFilters);
+        syncUrl(1, activeFilters, "replace");
+      } catch (error) {
+        console.error("Error fetching blogs:", error);
+      }
+      return;
+    }
+
+    setSearchLoading(true);
+    setHasSearched(true);
+    
+    try {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(query.trim())}&limit=100`);
+      if (!response.ok) {
+        throw new Error(`Search request failed with status ${response.status}`);
+      }
+
+      const data: BlogSearchResponse = await response.json();
+      const results = data.results.map(result => result.blog);
+      setSearchResults(results);
+      setBlogs(filterBlogs(results, activeFilters));
+      setFacets(computeBlogFacets(results, activeFilters));
+      setSearchHits(Object.fromEntries(data.results.map(result => [result.blog.uid, result])));
+    } catch (error) {
+      console.error("Error searching blogs:", error);
+      setBlogs([]);
+      setSearchResults([]);
+      setSearchHits({});
+    } finally {
+      setSearchLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-white">
+        {/* Simple Header */}
+        <header className="border-b border-gray-100">
+          <div className="max-w-4xl mx-auto px-6 py-6">
+            <Link href="/" className="text-3xl font-bold text-black">
+              Insight Hub
+            </Link>
+          </div>
+        </header>
+
+        <div className="max-w-2xl mx-auto px-6 py-16">
+          <div className="animate-pulse">
+            <div className="h-12 bg-gray-200 rounded mb-12"></div>
+            <div className="space-y-12">
+              {[1, 2, 3, 4].map((i) => (
+                <div key={i} className="border-b border-gray-100 pb-12">
+                  <div className="flex items-center mb-4">
+                    <div className="w-8 h-8 bg-gray-200 rounded-full mr-3"></div>
+                    <div>
+                      <div className="h-4 bg-gray-200 rounded w-24 mb-1"></div>
+                      <div className="h-3 bg-gray-200 rounded w-16"></div>
+                    </div>
+                  </div>
+                  <div className="h-8 bg-gray-200 rounded mb-3"></div>
+                  <div className="h-4 bg-gray-200 rounded mb-2 w-5/6"></div>
+                  <div className="h-4 bg-gray-200 rounded w-4/6"></div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Simple Header */}
+      <header className="border-b border-gray-100">
+        <div className="max-w-4xl mx-auto px-6 py-6">
+          <Link href="/" className="text-3xl font-bold text-black hover:text-gray-700 transition-colors">
+            Stories
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-2xl mx-auto px-6 py-16">
+        {/* Search Bar */}
+        <div className="mb-12">
+          <SearchBar 
+            onSearch={handleSearch}
+            placeholder="Search stories, authors, or topics..."
+            isLoading={searchLoading}
+            className="max-w-md mx-auto"
+            defaultValue={searchQuery}
+          />
+        </div>
+
+        {/* Facet Filters */}
+        <BlogFilters
+          facets={facets}
+          filters={filters}
+          onChange={handleFiltersChange}
+          className="mb-12 pb-12 border-b border-gray-100"
+        />
+
+        {/* Search Results Header */}
+        {hasSearched && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {blogs.length === 0 
+                ? `No results found for "${searchQuery}"` 
+                : `${blogs.length} result${blogs.length !== 1 ? 's' : ''} for "${searchQuery}"`
+              }
+            </h2>
+            {blogs.length === 0 && (
+              <p className="text-gray-600">
+                Try searching with different keywords or browse all stories below.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Filtered Results Header */}
+        {!hasSearched && hasActiveFilters(filters) && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {totalBlogs} stor{totalBlogs !== 1 ? 'ies' : 'y'} match your filters
+            </h2>
+          </div>
+        )}
+
+        {blogs.length === 0 && !hasSearched && !hasActiveFilters(filters) ? (
+          <div className="text-center py-24">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">No stories yet</h1>
+            <p className="text-xl text-gray-600 mb-8">
+              Check back soon for compelling stories and insights.
+            </p>
+            <Link 
+              href="/"
+              className="inline-flex items-center px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+            >
+              ← Back to home
+            </Link>
+          </div>
+        ) : blogs.length === 0 && !hasSearched ? (
+          <div className="text-center py-16">
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No stories match these filters</h3>
+            <p className="text-gray-600 mb-6">
+              Try removing a filter or widening the date range.
+            </p>
+            <button
+              onClick={() => handleFiltersChange(createEmptyFilters())}
+              className="inline-flex items-center px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+            >
+              Clear filters
+            </button>
+          </div>
+        ) : blogs.length === 0 && hasSearched ? (
+          <div className="text-center py-16">
+            <svg className="mx-auto h-16 w-16 text-gray-400 mb-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No stories found</h3>
+            <p className="text-gray-600 mb-6">
+              We couldn't find any stories matching "{searchQuery}". Try a different search term.
+            </p>
+            <button
+              onClick={() => handleSearch("")}
+              className="inline-flex items-center px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+            >
+              Show all stories
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-16">
+            {blogs.map((blog, index) => {
+              const hit = hasSearched ? searchHits[blog.uid] : undefined;
+
+              return (
+                <article key={blog.uid} className={`${index !== blogs.length - 1 ? 'border-b border-gray-100 pb-16' : ''}`}>
+                  <Link href={`/blog/${blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url}`} className="group block">
+                    {/* Author Info */}
+                    <div className="flex items-center mb-6">
+                      {blog.author?.[0]?.profile_picture && (
+                        <Image
+                          src={blog.author[0].profile_picture.url}
+                          alt={blog.author[0].title}
+                          width={40}
+                          height={40}
+                          className="rounded-full mr-4"
+                        />
+                      )}
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {blog.author?.[0]?.title
+                            ? <HighlightedText text={blog.author[0].title} ranges={getHighlightRanges(hit, "author", 0)} />
+                            : "Unknown Author"}
+                        </p>
+                        <div className="flex items-center text-sm text-gray-500 mt-1">
+                          {blog.published_date && (
+                            <time dateTime={blog.published_date}>
+                              {new Date(blog.published_date).toLocaleDateString("en-US", {
+                                year: "numeric",
+                                month: "short",
+                                day: "numeric",
+                              })}
+                            </time>
+                          )}
+                          {blog.reading_time && (
+                            <>
+                              <span className="mx-2">·</span>
+                              <span>{blog.reading_time} min read</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-6">
+                      {/* Title */}
+                      <h2 className="text-3xl md:text-4xl font-bold text-gray-900 leading-tight group-hover:text-gray-700 transition-colors">
+                        <HighlightedText text={blog.title} ranges={getHighlightRanges(hit, "title")} />
+                      </h2>
+
+                      {/* Summary */}
+                      {blog.summary && (
+                        <p className="text-xl text-gray-600 leading-relaxed">
+                          <HighlightedText text={blog.summary} ranges={getHighlightRanges(hit, "summary")} />
+                        </p>
+                      )}
+
+                      {/* Search Snippet - why this post matched */}
+                      {hit?.snippet && (
+                        <p className="text-base text-gray-500 leading-relaxed border-l-2 border-gray-200 pl-4">
+                          <HighlightedText text={hit.snippet.text} ranges={hit.snippet.highlights} />
+                        </p>
+                      )}
+
+                      {/* Featured Image */}
+                      {blog.banner_image && (
+                        <div className="my-8">
+                          <Image
+                            src={blog.banner_image.url}
+                            alt={blog.title}
+                            width={800}
+                            height={400}
+                            className="w-full h-64 md:h-80 object-cover rounded-lg group-hover:opacity-95 transition-opacity"
+                          />
+                        </div>
+                      )}
+
+                      {/* Tags */}
+                      {blog.categories_tags && blog.categories_tags.length > 0 && (
+                        <div className="flex flex-wrap gap-3 pt-4">
+                          {blog.categories_tags.slice(0, 4).map((tag, index) => (
+                            <span
+                              key={index}
+                              className="inline-block bg-gray-100 text-gray-700 px-4 py-2 rounded-full text-sm font-medium hover:bg-gray-200 transition-colors"
+                            >
+                              <HighlightedText text={tag} ranges={getHighlightRanges(hit, "tags", index)} />
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Read More Hint */}
+                      <div className="flex items-center text-gray-500 group-hover:text-gray-700 transition-colors pt-2">
+                        <span className="text-sm font-medium">Read story</span>
+                        <svg className="w-4 h-4 ml-1 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                      </div>
+                    </div>
+                  </Link>
+                </article>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Pagination - only for the unfiltered listing */}
+        {!hasSearched && blogs.length > 0 && (
+          <Pagination
+            mode={PAGINATION_MODE}
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+            onLoadMore={handleLoadMore}
+            isLoading={pageLoading}
+            className="mt-16"
+          />
+        )}
+
+        {/* Bottom Call to Action */}
+        {blogs.length > 0 && (
+          <div className="text-center pt-16 mt-16 border-t border-gray-100">
+            {hasSearched ? (
+              <div>
+                <p className="text-gray-600 mb-6">
+                  {blogs.length === totalBlogs 
+                    ? "That's all the stories we have!"
+                    : "Want to see more stories?"
+                  }
+                </p>
+                {blogs.length < totalBlogs && (
+                  <button
+                    onClick={() => handleSearch("")}
+                    className="inline-flex items-center text-gray-600 hover:text-black transition-colors mr-6"
+                  >
+                    ← Browse all stories
+                  </button>
+                )}
+                <Link 
+                  href="/"
+                  className="inline-flex items-center text-gray-600 hover:text-black transition-colors"
+                >
+                  ← Explore our homepage
+                </Link>
+              </div>
+            ) : (
+              <div>
+                <p className="text-gray-600 mb-6">
+                  Interested in more stories like these?
+                </p>
+                <Link 
+                  href="/"
+                  className="inline-flex items-center text-gray-600 hover:text-black transition-colors"
+                >
+                  ← Explore our homepage
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
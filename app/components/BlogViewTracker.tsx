@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect } from "react";
+import { initPersonalization } from "@/lib/contentstack";
+import { getPersonalizationAPI } from "@/lib/personalization-api";
+import { getHybridPersonalizationManager } from "@/lib/hybrid-personalization";
+import { ReadingEngagementTracker } from "@/lib/reading-engagement";
+
+interface BlogViewTrackerProps {
+  uid: string;
+  title: string;
+  tags: string[];
+  author?: string;
+  readingTimeMinutes?: number;
+  contentSelector?: string;            // Element whose scroll depth is measured
+}
+
+/**
+ * Records a blog view with the personalization systems, then measures reading
+ * progress until the reader leaves. Renders nothing; the post itself is server-rendered.
+ */
+export default function BlogViewTracker({
+  uid,
+  title,
+  tags,
+  author,
+  readingTimeMinutes,
+  contentSelector = "[data-reading-content]",
+}: BlogViewTrackerProps) {
+  useEffect(() => {
+    const blogData = { uid, title, tags, author };
+
+    const trackView = async () => {
+      // Track with hybrid personalization system
+      const hybridManager = getHybridPersonalizationManager();
+
+      try {
+        await hybridManager.trackBlogView(blogData);
+        console.log('📖 BlogPost: Successfully tracked blog view with hybrid system');
+      } catch (error) {
+        console.error('📖 BlogPost: Error tracking blog view with hybrid system:', error);
+
+        // Fallback to Contentstack only
+        let personalizationAPI = getPersonalizationAPI();
+        if (!personalizationAPI) {
+          personalizationAPI = initPersonalization();
+        }
+
+        if (personalizationAPI) {
+          try {
+            await personalizationAPI.trackBlogView(uid, tags);
+            console.log('📖 BlogPost: Fallback tracking successful');
+          } catch (fallbackError) {
+            console.error('📖 BlogPost: Fallback tracking failed:', fallbackError);
+          }
+        }
+      }
+    };
+
+    trackView();
+
+    const element = document.querySelector<HTMLElement>(contentSelector);
+    if (!element) {
+      console.warn(`📖 BlogPost: No ${contentSelector} element, reading progress not tracked`);
+      return;
+    }
+
+    const hybridManager = getHybridPersonalizationManager();
+    // A previous post whose tab was discarded before it could report
+    hybridManager.flushPendingBlogRead();
+
+    const tracker = new ReadingEngagementTracker(element, {
+      expectedReadSeconds: readingTimeMinutes ? readingTimeMinutes * 60 : undefined,
+      onMilestone: (milestone, snapshot) => {
+        hybridManager.trackReadingMilestone(blogData, milestone, snapshot);
+      },
+    });
+    tracker.start();
+
+    // Report once, when the page is closed or the reader navigates to another
+    // post. Switching tabs only saves progress: the reader may come back, and
+    // mobile browsers may discard a hidden tab without firing pagehide.
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      hybridManager.trackBlogRead(blogData, tracker.stop());
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && !finished) {
+        hybridManager.saveBlogReadSnapshot(blogData, tracker.getSnapshot());
+      }
+    };
+
+    window.addEventListener('pagehide', finish);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('pagehide', finish);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      finish();
+    };
+    // Tags arrive as a fresh array on every render; the post UID identifies the view
+  }, [uid]);
+
+  return null;
+}
@@ -0,0 +1,49 @@
+"use client";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: { start: number; end: number }[];
+  className?: string;
+  highlightClassName?: string;
+}
+
+/**
+ * Renders text with the given character ranges wrapped in <mark>
+ */
+export default function HighlightedText({
+  text,
+  ranges,
+  className = "",
+  highlightClassName = "bg-yellow-100 text-inherit rounded px-0.5",
+}: HighlightedTextProps) {
+  if (ranges.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  // Sort and drop overlapping ranges so each character is rendered once
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  sorted.forEach((range, index) => {
+    const start = Math.max(range.start, cursor);
+    const end = Math.min(range.end, text.length);
+    if (start >= end) return;
+
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={index} className={highlightClassName}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <span className={className}>{parts}</span>;
+}
@@ -2,11 +2,22 @@
 
 import React, { useState, useEffect } from 'react';
 import { 
-  getUserInterestProfile, 
   clearUserInterests, 
   getInterestStats,
-  getUserTopInterests 
+  getUserTopInterests,
+  getExplicitInterests,
+  followTopic,
+  unfollowTopic,
+  pinTopic,
+  unpinTopic,
+  muteTopic,
+  unmuteTopic,
+  ExplicitInterests
 } from '@/lib/user-interests';
+import { canonicalizeTag, getTagLabel, getTaxonomyTerms } from '@/lib/tag-taxonomy';
+
+// Topics offered in "Add a topic": every taxonomy term that isn't a category
+const SUGGESTED_TOPICS = getTaxonomyTerms().filter(term => term.parent);
 
 interface InterestManagerProps {
   onClose?: () => void;
@@ -14,6 +25,9 @@ interface InterestManagerProps {
 
 export default function InterestManager({ onClose }: InterestManagerProps) {
   const [interestStats, setInterestStats] = useState<any>(null);
+  const [topics, setTopics] = useState<string[]>([]);
+  const [explicit, setExplicit] = useState<ExplicitInterests | null>(null);
+  const [newTopic, setNewTopic] = useState('');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -23,9 +37,25 @@ export default function InterestManager({ onClose }: InterestManagerProps) {
   const loadInterestData = () => {
     const stats = getInterestStats();
     setInterestStats(stats);
+    setTopics(getUserTopInterests(12));
+    setExplicit(getExplicitInterests());
     setLoading(false);
   };
 
+  // Each edit saves (and syncs) the profile; reload so the lists reflect it
+  const editTopics = (edit: (tag: string) => ExplicitInterests, tag: string) => {
+    edit(tag);
+    loadInterestData();
+  };
+
+  const handleAddTopic = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (newTopic.trim()) {
+      editTopics(followTopic, newTopic);
+      setNewTopic('');
+    }
+  };
+
   const handleClearInterests = () => {
     if (confirm('Are you sure you want to clear all your reading interests? This will reset your personalized recommendations.')) {
       clearUserInterests();
@@ -33,6 +63,38 @@ export default function InterestManager({ onClose }: InterestManagerProps) {
     }
   };
 
+  const suggestions = SUGGESTED_TOPICS.filter(term =>
+    !explicit?.followed.includes(term.uid) && !explicit?.muted.includes(term.uid)
+  );
+
+  const addTopicForm = (
+    <form onSubmit={handleAddTopic}>
+      <h4 className="font-semibold text-gray-900 mb-3">Add a Topic</h4>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTopic}
+          onChange={(event) => setNewTopic(event.target.value)}
+          list="interest-topic-suggestions"
+          placeholder="e.g. TypeScript, Docker"
+          className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <datalist id="interest-topic-suggestions">
+          {suggestions.map(term => (
+            <option key={term.uid} value={term.label} />
+          ))}
+        </datalist>
+        <button
+          type="submit"
+          disabled={!canonicalizeTag(newTopic)}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded text-sm transition-colors"
+        >
+          Follow
+        </button>
+      </div>
+    </form>
+  );
+
   if (loading) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
@@ -62,7 +124,7 @@ export default function InterestManager({ onClose }: InterestManagerProps) {
             </p>
           </div>
           
-          <div className="p-6">
+          <div className="p-6 max-h-[70vh] overflow-y-auto">
             {interestStats?.hasInterests ? (
               <div className="space-y-6">
                 {/* Stats */}
@@ -77,20 +139,76 @@ export default function InterestManager({ onClose }: InterestManagerProps) {
                   </div>
                 </div>
 
-                {/* Top Interests */}
-                <div>
-                  <h4 className="font-semibold text-gray-900 mb-3">Your Top Interests</h4>
-                  <div className="flex flex-wrap gap-2">
-                    {interestStats.topInterests.map((interest: string, index: number) => (
-                      <span
-                        key={interest}
-                        className="inline-block bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium capitalize"
-                      >
-                        #{index + 1} {interest}
-                      </span>
-                    ))}
+                {/* Topics */}
+                {topics.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-3">Your Topics</h4>
+                    <ul className="space-y-2">
+                      {topics.map((topic, index) => {
+                        const isPinned = !!explicit?.pinned.includes(topic);
+                        const isFollowed = !!explicit?.followed.includes(topic);
+
+                        return (
+                          <li key={topic} className="flex items-center justify-between gap-2 bg-gray-50 px-3 py-2 rounded-lg">
+                            <span className="text-sm font-medium text-gray-900">
+                              #{index + 1} {getTagLabel(topic)}
+                              {isPinned ? (
+                                <span className="ml-2 text-xs text-indigo-600">📌 Pinned</span>
+                              ) : isFollowed ? (
+                                <span className="ml-2 text-xs text-blue-600">Following</span>
+                              ) : (
+                                <span className="ml-2 text-xs text-gray-500">From your reading</span>
+                              )}
+                            </span>
+                            <span className="flex gap-1 text-xs">
+                              <button
+                                onClick={() => editTopics(isPinned ? unpinTopic : pinTopic, topic)}
+                                className="px-2 py-1 rounded text-gray-600 hover:bg-gray-200 transition-colors"
+                                title={isPinned ? 'Unpin' : 'Keep at the top'}
+                              >
+                                {isPinned ? 'Unpin' : 'Pin'}
+                              </button>
+                              <button
+                                onClick={() => editTopics(isFollowed ? unfollowTopic : followTopic, topic)}
+                                className="px-2 py-1 rounded text-gray-600 hover:bg-gray-200 transition-colors"
+                              >
+                                {isFollowed ? 'Unfollow' : 'Follow'}
+                              </button>
+                              <button
+                                onClick={() => editTopics(muteTopic, topic)}
+                                className="px-2 py-1 rounded text-red-600 hover:bg-red-50 transition-colors"
+                                title="Never show this topic"
+                              >
+                                Mute
+                              </button>
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
                   </div>
-                </div>
+                )}
+
+                {addTopicForm}
+
+                {/* Muted Topics */}
+                {!!explicit?.muted.length && (
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-3">Muted Topics</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {explicit.muted.map(topic => (
+                        <button
+                          key={topic}
+                          onClick={() => editTopics(unmuteTopic, topic)}
+                          className="inline-block bg-gray-100 text-gray-600 hover:bg-gray-200 px-3 py-1 rounded-full text-sm transition-colors"
+                          title="Unmute"
+                        >
+                          {getTagLabel(topic)} ×
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
 
                 {/* Personalization Info */}
                 <div className="bg-blue-50 p-4 rounded-lg">
@@ -99,6 +217,7 @@ export default function InterestManager({ onClose }: InterestManagerProps) {
                     <li>• We track which topics you read about</li>
                     <li>• Your homepage shows content you're interested in</li>
                     <li>• Recommendations get better over time</li>
+                    <li>• Topics you follow or pin always count; muted ones never show up</li>
                     <li>• All data stays in your browser</li>
                   </ul>
                 </div>
@@ -126,6 +245,7 @@ export default function InterestManager({ onClose }: InterestManagerProps) {
                 <p className="text-gray-600 text-sm">
                   Start reading articles to build your personalized experience. We'll track your interests based on the topics you explore.
                 </p>
+                <div className="text-left">{addTopicForm}</div>
                 <button
                   onClick={onClose}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline transition-colors"
@@ -0,0 +1,122 @@
+"use client";
+
+export type PaginationMode = "pages" | "load-more";
+
+interface PaginationProps {
+  mode: PaginationMode;
+  currentPage: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  onLoadMore?: () => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+/**
+ * Build the list of page numbers to show, collapsing long ranges into ellipses
+ */
+function getPageNumbers(currentPage: number, totalPages: number): (number | "ellipsis")[] {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+
+  const pages: (number | "ellipsis")[] = [1];
+  const start = Math.max(2, currentPage - 1);
+  const end = Math.min(totalPages - 1, currentPage + 1);
+
+  if (start > 2) pages.push("ellipsis");
+  for (let page = start; page <= end; page++) {
+    pages.push(page);
+  }
+  if (end < totalPages - 1) pages.push("ellipsis");
+
+  pages.push(totalPages);
+  return pages;
+}
+
+export default function Pagination({
+  mode,
+  currentPage,
+  totalPages,
+  onPageChange,
+  onLoadMore,
+  isLoading = false,
+  className = "",
+}: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  if (mode === "load-more") {
+    if (currentPage >= totalPages) {
+      return null;
+    }
+
+    return (
+      <div className={`text-center ${className}`}>
+        <button
+          type="button"
+          onClick={onLoadMore}
+          disabled={isLoading}
+          className="inline-flex items-center gap-2 px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800
+                   disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              <span>Loading...</span>
+            </>
+          ) : (
+            <span>Load more stories</span>
+          )}
+        </button>
+        <p className="text-sm text-gray-500 mt-3">
+          Page {currentPage} of {totalPages}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <nav aria-label="Pagination" className={`flex items-center justify-center gap-2 ${className}`}>
+      <button
+        type="button"
+        onClick={() => onPageChange(currentPage - 1)}
+        disabled={currentPage <= 1 || isLoading}
+        className="px-4 py-2 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      >
+        ← Previous
+      </button>
+
+      {getPageNumbers(currentPage, totalPages).map((page, index) =>
+        page === "ellipsis" ? (
+          <span key={`ellipsis-${index}`} className="px-2 text-gray-400">…</span>
+        ) : (
+          <button
+            key={page}
+            type="button"
+            onClick={() => onPageChange(page)}
+            disabled={isLoading}
+            aria-current={page === currentPage ? "page" : undefined}
+            className={`w-10 h-10 rounded-full text-sm font-medium transition-colors ${
+              page === currentPage
+                ? "bg-black text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            {page}
+          </button>
+        )
+      )}
+
+      <button
+        type="button"
+        onClick={() => onPageChange(currentPage + 1)}
+        disabled={currentPage >= totalPages || isLoading}
+        className="px-4 py-2 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      >
+        Next →
+      </button>
+    </nav>
+  );
+}
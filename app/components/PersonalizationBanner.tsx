@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { getSubscribeErrorMessage } from "@/lib/subscribe-errors";
 
 interface PersonalizationBannerProps {
   onEmailSubmit: (email: string) => void;
@@ -9,9 +10,14 @@ interface PersonalizationBannerProps {
 
 export default function PersonalizationBanner({ onEmailSubmit, onDismiss }: PersonalizationBannerProps) {
   const [email, setEmail] = useState("");
+  // Honeypot: hidden from people, filled in by form-spamming bots
+  const [website, setWebsite] = useState("");
   const [isConsentChecked, setIsConsentChecked] = useState(false);
   const [emailError, setEmailError] = useState("");
   const [isVisible, setIsVisible] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Email the newsletter confirmation was sent to (double opt-in)
+  const [pendingConfirmationEmail, setPendingConfirmationEmail] = useState<string | null>(null);
 
   useEffect(() => {
     console.log("🎯 PersonalizationBanner: Component mounted");
@@ -49,7 +55,7 @@ export default function PersonalizationBanner({ onEmailSubmit, onDismiss }: Pers
     return emailRegex.test(email);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     console.log("🎯 PersonalizationBanner: Form submitted", { email, isConsentChecked });
     setEmailError("");
@@ -72,16 +78,46 @@ export default function PersonalizationBanner({ onEmailSubmit, onDismiss }: Pers
       return;
     }
 
-    console.log("🎯 PersonalizationBanner: Storing personalization data", email);
-    
-    // Store email and consent
-    localStorage.setItem('personalization_email', email);
-    localStorage.setItem('personalization_consent', 'true');
-    localStorage.setItem('personalization_timestamp', new Date().toISOString());
-    
-    console.log("🎯 PersonalizationBanner: Data stored, calling onEmailSubmit");
-    onEmailSubmit(email);
-    setIsVisible(false);
+    setIsSubmitting(true);
+
+    try {
+      // Newsletter signup is double opt-in: this only creates a pending subscription
+      const response = await fetch('/api/newsletter/subscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: email.trim(), source: 'personalization_banner', website }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        console.log("🎯 PersonalizationBanner: Subscribe request failed", data);
+        setEmailError(getSubscribeErrorMessage(data));
+        return;
+      }
+
+      console.log("🎯 PersonalizationBanner: Storing personalization data", email);
+
+      // Store email and consent
+      localStorage.setItem('personalization_email', email);
+      localStorage.setItem('personalization_consent', 'true');
+      localStorage.setItem('personalization_timestamp', new Date().toISOString());
+
+      console.log("🎯 PersonalizationBanner: Data stored, calling onEmailSubmit");
+      onEmailSubmit(email);
+
+      if (data.status === 'pending') {
+        setPendingConfirmationEmail(email.trim());
+      } else {
+        setIsVisible(false);
+      }
+    } catch (error) {
+      console.error("🎯 PersonalizationBanner: Subscribe request error", error);
+      setEmailError("Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleDismiss = () => {
@@ -142,97 +178,127 @@ export default function PersonalizationBanner({ onEmailSubmit, onDismiss }: Pers
             </div>
           </div>
 
-          {/* Form */}
-          <form onSubmit={handleSubmit} className="p-6">
-            <div className="space-y-4">
-              {/* Email Input */}
-              <div>
-                <label htmlFor="personalization-email" className="block text-sm font-medium text-gray-700 mb-2">
-                  Your Email Address
-                </label>
-                <input
-                  id="personalization-email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="you@example.com"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                />
-              </div>
-
-              {/* Consent Checkbox */}
-              <div className="flex items-start space-x-3">
+          {pendingConfirmationEmail ? (
+            <div className="p-6 text-center" role="status">
+              <h4 className="text-lg font-semibold text-gray-900 mb-2">Check your inbox</h4>
+              <p className="text-sm text-gray-600 mb-6">
+                Personalization is on. To receive our newsletter, follow the confirmation link we
+                sent to <span className="font-medium text-gray-900">{pendingConfirmationEmail}</span>.
+                It expires in 48 hours.
+              </p>
+              <button
+                type="button"
+                onClick={() => setIsVisible(false)}
+                className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+              >
+                Got it
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="p-6">
+              <div className="absolute -left-[9999px]" aria-hidden="true">
+                <label htmlFor="personalization-website">Website</label>
                 <input
-                  id="personalization-consent"
-                  type="checkbox"
-                  checked={isConsentChecked}
-                  onChange={(e) => setIsConsentChecked(e.target.checked)}
-                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  id="personalization-website"
+                  type="text"
+                  name="website"
+                  value={website}
+                  onChange={(e) => setWebsite(e.target.value)}
+                  tabIndex={-1}
+                  autoComplete="off"
                 />
-                <label htmlFor="personalization-consent" className="text-sm text-gray-600 leading-relaxed">
-                  Yes, personalize my content experience based on my reading preferences. 
-                  You can change this anytime in settings.
-                </label>
               </div>
+              <div className="space-y-4">
+                {/* Email Input */}
+                <div>
+                  <label htmlFor="personalization-email" className="block text-sm font-medium text-gray-700 mb-2">
+                    Your Email Address
+                  </label>
+                  <input
+                    id="personalization-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </div>
 
-              {/* Error Message */}
-              {emailError && (
-                <div className="text-red-600 text-sm flex items-center space-x-2">
-                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                  </svg>
-                  <span>{emailError}</span>
+                {/* Consent Checkbox */}
+                <div className="flex items-start space-x-3">
+                  <input
+                    id="personalization-consent"
+                    type="checkbox"
+                    checked={isConsentChecked}
+                    onChange={(e) => setIsConsentChecked(e.target.checked)}
+                    className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="personalization-consent" className="text-sm text-gray-600 leading-relaxed">
+                    Yes, personalize my content experience based on my reading preferences. 
+                    You can change this anytime in settings.
+                  </label>
                 </div>
-              )}
-
-              {/* Benefits List */}
-              <div className="bg-gray-50 rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-900 mb-2">What you'll get:</h4>
-                <ul className="text-sm text-gray-600 space-y-1">
-                  <li className="flex items-center space-x-2">
-                    <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span>Articles tailored to your interests</span>
-                  </li>
-                  <li className="flex items-center space-x-2">
-                    <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span>Smart recommendations</span>
-                  </li>
-                  <li className="flex items-center space-x-2">
-                    <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+
+                {/* Error Message */}
+                {emailError && (
+                  <div className="text-red-600 text-sm flex items-center space-x-2">
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
                     </svg>
-                    <span>Curated newsletter content</span>
-                  </li>
-                </ul>
+                    <span>{emailError}</span>
+                  </div>
+                )}
+
+                {/* Benefits List */}
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">What you'll get:</h4>
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    <li className="flex items-center space-x-2">
+                      <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                      </svg>
+                      <span>Articles tailored to your interests</span>
+                    </li>
+                    <li className="flex items-center space-x-2">
+                      <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                      </svg>
+                      <span>Smart recommendations</span>
+                    </li>
+                    <li className="flex items-center space-x-2">
+                      <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                      </svg>
+                      <span>Curated newsletter content</span>
+                    </li>
+                  </ul>
+                </div>
               </div>
-            </div>
 
-            {/* Action Buttons */}
-            <div className="flex space-x-3 mt-6">
-              <button
-                type="submit"
-                className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
-              >
-                Start Personalizing
-              </button>
-              <button
-                type="button"
-                onClick={handleMaybeLater}
-                className="px-4 py-3 text-gray-600 hover:text-gray-800 font-medium transition-colors"
-              >
-                Maybe Later
-              </button>
-            </div>
+              {/* Action Buttons */}
+              <div className="flex space-x-3 mt-6">
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? 'Signing you up...' : 'Start Personalizing'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleMaybeLater}
+                  className="px-4 py-3 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+                >
+                  Maybe Later
+                </button>
+              </div>
 
-            {/* Privacy Note */}
-            <p className="text-xs text-gray-500 text-center mt-4">
-              We respect your privacy. Your email is used only for personalization and our newsletter.
-            </p>
-          </form>
+              {/* Privacy Note */}
+              <p className="text-xs text-gray-500 text-center mt-4">
+                We respect your privacy. Your email is used only for personalization and our newsletter.
+              </p>
+            </form>
+          )}
         </div>
       </div>
     </>
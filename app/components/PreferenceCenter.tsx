@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DELIVERY_FREQUENCIES,
+  DeliveryFrequency,
+  SubscriberPreferences,
+} from "@/lib/subscriber-preferences";
+import type { SubscriberStatus } from "@/lib/subscriber-store";
+import { syncInterestProfile } from "@/lib/user-interests";
+
+interface PreferenceOption {
+  value: string;
+  label: string;
+}
+
+interface PreferenceCenterProps {
+  token: string;
+  status: SubscriberStatus;
+  initialPreferences: SubscriberPreferences;
+  topics: PreferenceOption[];
+  authors: PreferenceOption[];
+  suggestedTopics: string[];           // Topic values the reader reads most, best first
+}
+
+/**
+ * Toggle a value in a list
+ */
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function OptionChip({ option, selected, onToggle }: { option: PreferenceOption; selected: boolean; onToggle: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={selected}
+      className={`inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+        selected
+          ? "bg-blue-600 text-white hover:bg-blue-700"
+          : "bg-white text-gray-700 border border-gray-300 hover:border-gray-400"
+      }`}
+    >
+      {option.label}
+    </button>
+  );
+}
+
+/**
+ * Editable newsletter preferences for the /preferences page
+ */
+export default function PreferenceCenter({
+  token,
+  status,
+  initialPreferences,
+  topics,
+  authors,
+  suggestedTopics,
+}: PreferenceCenterProps) {
+  const [preferences, setPreferences] = useState<SubscriberPreferences>(initialPreferences);
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [errorMessage, setErrorMessage] = useState("");
+
+  // The signed link proves this reader's email: share their reading interests with
+  // their other devices from now on
+  useEffect(() => {
+    syncInterestProfile({ token });
+  }, [token]);
+
+  const unselectedSuggestions = suggestedTopics.filter(topic => !preferences.topics.includes(topic));
+  const getTopicLabel = (value: string) => topics.find(option => option.value === value)?.label || value;
+
+  const updatePreferences = (changes: Partial<SubscriberPreferences>) => {
+    setPreferences(current => ({ ...current, ...changes }));
+    setSaveState("idle");
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaveState("saving");
+    setErrorMessage("");
+
+    try {
+      const response = await fetch("/api/newsletter/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, preferences }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreferences(data.preferences);
+        setSaveState("saved");
+      } else {
+        setSaveState("error");
+        setErrorMessage(data.error || "Failed to save preferences. Please try again.");
+      }
+    } catch (error) {
+      console.error("Preferences save error:", error);
+      setSaveState("error");
+      setErrorMessage("Something went wrong. Please try again.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-8">
+      {status !== "active" && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-lg px-4 py-3">
+          {status === "pending"
+            ? "Your subscription isn't confirmed yet. Follow the link in your confirmation email to start receiving stories."
+            : status === "suppressed"
+              ? "We've stopped emailing this address because our messages bounced or were reported as spam."
+              : "You're unsubscribed. Your preferences are saved for if you sign up again."}
+        </div>
+      )}
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Topics</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Only email me about stories with these tags. Leave everything unselected to hear about all topics.
+        </p>
+        {unselectedSuggestions.length > 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            You read most about {unselectedSuggestions.map(getTopicLabel).join(", ")}.{" "}
+            <button
+              type="button"
+              onClick={() => updatePreferences({ topics: [...preferences.topics, ...unselectedSuggestions] })}
+              className="font-medium text-blue-600 hover:text-blue-700 underline"
+            >
+              Add {unselectedSuggestions.length === 1 ? "it" : "them"}
+            </button>
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {topics.map(option => (
+            <OptionChip
+              key={option.value}
+              option={option}
+              selected={preferences.topics.includes(option.value)}
+              onToggle={() => updatePreferences({ topics: toggleValue(preferences.topics, option.value) })}
+            />
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Authors</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Also email me about every story from these authors.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {authors.map(option => (
+            <OptionChip
+              key={option.value}
+              option={option}
+              selected={preferences.authors.includes(option.value)}
+              onToggle={() => updatePreferences({ authors: toggleValue(preferences.authors, option.value) })}
+            />
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Frequency</h2>
+        <div className="space-y-3">
+          {(Object.keys(DELIVERY_FREQUENCIES) as DeliveryFrequency[]).map(frequency => (
+            <label key={frequency} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="frequency"
+                value={frequency}
+                checked={preferences.frequency === frequency}
+                onChange={() => updatePreferences({ frequency })}
+                className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{DELIVERY_FREQUENCIES[frequency].label}</span>
+                <span className="block text-sm text-gray-600">{DELIVERY_FREQUENCIES[frequency].description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences.paused}
+            onChange={(e) => updatePreferences({ paused: e.target.checked })}
+            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Pause all emails</span>
+            <span className="block text-sm text-gray-600">
+              Stay subscribed but stop receiving emails until you turn this off.
+            </span>
+          </span>
+        </label>
+      </section>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="submit"
+          disabled={saveState === "saving"}
+          className="px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saveState === "saving" ? "Saving..." : "Save preferences"}
+        </button>
+        {saveState === "saved" && (
+          <span className="text-green-700 text-sm" role="status">Preferences saved</span>
+        )}
+        {saveState === "error" && (
+          <span className="text-red-600 text-sm" role="alert">{errorMessage}</span>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { SearchSuggestion, SearchSuggestionResponse } from "@/lib/types";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
@@ -10,6 +12,58 @@ interface SearchBarProps {
   defaultValue?: string;
 }
 
+// Recent searches are remembered per browser
+const RECENT_SEARCHES_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 5;
+
+// Wait this long after the last keystroke before asking for suggestions
+const SUGGESTION_DEBOUNCE_MS = 200;
+const MIN_SUGGESTION_LENGTH = 2;
+
+type DropdownItem =
+  | { kind: 'recent'; label: string }
+  | { kind: 'suggestion'; label: string; suggestion: SearchSuggestion };
+
+const SUGGESTION_ICONS: Record<SearchSuggestion['type'], string> = {
+  post: '📄',
+  tag: '#',
+  author: '👤',
+};
+
+/**
+ * Read recent searches from localStorage
+ */
+function getRecentSearches(): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(RECENT_SEARCHES_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch (error) {
+    console.error('Error loading recent searches:', error);
+    return [];
+  }
+}
+
+/**
+ * Move a search to the front of the recent list and persist it
+ */
+function saveRecentSearch(query: string): string[] {
+  const recent = [
+    query,
+    ...getRecentSearches().filter(item => item.toLowerCase() !== query.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+  } catch (error) {
+    console.error('Error saving recent searches:', error);
+  }
+
+  return recent;
+}
+
 export default function SearchBar({ 
   onSearch, 
   placeholder = "Search stories...", 
@@ -17,36 +71,153 @@ export default function SearchBar({
   isLoading = false,
   defaultValue = ""
 }: SearchBarProps) {
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState(defaultValue);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listboxId = "search-suggestions";
 
   // Update search query when defaultValue changes
   useEffect(() => {
     setSearchQuery(defaultValue);
   }, [defaultValue]);
 
+  useEffect(() => {
+    setRecentSearches(getRecentSearches());
+  }, []);
+
+  // Debounced suggestion requests; stale responses are aborted
+  useEffect(() => {
+    const trimmedQuery = searchQuery.trim();
+    if (trimmedQuery.length < MIN_SUGGESTION_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(trimmedQuery)}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Suggestions failed with status ${response.status}`);
+        }
+        const data: SearchSuggestionResponse = await response.json();
+        setSuggestions(data.suggestions);
+        setActiveIndex(-1);
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Error loading search suggestions:', error);
+          setSuggestions([]);
+        }
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Recent searches while the box is empty, live suggestions once the user types
+  const items: DropdownItem[] = searchQuery.trim()
+    ? suggestions.map(suggestion => ({ kind: 'suggestion', label: suggestion.label, suggestion }))
+    : recentSearches.map(label => ({ kind: 'recent', label }));
+  const showDropdown = isOpen && items.length > 0;
+
+  const runSearch = (query: string) => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery) {
+      setRecentSearches(saveRecentSearch(trimmedQuery));
+    }
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSearch(trimmedQuery);
+  };
+
+  const selectItem = (item: DropdownItem) => {
+    if (item.kind === 'suggestion' && item.suggestion.type === 'post') {
+      setIsOpen(false);
+      router.push(`/blog/${item.suggestion.value}`);
+      return;
+    }
+
+    setSearchQuery(item.label);
+    runSearch(item.label);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (items.length === 0 ? -1 : (index + 1) % items.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (items.length === 0 ? -1 : index <= 0 ? items.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        if (showDropdown && activeIndex >= 0 && items[activeIndex]) {
+          e.preventDefault();
+          selectItem(items[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
   };
 
   const handleClear = () => {
     setSearchQuery("");
+    setSuggestions([]);
     onSearch("");
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSearch(searchQuery.trim());
+  const handleClearRecent = () => {
+    try {
+      localStorage.removeItem(RECENT_SEARCHES_KEY);
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+    }
+    setRecentSearches([]);
   };
 
-  const handleSearchClick = () => {
-    onSearch(searchQuery.trim());
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch(searchQuery);
   };
 
   return (
     <form onSubmit={handleSubmit} className={`relative ${className}`}>
       <div className="flex items-center gap-3">
         {/* Search Input Container */}
-        <div className="relative flex-1">
+        <div ref={containerRef} className="relative flex-1">
           {/* Search Icon */}
           <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
             <svg
@@ -69,7 +240,15 @@ export default function SearchBar({
             type="text"
             value={searchQuery}
             onChange={handleInputChange}
+            onFocus={() => setIsOpen(true)}
+            onKeyDown={handleKeyDown}
             placeholder={placeholder}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={showDropdown}
+            aria-controls={listboxId}
+            aria-activedescendant={showDropdown && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+            autoComplete="off"
             className="w-full pl-12 pr-12 py-3 border border-gray-200 rounded-full 
                      bg-gray-50 focus:bg-white focus:border-gray-400 focus:outline-none
                      transition-all duration-200 text-gray-900 placeholder-gray-500"
@@ -97,12 +276,57 @@ export default function SearchBar({
               </svg>
             </button>
           )}
+
+          {/* Suggestions Dropdown */}
+          {showDropdown && (
+            <div className="absolute left-0 right-0 top-full mt-2 z-20 bg-white border border-gray-200 rounded-2xl shadow-lg overflow-hidden">
+              {!searchQuery.trim() && (
+                <div className="flex items-center justify-between px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                  <span>Recent searches</span>
+                  <button
+                    type="button"
+                    onClick={handleClearRecent}
+                    className="normal-case font-medium tracking-normal hover:text-gray-600 transition-colors"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+              <ul id={listboxId} role="listbox" className="py-1">
+                {items.map((item, index) => (
+                  <li
+                    key={`${item.kind}-${item.kind === 'suggestion' ? `${item.suggestion.type}-${item.suggestion.value}` : item.label}`}
+                    id={`${listboxId}-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    // Keep focus in the input so the click registers before blur
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => selectItem(item)}
+                    className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-sm ${
+                      index === activeIndex ? "bg-gray-100" : "hover:bg-gray-50"
+                    }`}
+                  >
+                    <span className="w-5 text-center text-gray-400">
+                      {item.kind === 'recent' ? '🕘' : SUGGESTION_ICONS[item.suggestion.type]}
+                    </span>
+                    <span className="flex-1 truncate text-gray-900">{item.label}</span>
+                    {item.kind === 'suggestion' && (
+                      <span className="text-xs text-gray-400 capitalize">
+                        {item.suggestion.type}
+                        {item.suggestion.count !== undefined && ` · ${item.suggestion.count}`}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Search Button */}
         <button
           type="submit"
-          onClick={handleSearchClick}
           disabled={isLoading}
           className="px-6 py-3 bg-black text-white rounded-full font-medium 
                    hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2
@@ -121,4 +345,4 @@ export default function SearchBar({
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
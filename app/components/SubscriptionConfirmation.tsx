@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { syncInterestProfile } from "@/lib/user-interests";
+
+interface SubscriptionConfirmationProps {
+  token: string;
+  email: string;
+}
+
+/**
+ * Confirm button for the /confirm page. Subscribing needs an explicit click so
+ * link scanners that prefetch email URLs can't confirm on the reader's behalf.
+ */
+export default function SubscriptionConfirmation({ token, email }: SubscriptionConfirmationProps) {
+  const [status, setStatus] = useState<"idle" | "submitting" | "done" | "error">("idle");
+  const [message, setMessage] = useState("");
+
+  const handleConfirm = async () => {
+    setStatus("submitting");
+
+    try {
+      const response = await fetch("/api/newsletter/confirm", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setStatus("done");
+        // The link proves this reader's email: share their reading interests across devices
+        syncInterestProfile({ token });
+      } else {
+        setStatus("error");
+        setMessage(data.error || "We couldn't confirm your subscription. Please try again.");
+      }
+    } catch (error) {
+      console.error("Confirmation error:", error);
+      setStatus("error");
+      setMessage("Something went wrong. Please try again.");
+    }
+  };
+
+  if (status === "done") {
+    return (
+      <div role="status">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">You're subscribed!</h1>
+        <p className="text-gray-600">
+          Thanks for confirming. New stories will be sent to {email}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-gray-900 mb-4">Confirm your subscription</h1>
+      <p className="text-gray-600 mb-8">
+        Start sending new story emails to <span className="font-medium text-gray-900">{email}</span>.
+      </p>
+      {status === "error" && (
+        <p className="text-red-600 text-sm mb-4" role="alert">{message}</p>
+      )}
+      <button
+        type="button"
+        onClick={handleConfirm}
+        disabled={status === "submitting"}
+        className="px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {status === "submitting" ? "Confirming..." : "Confirm subscription"}
+      </button>
+    </div>
+  );
+}
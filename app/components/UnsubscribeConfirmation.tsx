@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+
+interface UnsubscribeConfirmationProps {
+  token: string;
+  email: string;
+}
+
+/**
+ * Confirm button for the /unsubscribe page. Unsubscribing needs an explicit click so
+ * link scanners that prefetch email URLs can't unsubscribe anyone.
+ */
+export default function UnsubscribeConfirmation({ token, email }: UnsubscribeConfirmationProps) {
+  const [status, setStatus] = useState<"idle" | "submitting" | "done" | "error">("idle");
+  const [message, setMessage] = useState("");
+
+  const handleUnsubscribe = async () => {
+    setStatus("submitting");
+
+    try {
+      const response = await fetch("/api/newsletter/unsubscribe", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setStatus("done");
+      } else {
+        setStatus("error");
+        setMessage(data.error || data.message || "Failed to unsubscribe. Please try again.");
+      }
+    } catch (error) {
+      console.error("Unsubscribe error:", error);
+      setStatus("error");
+      setMessage("Something went wrong. Please try again.");
+    }
+  };
+
+  if (status === "done") {
+    return (
+      <div role="status">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">You're unsubscribed</h1>
+        <p className="text-gray-600">
+          {email} won't receive any more newsletter emails.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-gray-900 mb-4">Unsubscribe from the newsletter?</h1>
+      <p className="text-gray-600 mb-8">
+        We'll stop sending new story emails to <span className="font-medium text-gray-900">{email}</span>.
+      </p>
+      {status === "error" && (
+        <p className="text-red-600 text-sm mb-4" role="alert">{message}</p>
+      )}
+      <button
+        type="button"
+        onClick={handleUnsubscribe}
+        disabled={status === "submitting"}
+        className="px-6 py-3 text-white bg-red-600 rounded-full hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {status === "submitting" ? "Unsubscribing..." : "Unsubscribe"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { verifySignedToken } from "@/lib/signed-tokens";
+import SubscriptionConfirmation from "@/app/components/SubscriptionConfirmation";
+
+export const metadata: Metadata = {
+  title: "Confirm Subscription - Insight Hub",
+  robots: { index: false, follow: false },
+};
+
+interface ConfirmPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Confirm Page - Checks the signed link from the confirmation email and asks the
+ * reader to confirm; the subscription is only activated by that click
+ */
+export default async function ConfirmPage({ searchParams }: ConfirmPageProps) {
+  const { token } = await searchParams;
+  const verification = token ? verifySignedToken(token, "confirm") : null;
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center">
+      <div className="text-center max-w-md mx-auto px-6">
+        {token && verification?.valid ? (
+          <SubscriptionConfirmation token={token} email={verification.payload.email} />
+        ) : verification && !verification.valid && verification.reason === "expired" ? (
+          <>
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">
+              Confirmation link expired
+            </h1>
+            <p className="text-gray-600 mb-8">
+              Sign up again from the bottom of the home page to get a new one.
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">
+              Invalid confirmation link
+            </h1>
+            <p className="text-gray-600 mb-8">
+              This link is incomplete or has been altered. Sign up again from the bottom of
+              the home page to get a new one.
+            </p>
+          </>
+        )}
+        <Link
+          href="/"
+          className="inline-flex items-center px-6 py-3 mt-8 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+        >
+          ← Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { getBlogFacets } from "@/lib/contentstack";
+import { createEmptyFilters } from "@/lib/blog-facets";
+import { getRequestTopInterests } from "@/lib/interest-profile-store";
+import { withContentTags } from "@/lib/revalidation";
+import { verifySignedToken } from "@/lib/signed-tokens";
+import { getSubscriberStore } from "@/lib/subscriber-store";
+import PreferenceCenter from "@/app/components/PreferenceCenter";
+
+export const metadata: Metadata = {
+  title: "Email Preferences - Insight Hub",
+  robots: { index: false, follow: false },
+};
+
+interface PreferencesPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Preference Center - lets a subscriber (via the signed link in their emails) choose
+ * topics, authors and frequency, or pause delivery. Topics the reader reads most
+ * (from their server interest profile) are suggested.
+ */
+export default async function PreferencesPage({ searchParams }: PreferencesPageProps) {
+  const { token } = await searchParams;
+  const verification = token ? verifySignedToken(token, "preferences") : null;
+
+  const subscriber = verification?.valid
+    ? await getSubscriberStore().findById(verification.payload.sub)
+    : null;
+
+  // The record must still belong to the address the link was sent to
+  if (!token || !subscriber || !verification?.valid || subscriber.email !== verification.payload.email) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto px-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">
+            Invalid preferences link
+          </h1>
+          <p className="text-gray-600 mb-8">
+            This link is incomplete or no longer matches a subscription. Use the "Manage
+            preferences" link at the bottom of any newsletter email we've sent you.
+          </p>
+          <Link
+            href="/"
+            className="inline-flex items-center px-6 py-3 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+          >
+            ← Back to home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const [facets, topInterests] = await Promise.all([
+    withContentTags(["blog", "author"], ["blog-facets"], () => getBlogFacets(createEmptyFilters())),
+    getRequestTopInterests(5),
+  ]);
+  const suggestedTopics = topInterests.filter(tag => facets.tags.some(({ value }) => value === tag));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-16">
+      <div className="max-w-2xl mx-auto px-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Email preferences</h1>
+        <p className="text-gray-600 mb-8">
+          Choose what we send to <span className="font-medium text-gray-900">{subscriber.email}</span>.
+        </p>
+        <PreferenceCenter
+          token={token}
+          status={subscriber.status}
+          initialPreferences={subscriber.preferences}
+          topics={facets.tags.map(({ value, label }) => ({ value, label }))}
+          authors={facets.authors.map(({ value, label }) => ({ value, label }))}
+          suggestedTopics={suggestedTopics}
+        />
+      </div>
+    </div>
+  );
+}
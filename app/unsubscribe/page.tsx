@@ -0,0 +1,61 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { createSignedToken, verifySignedToken } from "@/lib/signed-tokens";
+import UnsubscribeConfirmation from "@/app/components/UnsubscribeConfirmation";
+
+export const metadata: Metadata = {
+  title: "Unsubscribe - Insight Hub",
+  robots: { index: false, follow: false },
+};
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Unsubscribe Page - Confirms the signed link from a newsletter email before unsubscribing
+ */
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token } = await searchParams;
+  const verification = token ? verifySignedToken(token, "unsubscribe") : null;
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center">
+      <div className="text-center max-w-md mx-auto px-6">
+        {token && verification?.valid ? (
+          <>
+            <UnsubscribeConfirmation token={token} email={verification.payload.email} />
+            <p className="text-sm text-gray-500 mt-8">
+              Just getting too many emails?{" "}
+              <Link
+                href={`/preferences?token=${encodeURIComponent(createSignedToken(
+                  { id: verification.payload.sub, email: verification.payload.email },
+                  "preferences"
+                ))}`}
+                className="underline hover:text-gray-700"
+              >
+                Choose topics or pause delivery instead
+              </Link>
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">
+              Invalid unsubscribe link
+            </h1>
+            <p className="text-gray-600 mb-8">
+              This link is incomplete or has been altered. Use the unsubscribe link at the bottom
+              of any newsletter email we've sent you.
+            </p>
+          </>
+        )}
+        <Link
+          href="/"
+          className="inline-flex items-center px-6 py-3 mt-8 text-white bg-black rounded-full hover:bg-gray-800 transition-colors"
+        >
+          ← Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
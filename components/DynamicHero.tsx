@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { getUserTopInterests } from '@/lib/user-interests';
+import { getTagCategory } from '@/lib/tag-taxonomy';
 
 interface HeroVariant {
   title: string;
@@ -59,7 +60,7 @@ const HERO_VARIANTS: { [key: string]: HeroVariant } = {
     emoji: "🎨"
   },
   
-  nodejs: {
+  node: {
     title: "Node.js Server Excellence",
     subtitle: "Express • Performance • Security • Deployment",
     background: "linear-gradient(135deg, #8cc84b 20%, #5d7f37 80%)",
@@ -79,7 +80,7 @@ const HERO_VARIANTS: { [key: string]: HeroVariant } = {
 };
 
 interface DynamicHeroProps {
-  onSearch: (query: string) => void;
+  onSearch?: (query: string) => void; // Defaults to searching on the blog page
   className?: string;
 }
 
@@ -95,12 +96,12 @@ export default function DynamicHero({ onSearch, className = "" }: DynamicHeroPro
         const topInterests = getUserTopInterests();
         
         if (topInterests.length > 0) {
-          const primary = topInterests[0].toLowerCase();
+          const primary = topInterests[0];
           setPrimaryInterest(primary);
           
-          // Find matching hero variant
+          // Find matching hero variant, falling back to the interest's category
           const variant = HERO_VARIANTS[primary] || 
-                         HERO_VARIANTS[primary.replace(/[^a-z]/g, '')] || 
+                         HERO_VARIANTS[getTagCategory(primary) || ''] || 
                          HERO_VARIANTS.default;
           
           setHeroVariant(variant);
@@ -123,14 +124,18 @@ export default function DynamicHero({ onSearch, className = "" }: DynamicHeroPro
     const formData = new FormData(e.currentTarget);
     const query = formData.get('search') as string;
     if (query?.trim()) {
-      onSearch(query.trim());
+      if (onSearch) {
+        onSearch(query.trim());
+      } else {
+        router.push(`/blog?search=${encodeURIComponent(query.trim())}`);
+      }
     }
   };
 
   const handleMainCTA = () => {
     if (primaryInterest) {
       // Navigate to blog with interest filter
-      router.push(`/blog?search=${encodeURIComponent(primaryInterest)}`);
+      router.push(`/blog?tag=${encodeURIComponent(primaryInterest)}`);
     } else {
       // Navigate to all blog posts
       router.push('/blog');
@@ -0,0 +1,53 @@
+"use client";
+
+import { debugBlogTags, suggestPersonalizationTags } from '@/lib/debug-interests';
+import { useHomePersonalization } from './HomePersonalizationProvider';
+
+/**
+ * Personalization controls in the homepage navigation: interest manager,
+ * active experience indicator and the development tag debugger
+ */
+export default function HomeNavControls() {
+  const { hasInterests, userExperiences, openInterestManager } = useHomePersonalization();
+
+  return (
+    <>
+      {hasInterests && (
+        <button
+          onClick={openInterestManager}
+          className="text-sm text-gray-600 hover:text-blue-600 transition-colors flex items-center space-x-1"
+          title="Manage your reading interests"
+        >
+          <span>🎯</span>
+          <span className="hidden sm:inline">Interests</span>
+        </button>
+      )}
+      {/* Show active experiences indicator */}
+      {userExperiences.length > 0 && (
+        <div className="text-sm text-purple-600 flex items-center space-x-1" title="Active personalization experiences">
+          <span>🧪</span>
+          <span className="hidden sm:inline">{userExperiences.length} Active</span>
+        </div>
+      )}
+      {/* Debug button for development */}
+      {process.env.NODE_ENV === 'development' && (
+        <button
+          onClick={async () => {
+            console.log('🔍 DEBUG: Analyzing blog tags...');
+            console.log('=' .repeat(50));
+            await debugBlogTags();
+            console.log('\n');
+            suggestPersonalizationTags();
+            console.log('=' .repeat(50));
+            console.log('🔍 DEBUG: Analysis complete! Check console above for detailed results.');
+          }}
+          className="text-sm text-gray-500 hover:text-orange-600 transition-colors flex items-center space-x-1"
+          title="Analyze blog tags for personalization"
+        >
+          <span>🔍</span>
+          <span className="hidden sm:inline">Debug Tags</span>
+        </button>
+      )}
+    </>
+  );
+}
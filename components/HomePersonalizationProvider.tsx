@@ -0,0 +1,388 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import ContentstackLivePreview from '@contentstack/live-preview-utils';
+import { initLivePreview, initPersonalization } from '@/lib/contentstack';
+import { getPersonalizationAPI } from '@/lib/personalization-api';
+import { initLytics } from '@/lib/lytics-integration';
+import { initPathfora } from '@/lib/pathfora-integration';
+import { initPathforaFallback } from '@/lib/pathfora-fallback';
+import { initHybridPersonalization } from '@/lib/hybrid-personalization';
+import { logSystemStatus } from '@/lib/system-status';
+import { Blog } from '@/lib/types';
+import PersonalizationBanner from '@/app/components/PersonalizationBanner';
+import InterestManager from '@/app/components/InterestManager';
+import {
+  setPersonalizationEmail,
+  dismissPersonalizationBanner,
+  shouldShowPersonalizationBanner
+} from '@/lib/personalization';
+import {
+  personalizeContentByInterests,
+  hasUserInterests,
+  getUserTopInterests,
+  getInterestStats,
+  getInterestBasedRecommendations,
+  syncInterestProfile
+} from '@/lib/user-interests';
+import {
+  getPersonalizedHomepageConfig,
+  trackExperienceImpression,
+  debugUserExperiences,
+  getUserExperiences,
+  UserExperience
+} from '@/lib/experience-manager';
+import { canonicalizeTag } from '@/lib/tag-taxonomy';
+
+// Tags the segmented homepage experience favours
+const EXPERIENCE_TAGS = ['javascript', 'react', 'typescript', 'node', 'frontend', 'backend', 'api', 'tutorial'];
+
+interface HomePersonalizationContextValue {
+  featuredBlogs: Blog[];
+  recentBlogs: Blog[];
+  recommendedBlogs: Blog[];
+  userExperiences: UserExperience[];
+  hasInterests: boolean;
+  openInterestManager: () => void;
+}
+
+const HomePersonalizationContext = createContext<HomePersonalizationContextValue | null>(null);
+
+/**
+ * Read the homepage personalization state from inside a client island
+ */
+export function useHomePersonalization(): HomePersonalizationContextValue {
+  const context = useContext(HomePersonalizationContext);
+  if (!context) {
+    throw new Error('useHomePersonalization must be used within HomePersonalizationProvider');
+  }
+  return context;
+}
+
+interface HomePersonalizationProviderProps {
+  blogs: Blog[];
+  children: React.ReactNode;
+}
+
+const hasExperienceTag = (blog: Blog) =>
+  blog.categories_tags?.some(tag => EXPERIENCE_TAGS.includes(canonicalizeTag(tag)));
+
+/**
+ * Client boundary for the homepage. The page content is server-rendered in the
+ * default order; this initializes the personalization systems in the browser and
+ * re-orders the featured and recent posts once the reader's interests are known.
+ */
+export default function HomePersonalizationProvider({ blogs, children }: HomePersonalizationProviderProps) {
+  const router = useRouter();
+  const [featuredBlogs, setFeaturedBlogs] = useState<Blog[]>(blogs.slice(0, 3));
+  const [recentBlogs, setRecentBlogs] = useState<Blog[]>(blogs.slice(3, 9));
+  const [recommendedBlogs, setRecommendedBlogs] = useState<Blog[]>([]);
+  const [hasInterests, setHasInterests] = useState(false);
+  // Bumped when interests change outside the page: a profile sync from other
+  // devices, or topics followed or muted in the InterestManager
+  const [interestsUpdatedAt, setInterestsUpdatedAt] = useState<number | null>(null);
+
+  // Personalization state
+  const [showPersonalizationBanner, setShowPersonalizationBanner] = useState(false);
+  const [showInterestManager, setShowInterestManager] = useState(false);
+
+  // Experience state
+  const [homepageConfig, setHomepageConfig] = useState<any>(null);
+  const [userExperiences, setUserExperiences] = useState<UserExperience[]>([]);
+
+  // Personalization handlers
+  const handlePersonalizationEmailSubmit = async (personalizationEmail: string) => {
+    console.log('🏠 Homepage: handlePersonalizationEmailSubmit called with:', personalizationEmail);
+
+    // Set local storage (existing functionality)
+    // The banner stays mounted to show its "check your inbox" step and closes itself
+    setPersonalizationEmail(personalizationEmail);
+
+    console.log('🏠 Homepage: Personalization enabled for:', personalizationEmail);
+
+    // Track with Contentstack Personalization API
+    const personalizationAPI = getPersonalizationAPI();
+    if (personalizationAPI) {
+      console.log('🏠 Homepage: Tracking personalization signup with API');
+      try {
+        await personalizationAPI.trackNewsletterSignup(personalizationEmail);
+        console.log('🏠 Homepage: Successfully tracked personalization signup');
+      } catch (error) {
+        console.error('🏠 Homepage: Error tracking personalization signup:', error);
+      }
+    } else {
+      console.log('🏠 Homepage: Personalization API not available for tracking');
+    }
+
+    console.log('🏠 Homepage: Personalization active, newsletter confirmation pending');
+  };
+
+  const handlePersonalizationDismiss = () => {
+    console.log('🏠 Homepage: handlePersonalizationDismiss called');
+    dismissPersonalizationBanner();
+    setShowPersonalizationBanner(false);
+    console.log('🏠 Homepage: Banner dismissed permanently');
+  };
+
+  const handleInterestManagerClose = () => {
+    setShowInterestManager(false);
+    setHasInterests(hasUserInterests());
+    setInterestsUpdatedAt(Date.now());
+  };
+
+  // Load user experiences and homepage configuration
+  const loadUserExperiences = async () => {
+    try {
+      console.log("🏠 Homepage: Loading user experiences...");
+
+      // Get user's active experiences
+      const experiences = await getUserExperiences();
+      setUserExperiences(experiences);
+
+      // Get personalized homepage configuration
+      const config = await getPersonalizedHomepageConfig();
+      setHomepageConfig(config);
+
+      // Debug experiences in development
+      if (process.env.NODE_ENV === 'development') {
+        await debugUserExperiences();
+      }
+
+      // Track impressions for active experiences
+      experiences.forEach(exp => {
+        if (exp.variantShortUid && exp.experienceShortUid) {
+          trackExperienceImpression(exp.experienceShortUid, exp.variantShortUid);
+        }
+      });
+
+      console.log("🏠 Homepage: Experiences loaded:", experiences);
+      console.log("🏠 Homepage: Homepage config:", config);
+
+    } catch (error) {
+      console.error("🏠 Homepage: Error loading experiences:", error);
+    }
+  };
+
+  // Re-order the server-rendered posts for this reader
+  useEffect(() => {
+    // Log current user interest stats
+    const interestStats = getInterestStats();
+    console.log('🏠 Homepage: User interest stats:', interestStats);
+
+    const userHasInterests = hasUserInterests();
+    setHasInterests(userHasInterests);
+
+    // Check if user is in a segmented experience for enhanced personalization
+    const hasExperience = homepageConfig?.experienceVariant;
+
+    if (!userHasInterests && !hasExperience) {
+      console.log('🏠 Homepage: No user interests, using default content');
+
+      // Default content (no personalization)
+      setFeaturedBlogs(blogs.slice(0, 3));
+      setRecentBlogs(blogs.slice(3, 9));
+      setRecommendedBlogs([]); // No recommendations without interests
+      return;
+    }
+
+    console.log('🏠 Homepage: User has interests or active experience, personalizing content');
+
+    let personalizedFeatured: Blog[];
+    let personalizedRecent: Blog[];
+
+    if (hasExperience) {
+      // Enhanced personalization for users in segmented experience
+      console.log('🏠 Homepage: Applying experience-based content filtering');
+
+      // Prioritize JavaScript/tech content more heavily
+      const jsBlogs = blogs.filter(hasExperienceTag);
+
+      // Get personalized featured posts with JS bias
+      personalizedFeatured = jsBlogs.length >= 3
+        ? personalizeContentByInterests(jsBlogs, { maxResults: 3 })
+        : personalizeContentByInterests(blogs, { maxResults: 3 });
+
+      // Get personalized recent posts (excluding featured ones)
+      const excludeFeaturedUids = personalizedFeatured.map(blog => blog.uid);
+      const remainingBlogs = blogs.filter(blog => !excludeFeaturedUids.includes(blog.uid));
+      const remainingJsBlogs = remainingBlogs.filter(hasExperienceTag);
+
+      personalizedRecent = remainingJsBlogs.length >= 6
+        ? personalizeContentByInterests(remainingJsBlogs, { maxResults: 6 })
+        : personalizeContentByInterests(remainingBlogs, { maxResults: 6 });
+
+      console.log('🏠 Homepage: Applied JavaScript-focused filtering for experience');
+    } else {
+      // Standard interest-based personalization
+      personalizedFeatured = personalizeContentByInterests(blogs, {
+        requireMatch: false,
+        maxResults: 3
+      });
+
+      const excludeFeaturedUids = personalizedFeatured.map(blog => blog.uid);
+      const remainingBlogs = blogs.filter(blog => !excludeFeaturedUids.includes(blog.uid));
+      personalizedRecent = personalizeContentByInterests(remainingBlogs, {
+        requireMatch: false,
+        maxResults: 6
+      });
+    }
+
+    setFeaturedBlogs(personalizedFeatured);
+    setRecentBlogs(personalizedRecent);
+
+    // Get recommendations (excluding already shown content)
+    const excludeUids = [...personalizedFeatured.map(b => b.uid), ...personalizedRecent.map(b => b.uid)];
+    const recommendations = getInterestBasedRecommendations([], {
+      maxResults: 4,
+      excludeUids,
+      requireMatch: false
+    });
+    setRecommendedBlogs(recommendations);
+
+    console.log('🏠 Homepage: Personalized content set');
+    console.log('🏠 Homepage: Featured blogs:', personalizedFeatured.map(b => b.title));
+    console.log('🏠 Homepage: Recommended blogs count:', recommendations.length);
+    console.log('🏠 Homepage: User top interests:', getUserTopInterests(5));
+    if (hasExperience) {
+      console.log('🏠 Homepage: Experience variant active:', homepageConfig.experienceVariant);
+    }
+  }, [blogs, homepageConfig, interestsUpdatedAt]);
+
+  useEffect(() => {
+    initLivePreview();
+    // Entries are fetched on the server; refresh the route to pick up edits
+    ContentstackLivePreview.onEntryChange(() => router.refresh());
+
+    // Initialize hybrid personalization system
+    console.log("🏠 Homepage: Initializing hybrid personalization system");
+
+    // Log system status for debugging (after initialization)
+    setTimeout(() => {
+      logSystemStatus();
+    }, 3000);
+
+    // Initialize Contentstack Personalize
+    const personalizationAPI = initPersonalization();
+
+    // Initialize Lytics
+    const lyticsAPI = initLytics();
+
+    // Initialize Pathfora (depends on Lytics)
+    const pathforaAPI = initPathfora(lyticsAPI);
+    // const pathforaAPI = null; // Fallback disabled - using real Pathfora now
+
+    // Initialize hybrid manager
+    const hybridManager = initHybridPersonalization();
+
+    if (personalizationAPI) {
+      console.log("🏠 Homepage: Contentstack Personalization API initialized, fetching manifest");
+
+      // Fetch initial manifest to get/generate user UID
+      personalizationAPI.getManifest().then(manifest => {
+        console.log("🏠 Homepage: Initial manifest fetched:", manifest);
+        console.log("🏠 Homepage: User UID after manifest:", personalizationAPI.getUserUid());
+
+        // Now that we have a user UID, the API is ready for tracking
+        if (manifest.userUid) {
+          console.log("🏠 Homepage: Personalization fully initialized with user UID:", manifest.userUid);
+
+          // Load user experiences and homepage configuration
+          loadUserExperiences();
+
+          // Pull interests recorded on other devices, then re-personalize
+          syncInterestProfile().then(profile => {
+            if (profile) {
+              setInterestsUpdatedAt(Date.now());
+            }
+          });
+
+          // Sync user data after Contentstack is ready
+          setTimeout(async () => {
+            const syncResult = await hybridManager.syncUserData();
+            if (syncResult) {
+              console.log('🎯 Homepage: Initial sync completed, user data:', syncResult);
+
+              // Force an additional sync to Lytics with current interests
+              const { getLyticsInstance } = await import('@/lib/lytics-integration');
+              const lyticsAPI = getLyticsInstance();
+              if (lyticsAPI && syncResult.userInterests.length > 0) {
+                lyticsAPI.sendUserInterests(syncResult.userInterests, {
+                  contentstack_uid: syncResult.contentstackUID,
+                  engagement_score: syncResult.engagementScore,
+                  force_sync: true,
+                  sync_source: 'homepage_initialization'
+                });
+                console.log('🎯 Homepage: Force-synced interests to Lytics for segment creation');
+              }
+            }
+          }, 2000); // Give Lytics time to fully initialize
+        }
+      }).catch(error => {
+        console.error("🏠 Homepage: Error fetching initial manifest:", error);
+      });
+    } else {
+      console.log("🏠 Homepage: Contentstack Personalization API not available");
+    }
+
+    if (lyticsAPI) {
+      console.log("🏠 Homepage: Lytics API initialized");
+    } else {
+      console.log("🏠 Homepage: Lytics API not available");
+    }
+
+    if (pathforaAPI) {
+      console.log("🏠 Homepage: Pathfora API initialized");
+    } else {
+      console.log("🏠 Homepage: Pathfora API not available - using fallback widgets");
+      // Initialize fallback widgets as backup
+      initPathforaFallback();
+    }
+
+    // Check if personalization banner should be shown
+    const checkPersonalizationBanner = () => {
+      console.log("🏠 Homepage: Checking if personalization banner should show");
+      const shouldShow = shouldShowPersonalizationBanner();
+      console.log("🏠 Homepage: shouldShowPersonalizationBanner result:", shouldShow);
+
+      if (shouldShow) {
+        console.log("🏠 Homepage: Setting showPersonalizationBanner to true");
+        setShowPersonalizationBanner(true);
+      } else {
+        console.log("🏠 Homepage: Not showing personalization banner");
+      }
+    };
+
+    console.log("🏠 Homepage: Setting timeout for personalization banner check");
+    // Delay banner check to ensure localStorage is available
+    setTimeout(checkPersonalizationBanner, 1000);
+    // Runs once per page load
+  }, []);
+
+  return (
+    <HomePersonalizationContext.Provider
+      value={{
+        featuredBlogs,
+        recentBlogs,
+        recommendedBlogs,
+        userExperiences,
+        hasInterests,
+        openInterestManager: () => setShowInterestManager(true),
+      }}
+    >
+      {children}
+
+      {/* Personalization Banner */}
+      {showPersonalizationBanner && (
+        <PersonalizationBanner
+          onEmailSubmit={handlePersonalizationEmailSubmit}
+          onDismiss={handlePersonalizationDismiss}
+        />
+      )}
+
+      {showInterestManager && (
+        <InterestManager onClose={handleInterestManagerClose} />
+      )}
+    </HomePersonalizationContext.Provider>
+  );
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import { useHomePersonalization } from './HomePersonalizationProvider';
+
+/**
+ * Renders its children only for readers with tracked interests
+ */
+export default function InterestGate({ children }: { children: React.ReactNode }) {
+  const { hasInterests } = useHomePersonalization();
+  return hasInterests ? <>{children}</> : null;
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from 'react';
+import { getHybridPersonalizationManager } from '@/lib/hybrid-personalization';
+import { getSubscribeErrorMessage } from '@/lib/subscribe-errors';
+
+/**
+ * Newsletter signup form shown at the bottom of the homepage
+ */
+export default function NewsletterSignup() {
+  // Newsletter signup state
+  const [email, setEmail] = useState("");
+  // Honeypot: hidden from people, filled in by form-spamming bots
+  const [website, setWebsite] = useState("");
+  const [emailError, setEmailError] = useState("");
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  const [subscriptionSuccess, setSubscriptionSuccess] = useState(false);
+  // Double opt-in: 'pending' until the emailed link is followed
+  const [subscriptionState, setSubscriptionState] = useState<'pending' | 'active' | null>(null);
+  const [pendingEmail, setPendingEmail] = useState("");
+
+  // Email validation regex
+  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+  // Validate email function
+  const validateEmail = (email: string): boolean => {
+    return emailRegex.test(email);
+  };
+
+  // Handle email input change
+  const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setEmail(value);
+    setEmailError("");
+    setSubscriptionSuccess(false);
+  };
+
+  // Handle newsletter subscription
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    // Reset states
+    setEmailError("");
+    setSubscriptionSuccess(false);
+    
+    // Validate email
+    if (!email.trim()) {
+      setEmailError("Email is required");
+      return;
+    }
+    
+    if (!validateEmail(email.trim())) {
+      setEmailError("Please enter a valid email address");
+      return;
+    }
+    
+    setIsSubscribing(true);
+    
+    try {
+      const response = await fetch('/api/newsletter/subscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: email.trim(), source: 'homepage_form', website }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSubscriptionSuccess(true);
+        setSubscriptionState(data.status === 'active' ? 'active' : 'pending');
+        setPendingEmail(email.trim());
+        setEmail("");
+        
+        // Track newsletter signup with hybrid system
+        const hybridManager = getHybridPersonalizationManager();
+        try {
+          await hybridManager.trackNewsletterSignup(email.trim(), 'homepage_form');
+          console.log('🏠 Homepage: Successfully tracked newsletter signup with hybrid system');
+        } catch (error) {
+          console.error('🏠 Homepage: Error tracking newsletter signup with hybrid system:', error);
+        }
+        
+        // Already-active subscribers need no further action; pending ones keep the inbox prompt
+        if (data.status === 'active') {
+          setTimeout(() => {
+            setSubscriptionSuccess(false);
+          }, 5000);
+        }
+      } else {
+        setEmailError(getSubscribeErrorMessage(data));
+      }
+      
+    } catch (error) {
+      console.error('Newsletter subscription error:', error);
+      setEmailError("Something went wrong. Please try again.");
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 text-white py-16">
+      <div className="max-w-4xl mx-auto px-4 text-center">
+        <h2 className="text-3xl font-bold mb-4">Stay in the loop</h2>
+        <p className="text-gray-300 mb-8 text-lg">
+          Get the latest insights and updates delivered to your inbox every week.
+        </p>
+
+        {subscriptionSuccess && subscriptionState === 'pending' ? (
+          <div className="max-w-md mx-auto" role="status">
+            <div className="bg-blue-600 text-white px-6 py-4 rounded-lg">
+              <div className="flex items-center justify-center gap-3">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+                <span className="font-medium">Check your inbox to confirm your subscription.</span>
+              </div>
+              <p className="text-blue-100 text-sm mt-2">
+                We sent a confirmation link to {pendingEmail}. It expires in 48 hours.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setSubscriptionSuccess(false)}
+              className="text-gray-400 hover:text-white text-sm mt-4 underline"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : subscriptionSuccess ? (
+          <div className="max-w-md mx-auto">
+            <div className="bg-green-600 text-white px-6 py-4 rounded-lg flex items-center justify-center gap-3">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              <span className="font-medium">You're already subscribed to the newsletter.</span>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubscribe} className="max-w-md mx-auto">
+            <div className="absolute -left-[9999px]" aria-hidden="true">
+              <label htmlFor="newsletter-website">Website</label>
+              <input
+                id="newsletter-website"
+                type="text"
+                name="website"
+                value={website}
+                onChange={(e) => setWebsite(e.target.value)}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <div className="flex-1">
+                <input 
+                  type="email" 
+                  value={email}
+                  onChange={handleEmailChange}
+                  placeholder="Enter your email"
+                  className={`w-full px-4 py-3 rounded-lg bg-white text-gray-900 placeholder-gray-500 border focus:outline-none focus:ring-2 focus:border-transparent transition-colors ${
+                    emailError 
+                      ? 'border-red-500 focus:ring-red-500' 
+                      : 'border-gray-300 focus:ring-blue-500'
+                  }`}
+                  disabled={isSubscribing}
+                />
+                {emailError && (
+                  <p className="text-red-400 text-sm mt-2 text-left">{emailError}</p>
+                )}
+              </div>
+              <button 
+                type="submit"
+                disabled={isSubscribing}
+                className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 min-w-[120px]"
+              >
+                {isSubscribing ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    <span>Subscribing...</span>
+                  </>
+                ) : (
+                  <span>Subscribe</span>
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { getUserTopInterests } from '@/lib/user-interests';
+import { useHomePersonalization } from './HomePersonalizationProvider';
+
+interface PersonalizedBlogGridProps {
+  section: 'featured' | 'recommended' | 'recent';
+}
+
+/**
+ * Homepage post grids. They render the server's default order first and switch
+ * to the reader's personalized order once HomePersonalizationProvider has it.
+ */
+export default function PersonalizedBlogGrid({ section }: PersonalizedBlogGridProps) {
+  const { featuredBlogs, recentBlogs, recommendedBlogs, hasInterests } = useHomePersonalization();
+
+  // Featured Stories
+  if (section === 'featured') {
+    return (
+      <section id="featured" className="py-16">
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex justify-between items-center mb-12">
+            <h2 className="text-3xl font-bold text-gray-900">Featured Insights</h2>
+            <Link href="/blog" className="text-blue-600 hover:text-blue-800 font-medium">
+              View all →
+            </Link>
+          </div>
+
+          {featuredBlogs.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              {featuredBlogs.map((blog) => (
+                <article key={blog.uid} className="group">
+                  <Link href={`/blog/${blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url}`}>
+                    {blog.banner_image && (
+                      <div className="relative overflow-hidden rounded-lg mb-4">
+                        <Image
+                          src={blog.banner_image.url}
+                          alt={blog.title}
+                          width={400}
+                          height={240}
+                          className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-3">
+                      {blog.categories_tags && blog.categories_tags[0] && (
+                        <span className="text-sm text-blue-600 font-medium">
+                          {blog.categories_tags[0]}
+                        </span>
+                      )}
+                      <h3 className="text-xl font-bold text-gray-900 group-hover:text-blue-600 transition-colors line-clamp-2">
+                        {blog.title}
+                      </h3>
+                      {blog.summary && (
+                        <p className="text-gray-600 line-clamp-3">
+                          {blog.summary}
+                        </p>
+                      )}
+                      <div className="flex items-center space-x-3 text-sm text-gray-500">
+                        {blog.author?.[0] && (
+                          <>
+                            <span>{blog.author[0].title}</span>
+                            <span>•</span>
+                          </>
+                        )}
+                        {blog.reading_time && <span>{blog.reading_time} min read</span>}
+                      </div>
+                    </div>
+                  </Link>
+                </article>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-gray-600">No featured stories available.</p>
+            </div>
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  // Recommended for You - Only show if user has interests
+  if (section === 'recommended') {
+    if (!hasInterests || recommendedBlogs.length === 0) {
+      return null;
+    }
+
+    return (
+      <section className="py-16 bg-gradient-to-r from-blue-50 to-indigo-50">
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="text-center mb-12">
+            <h2 className="text-3xl font-bold text-gray-900 mb-4">Recommended for You</h2>
+            <p className="text-gray-600 max-w-2xl mx-auto">
+              Based on your reading interests: {getUserTopInterests(3).map(interest => 
+                <span key={interest} className="inline-block bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium mr-2 mb-2 capitalize">
+                  {interest}
+                </span>
+              )}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {recommendedBlogs.map((blog) => (
+              <article key={blog.uid} className="group bg-white rounded-lg shadow-sm hover:shadow-lg transition-all duration-300">
+                <Link href={`/blog/${blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url}`}>
+                  {blog.banner_image && (
+                    <div className="relative overflow-hidden rounded-t-lg">
+                      <Image
+                        src={blog.banner_image.url}
+                        alt={blog.title}
+                        width={300}
+                        height={160}
+                        className="w-full h-32 object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    </div>
+                  )}
+                  <div className="p-4 space-y-2">
+                    {blog.categories_tags && blog.categories_tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {blog.categories_tags.slice(0, 2).map((tag, index) => (
+                          <span
+                            key={index}
+                            className="inline-block bg-gray-100 text-gray-600 px-2 py-1 rounded text-xs font-medium"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <h3 className="font-bold text-gray-900 group-hover:text-blue-600 transition-colors line-clamp-2 text-sm">
+                      {blog.title}
+                    </h3>
+                    <div className="flex items-center space-x-2 text-xs text-gray-500">
+                      {blog.author?.[0] && (
+                        <>
+                          <span>{blog.author[0].title}</span>
+                          <span>•</span>
+                        </>
+                      )}
+                      {blog.reading_time && <span>{blog.reading_time} min read</span>}
+                    </div>
+                  </div>
+                </Link>
+              </article>
+            ))}
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  // Recent Stories
+  return (
+    <section className="py-16">
+      <div className="max-w-6xl mx-auto px-4">
+        <h2 className="text-3xl font-bold text-gray-900 mb-12">Latest Insights</h2>
+
+        {recentBlogs.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {recentBlogs.map((blog) => (
+              <article key={blog.uid} className="group">
+                <Link href={`/blog/${blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url}`}>
+                  {blog.banner_image && (
+                    <div className="relative overflow-hidden rounded-lg mb-4">
+                      <Image
+                        src={blog.banner_image.url}
+                        alt={blog.title}
+                        width={300}
+                        height={200}
+                        className="w-full h-40 object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <h3 className="font-bold text-gray-900 group-hover:text-blue-600 transition-colors line-clamp-2">
+                      {blog.title}
+                    </h3>
+                    <div className="flex items-center space-x-3 text-sm text-gray-500">
+                      {blog.author?.[0] && (
+                        <>
+                          <span>{blog.author[0].title}</span>
+                          <span>•</span>
+                        </>
+                      )}
+                      {blog.reading_time && <span>{blog.reading_time} min read</span>}
+                    </div>
+                  </div>
+                </Link>
+              </article>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-gray-600">No recent stories available.</p>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { Blog } from '@/lib/types';
 import { getUserTopInterests, getInterestBasedRecommendations } from '@/lib/user-interests';
 import { getAllBlogs } from '@/lib/contentstack';
+import { getTagCategory, getTagLabel, isTagInTopic } from '@/lib/tag-taxonomy';
 
 interface PersonalizedSection {
   title: string;
@@ -36,7 +37,7 @@ const SECTION_CONFIG: { [key: string]: { emoji: string; description: string } }
     emoji: "🎨",
     description: "CSS techniques, animations, and user interface design"
   },
-  nodejs: {
+  node: {
     emoji: "🟢",
     description: "Node.js performance, security, and best practices"
   }
@@ -70,22 +71,20 @@ export default function PersonalizedSections() {
         const personalizedSections: PersonalizedSection[] = [];
         
         for (let i = 0; i < Math.min(userInterests.length, 3); i++) {
-          const interest = userInterests[i].toLowerCase();
-          const config = SECTION_CONFIG[interest] || SECTION_CONFIG['javascript'];
+          const interest = userInterests[i];
+          const config = SECTION_CONFIG[interest] || SECTION_CONFIG[getTagCategory(interest) || ''] || SECTION_CONFIG['javascript'];
           
           // Filter blogs by interest
           const interestArticles = allBlogs
             .filter(blog => {
               if (!blog.categories_tags) return false;
-              return blog.categories_tags.some(tag => 
-                tag.toLowerCase().includes(interest.toLowerCase())
-              );
+              return blog.categories_tags.some(tag => isTagInTopic(tag, interest));
             })
             .slice(0, 6);
 
           if (interestArticles.length > 0) {
             personalizedSections.push({
-              title: `${config.emoji} Trending in ${interest.charAt(0).toUpperCase() + interest.slice(1)}`,
+              title: `${config.emoji} Trending in ${getTagLabel(interest)}`,
               description: config.description,
               articles: interestArticles,
               interest: interest,
@@ -144,7 +143,7 @@ export default function PersonalizedSections() {
                   {section.title}
                 </h2>
                 <Link 
-                  href={`/blog?search=${encodeURIComponent(section.interest)}`}
+                  href={`/blog?tag=${encodeURIComponent(section.interest)}`}
                   className="text-blue-600 hover:text-blue-700 font-medium flex items-center space-x-1"
                 >
                   <span>View All</span>
@@ -214,9 +213,7 @@ function PersonalizedArticleCard({ article, interest }: PersonalizedArticleCardP
 
   const getRelevanceScore = () => {
     if (!article.categories_tags) return 0;
-    const matchingTags = article.categories_tags.filter(tag => 
-      tag.toLowerCase().includes(interest.toLowerCase())
-    );
+    const matchingTags = article.categories_tags.filter(tag => isTagInTopic(tag, interest));
     return Math.round((matchingTags.length / article.categories_tags.length) * 100);
   };
 
@@ -246,7 +243,7 @@ function PersonalizedArticleCard({ article, interest }: PersonalizedArticleCardP
                 <span
                   key={tag}
                   className={`px-2 py-1 text-xs font-medium rounded-full ${
-                    tag.toLowerCase().includes(interest.toLowerCase())
+                    isTagInTopic(tag, interest)
                       ? 'bg-blue-100 text-blue-700'
                       : 'bg-gray-100 text-gray-600'
                   }`}
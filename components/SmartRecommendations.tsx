@@ -7,8 +7,13 @@ import { getAllBlogs } from '@/lib/contentstack';
 import { 
   getUserTopInterests, 
   calculateBlogRelevanceScore,
-  trackInteraction 
+  trackInteraction,
+  trackInterestDismissal,
+  getExplicitInterests,
+  isContentMuted
 } from '@/lib/user-interests';
+import { buildTagWeights } from '@/lib/interest-model';
+import { canonicalizeTag, canonicalizeTags, isTagInTopic } from '@/lib/tag-taxonomy';
 
 interface SmartRecommendationsProps {
   /**
@@ -116,19 +121,22 @@ export default function SmartRecommendations({
         return [];
       }
 
-      // Filter out current article if provided
-      const availableBlogs = currentArticle 
-        ? allBlogs.filter(blog => blog.uid !== currentArticle.uid)
-        : allBlogs;
+      // Filter out current article if provided, and anything in a topic the reader muted
+      const { muted } = getExplicitInterests();
+      const availableBlogs = allBlogs.filter(blog =>
+        blog.uid !== currentArticle?.uid && !isContentMuted(blog.categories_tags, muted)
+      );
 
       const recommendationSections: RecommendationSection[] = [];
+      const tagWeights = buildTagWeights(allBlogs);
 
               // 1. SIMILAR ARTICLES (if current article exists)
         if (currentArticle && currentArticle.categories_tags) {
+          const currentTags = canonicalizeTags(currentArticle.categories_tags);
           const similarArticles: RecommendedArticle[] = availableBlogs
             .map(blog => {
               const matchedTags = blog.categories_tags?.filter(tag =>
-                currentArticle.categories_tags?.includes(tag)
+                currentTags.includes(canonicalizeTag(tag))
               ) || [];
               
               // More realistic scoring: max 85% for similar articles
@@ -162,12 +170,10 @@ export default function SmartRecommendations({
           const interestArticles: RecommendedArticle[] = availableBlogs
             .map(blog => {
               const matchedInterests = blog.categories_tags?.filter(tag =>
-                topInterests.some(interest => 
-                  tag.toLowerCase().includes(interest.toLowerCase())
-                )
+                topInterests.some(interest => isTagInTopic(tag, interest))
               ) || [];
               
-              const relevanceScore = calculateBlogRelevanceScore(blog.categories_tags || []);
+              const relevanceScore = calculateBlogRelevanceScore(blog.categories_tags || [], tagWeights);
               const interestScore = matchedInterests.length / topInterests.length;
               
               // More realistic scoring for interest-based
@@ -308,10 +314,25 @@ export default function SmartRecommendations({
     router.push(`/blog/${article.url}`);
   }, [router, placement]);
 
+  // "Not interested": a negative signal for the article's tags
+  const handleDismiss = useCallback((event: React.MouseEvent, article: RecommendedArticle) => {
+    event.stopPropagation();
+    trackInteraction('dismiss', {
+      articleUid: article.uid,
+      recommendationType: article.recommendationType,
+      placement
+    });
+    trackInterestDismissal(article.categories_tags || [], article.uid);
+
+    setSections(current => current
+      .map(section => ({ ...section, articles: section.articles.filter(item => item.uid !== article.uid) }))
+      .filter(section => section.articles.length > 0));
+  }, [placement]);
+
   // Handle interest chip click
   const handleInterestClick = useCallback((interest: string) => {
     trackInteraction('interest_click', { interest, source: 'recommendations' });
-    router.push(`/blog?search=${encodeURIComponent(interest)}`);
+    router.push(`/blog?tag=${encodeURIComponent(interest)}`);
   }, [router]);
 
   // Render loading state
@@ -524,9 +545,18 @@ export default function SmartRecommendations({
                             </>
                           )}
                         </div>
-                        <button className="text-blue-600 hover:text-blue-800 font-medium">
-                          Read more →
-                        </button>
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={(event) => handleDismiss(event, article)}
+                            className="text-gray-400 hover:text-gray-600"
+                            aria-label={`Not interested in ${article.title}`}
+                          >
+                            Not interested
+                          </button>
+                          <button className="text-blue-600 hover:text-blue-800 font-medium">
+                            Read more →
+                          </button>
+                        </div>
                       </div>
 
                       {/* Recommendation Score (for debugging) */}
@@ -0,0 +1,254 @@
+/**
+ * Blog Facet Filtering
+ * Filter state, URL query-string mapping and facet counts for the blog index.
+ * Values within one facet are OR-ed; different facets are AND-ed together.
+ * Tags are compared in canonical form (see lib/tag-taxonomy), so `?tag=javascript`
+ * matches posts tagged "JS" or "JavaScript Tips".
+ */
+
+import { Blog, PaginatedResult } from './types';
+import { canonicalizeTag, getTagLabel } from './tag-taxonomy';
+
+// Default number of blog posts per page
+export const BLOG_PAGE_SIZE = 10;
+
+export type ReadingTimeBucket = 'short' | 'medium' | 'long';
+
+export interface BlogFilters {
+  tags: string[];                      // Canonical categories_tags values
+  authors: string[];                   // Author UIDs
+  readingTime: ReadingTimeBucket[];
+  from?: string;                       // Inclusive published_date lower bound (YYYY-MM-DD)
+  to?: string;                         // Inclusive published_date upper bound (YYYY-MM-DD)
+}
+
+// /api/blogs response body: one page of matching posts with facet counts
+export interface BlogListResponse extends PaginatedResult<Blog> {
+  facets: BlogFacets;
+}
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface BlogFacets {
+  tags: FacetValue[];
+  authors: FacetValue[];
+  readingTime: FacetValue[];
+  dateRange: {
+    min?: string;
+    max?: string;
+  };
+}
+
+type FacetKey = 'tags' | 'authors' | 'readingTime' | 'dateRange';
+
+export const READING_TIME_BUCKETS: Record<ReadingTimeBucket, { label: string }> = {
+  short: { label: 'Under 5 min' },
+  medium: { label: '5–10 min' },
+  long: { label: 'Over 10 min' },
+};
+
+// Query-string parameter names
+const PARAM_TAG = 'tag';
+const PARAM_AUTHOR = 'author';
+const PARAM_READING_TIME = 'reading';
+// Skill level from older CTA links (e.g. `level=advanced`). Posts don't record a
+// level and reading time is not difficulty, so it is deliberately ignored when
+// parsing; it is only cleared from the URL once filters change.
+const PARAM_LEVEL = 'level';
+const PARAM_FROM = 'from';
+const PARAM_TO = 'to';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Create an empty filter set
+ */
+export function createEmptyFilters(): BlogFilters {
+  return { tags: [], authors: [], readingTime: [] };
+}
+
+/**
+ * Read repeated and comma-separated values for a parameter
+ */
+function getListParam(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse filters from a URL query string
+ */
+export function parseBlogFilters(params: URLSearchParams): BlogFilters {
+  const readingTime = getListParam(params, PARAM_READING_TIME)
+    .filter((bucket): bucket is ReadingTimeBucket => bucket in READING_TIME_BUCKETS);
+
+  const from = params.get(PARAM_FROM) || undefined;
+  const to = params.get(PARAM_TO) || undefined;
+
+  return {
+    tags: [...new Set(getListParam(params, PARAM_TAG).map(canonicalizeTag).filter(Boolean))],
+    authors: [...new Set(getListParam(params, PARAM_AUTHOR))],
+    readingTime: [...new Set(readingTime)],
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+  };
+}
+
+/**
+ * Write filters into a copy of the given query string, replacing any previous filter params
+ */
+export function applyBlogFiltersToParams(params: URLSearchParams, filters: BlogFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  [PARAM_TAG, PARAM_AUTHOR, PARAM_READING_TIME, PARAM_LEVEL, PARAM_FROM, PARAM_TO].forEach(name => next.delete(name));
+
+  filters.tags.forEach(tag => next.append(PARAM_TAG, tag));
+  filters.authors.forEach(author => next.append(PARAM_AUTHOR, author));
+  filters.readingTime.forEach(bucket => next.append(PARAM_READING_TIME, bucket));
+  if (filters.from) next.set(PARAM_FROM, filters.from);
+  if (filters.to) next.set(PARAM_TO, filters.to);
+
+  return next;
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasActiveFilters(filters: BlogFilters): boolean {
+  return filters.tags.length > 0 ||
+    filters.authors.length > 0 ||
+    filters.readingTime.length > 0 ||
+    !!filters.from ||
+    !!filters.to;
+}
+
+/**
+ * Get the reading time bucket for a blog, if it has a reading time
+ */
+export function getReadingTimeBucket(readingTime?: number): ReadingTimeBucket | null {
+  if (readingTime === undefined || readingTime === null) return null;
+  if (readingTime < 5) return 'short';
+  if (readingTime <= 10) return 'medium';
+  return 'long';
+}
+
+/**
+ * Check a blog against every filter except the facet being counted
+ */
+function matchesFilters(blog: Blog, filters: BlogFilters, ignore?: FacetKey): boolean {
+  if (ignore !== 'tags' && filters.tags.length > 0) {
+    const blogTags = (blog.categories_tags || []).map(canonicalizeTag);
+    if (!filters.tags.some(tag => blogTags.includes(tag))) return false;
+  }
+
+  if (ignore !== 'authors' && filters.authors.length > 0) {
+    const authorUids = (blog.author || []).map(author => author.uid);
+    if (!filters.authors.some(uid => authorUids.includes(uid))) return false;
+  }
+
+  if (ignore !== 'readingTime' && filters.readingTime.length > 0) {
+    const bucket = getReadingTimeBucket(blog.reading_time);
+    if (!bucket || !filters.readingTime.includes(bucket)) return false;
+  }
+
+  if (ignore !== 'dateRange' && (filters.from || filters.to)) {
+    const date = blog.published_date?.slice(0, 10);
+    if (!date) return false;
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filter blogs by the given filters
+ */
+export function filterBlogs(blogs: Blog[], filters: BlogFilters): Blog[] {
+  if (!hasActiveFilters(filters)) {
+    return blogs;
+  }
+  return blogs.filter(blog => matchesFilters(blog, filters));
+}
+
+/**
+ * Count facet values. Each facet is counted against the blogs matching all
+ * other filters, so selecting a tag still shows counts for sibling tags.
+ */
+export function computeBlogFacets(blogs: Blog[], filters: BlogFilters): BlogFacets {
+  const tagCounts = new Map<string, { label: string; count: number }>();
+  const authorCounts = new Map<string, { label: string; count: number }>();
+  const readingTimeCounts = new Map<ReadingTimeBucket, number>();
+  let min: string | undefined;
+  let max: string | undefined;
+
+  blogs.forEach(blog => {
+    if (matchesFilters(blog, filters, 'tags')) {
+      // Count each tag once per blog, however it is spelled
+      const blogTags = new Map((blog.categories_tags || []).map(tag => [canonicalizeTag(tag), getTagLabel(tag.trim())]));
+      blogTags.forEach((label, key) => {
+        if (!key) return;
+        const entry = tagCounts.get(key) || { label, count: 0 };
+        entry.count += 1;
+        tagCounts.set(key, entry);
+      });
+    }
+
+    if (matchesFilters(blog, filters, 'authors')) {
+      (blog.author || []).forEach(author => {
+        const entry = authorCounts.get(author.uid) || { label: author.title || author.uid, count: 0 };
+        entry.count += 1;
+        authorCounts.set(author.uid, entry);
+      });
+    }
+
+    if (matchesFilters(blog, filters, 'readingTime')) {
+      const bucket = getReadingTimeBucket(blog.reading_time);
+      if (bucket) {
+        readingTimeCounts.set(bucket, (readingTimeCounts.get(bucket) || 0) + 1);
+      }
+    }
+
+    if (matchesFilters(blog, filters, 'dateRange')) {
+      const date = blog.published_date?.slice(0, 10);
+      if (date) {
+        if (!min || date < min) min = date;
+        if (!max || date > max) max = date;
+      }
+    }
+  });
+
+  const toFacetValues = (
+    counts: Map<string, { label: string; count: number }>,
+    selected: string[],
+    getLabel: (value: string) => string = value => value
+  ) => {
+    // Keep selected values visible even when nothing else matches them
+    selected.forEach(value => {
+      if (!counts.has(value)) counts.set(value, { label: getLabel(value), count: 0 });
+    });
+
+    return [...counts.entries()]
+      .map(([value, { label, count }]) => ({ value, label, count, selected: selected.includes(value) }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  };
+
+  return {
+    tags: toFacetValues(tagCounts, filters.tags, getTagLabel),
+    authors: toFacetValues(authorCounts, filters.authors),
+    readingTime: (Object.keys(READING_TIME_BUCKETS) as ReadingTimeBucket[]).map(bucket => ({
+      value: bucket,
+      label: READING_TIME_BUCKETS[bucket].label,
+      count: readingTimeCounts.get(bucket) || 0,
+      selected: filters.readingTime.includes(bucket),
+    })),
+    dateRange: { min, max },
+  };
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ContentRepository } from './content-repository';
+
+describe('ContentRepository', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('loads a query once and serves it from the cache until it expires', async () => {
+    vi.useFakeTimers();
+    const repository = new ContentRepository({ enabled: true, ttls: { blog: 1000 } });
+    const loader = vi.fn().mockResolvedValue(['post']);
+
+    expect(await repository.get('blog', 'all', loader)).toEqual(['post']);
+    expect(await repository.get('blog', 'all', loader)).toEqual(['post']);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1001);
+    await repository.get('blog', 'all', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(repository.getStats()).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it('shares one in-flight request between concurrent callers', async () => {
+    const repository = new ContentRepository({ enabled: true });
+    const loader = vi.fn(() => new Promise(resolve => setTimeout(() => resolve('post'), 5)));
+
+    await Promise.all([repository.get('blog', 'uid', loader), repository.get('blog', 'uid', loader)]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys entries by content type and query', async () => {
+    const repository = new ContentRepository({ enabled: true });
+    const loader = vi.fn().mockResolvedValue('value');
+
+    await repository.get('blog', { uid: 'a' }, loader);
+    await repository.get('blog', { uid: 'b' }, loader);
+    await repository.get('author', { uid: 'a' }, loader);
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+
+  it('never caches failures', async () => {
+    const repository = new ContentRepository({ enabled: true });
+    const loader = vi.fn()
+      .mockRejectedValueOnce(new Error('Delivery API down'))
+      .mockResolvedValueOnce('post');
+
+    await expect(repository.get('blog', 'uid', loader)).rejects.toThrow('Delivery API down');
+    expect(await repository.get('blog', 'uid', loader)).toBe('post');
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used entry over the size limit', async () => {
+    const repository = new ContentRepository({ enabled: true, maxEntries: 2 });
+    const loader = vi.fn(async () => 'value');
+
+    await repository.get('blog', 'a', loader);
+    await repository.get('blog', 'b', loader);
+    await repository.get('blog', 'a', loader);          // 'a' is now the most recently used
+    await repository.get('blog', 'c', loader);          // Evicts 'b'
+
+    loader.mockClear();
+    await repository.get('blog', 'a', loader);
+    expect(loader).not.toHaveBeenCalled();
+    await repository.get('blog', 'b', loader);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(repository.getStats().size).toBe(2);
+  });
+
+  it('invalidates a query, a content type or everything and notifies listeners', async () => {
+    const repository = new ContentRepository({ enabled: true });
+    const loader = vi.fn(async () => 'value');
+    const listener = vi.fn();
+    repository.onInvalidate(listener);
+
+    await repository.get('blog', 'a', loader);
+    await repository.get('blog', 'b', loader);
+    await repository.get('author', 'a', loader);
+
+    expect(repository.invalidate('blog', 'a')).toBe(1);
+    expect(repository.invalidate('blog')).toBe(1);
+    expect(repository.invalidateAll()).toBe(1);
+    expect(listener.mock.calls.map(([event]) => event.removed)).toEqual([1, 1, 1]);
+    expect(listener).toHaveBeenLastCalledWith({ contentType: '*', removed: 1 });
+  });
+
+  it('hands every caller its own copy of cached data', async () => {
+    const repository = new ContentRepository({ enabled: true });
+    const loader = vi.fn(async () => [{ title: 'Post', tags: ['react'] }]);
+
+    const first = await repository.get('blog', 'all', loader);
+    first[0].title = 'Changed';
+    first[0].tags.push('vue');
+
+    expect(await repository.get('blog', 'all', loader)).toEqual([{ title: 'Post', tags: ['react'] }]);
+  });
+
+  it('shares class instances as they are', async () => {
+    class Index {
+      search() {
+        return [];
+      }
+    }
+    const repository = new ContentRepository({ enabled: true });
+    const loader = vi.fn(async () => new Index());
+
+    const first = await repository.get('blog', 'index', loader);
+    expect(await repository.get('blog', 'index', loader)).toBe(first);
+    expect(first).toBeInstanceOf(Index);
+  });
+
+  it('bypasses the cache when disabled', async () => {
+    const repository = new ContentRepository({ enabled: false });
+    const loader = vi.fn().mockResolvedValue('value');
+
+    await repository.get('blog', 'a', loader);
+    await repository.get('blog', 'a', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
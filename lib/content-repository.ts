@@ -0,0 +1,226 @@
+/**
+ * Content Repository
+ * In-memory LRU cache in front of the Contentstack Delivery API.
+ * Entries are keyed by content type + query and expire per content type TTL.
+ * Every caller gets its own copy of cached data, so mutating one can't change
+ * what the next caller sees. Class instances (e.g. a built search index) are
+ * shared and must be treated as read-only.
+ */
+
+export type ContentTypeUid = 'blog' | 'author' | 'basic' | string;
+
+export interface ContentRepositoryConfig {
+  maxEntries: number;
+  defaultTtl: number;
+  ttls: Record<string, number>;
+  enabled: boolean;
+}
+
+export interface InvalidationEvent {
+  contentType: ContentTypeUid | '*';
+  key?: string;
+  removed: number;
+}
+
+export type InvalidationListener = (event: InvalidationEvent) => void;
+
+interface CacheEntry {
+  contentType: ContentTypeUid;
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+const DEFAULT_CONFIG: ContentRepositoryConfig = {
+  maxEntries: 200,
+  defaultTtl: 5 * 60 * 1000, // 5 minutes
+  ttls: {
+    blog: 5 * 60 * 1000,     // Posts change most often
+    author: 30 * 60 * 1000,  // Author profiles rarely change
+    basic: 10 * 60 * 1000,
+  },
+  // Live preview needs every edit to show up, so never cache in preview mode
+  enabled: process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW !== 'true',
+};
+
+export class ContentRepository {
+  private config: ContentRepositoryConfig;
+  private entries = new Map<string, CacheEntry>();
+  private listeners = new Set<InvalidationListener>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(config: Partial<ContentRepositoryConfig> = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      ttls: { ...DEFAULT_CONFIG.ttls, ...config.ttls },
+    };
+  }
+
+  /**
+   * Build the cache key for a content type and query
+   */
+  static buildKey(contentType: ContentTypeUid, query: unknown): string {
+    return `${contentType}:${typeof query === 'string' ? query : JSON.stringify(query)}`;
+  }
+
+  /**
+   * Return the cached value for a query, or run the loader and cache its result.
+   * Concurrent callers for the same key share the same in-flight request.
+   */
+  async get<T>(
+    contentType: ContentTypeUid,
+    query: unknown,
+    loader: () => Promise<T>,
+    ttl?: number
+  ): Promise<T> {
+    if (!this.config.enabled) {
+      return loader();
+    }
+
+    const key = ContentRepository.buildKey(contentType, query);
+    const now = Date.now();
+    const cached = this.entries.get(key);
+
+    if (cached && cached.expiresAt > now) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      this.hits += 1;
+      return (cached.value as Promise<T>).then(cloneValue);
+    }
+
+    this.misses += 1;
+
+    const value = loader().catch((error) => {
+      // Never cache failures
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+      throw error;
+    });
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      contentType,
+      value,
+      expiresAt: now + (ttl ?? this.config.ttls[contentType] ?? this.config.defaultTtl),
+    });
+    this.evict();
+
+    return value.then(cloneValue);
+  }
+
+  /**
+   * Drop cached entries for a content type, or a single query of it
+   */
+  invalidate(contentType: ContentTypeUid, query?: unknown): number {
+    let removed = 0;
+    let key: string | undefined;
+
+    if (query !== undefined) {
+      key = ContentRepository.buildKey(contentType, query);
+      if (this.entries.delete(key)) {
+        removed = 1;
+      }
+    } else {
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.contentType === contentType) {
+          this.entries.delete(entryKey);
+          removed += 1;
+        }
+      }
+    }
+
+    this.notify({ contentType, key, removed });
+    return removed;
+  }
+
+  /**
+   * Drop every cached entry
+   */
+  invalidateAll(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+
+    this.notify({ contentType: '*', removed });
+    return removed;
+  }
+
+  /**
+   * Register a callback fired after every invalidation. Returns an unsubscribe function.
+   */
+  onInvalidate(listener: InvalidationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get cache statistics for debugging
+   */
+  getStats() {
+    return {
+      enabled: this.config.enabled,
+      size: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Remove expired entries, then least recently used ones over the size limit
+   */
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  private notify(event: InvalidationEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ ContentRepository: Invalidation listener failed:', error);
+      }
+    });
+  }
+}
+
+function cloneValue<T>(value: T): T {
+  const isPlainData = Array.isArray(value) ||
+    (typeof value === 'object' && value !== null && [Object.prototype, null].includes(Object.getPrototypeOf(value)));
+  return isPlainData ? structuredClone(value) : value;
+}
+
+// Singleton instance
+let contentRepository: ContentRepository | null = null;
+
+/**
+ * Get the shared content repository
+ */
+export function getContentRepository(): ContentRepository {
+  if (!contentRepository) {
+    contentRepository = new ContentRepository();
+  }
+  return contentRepository;
+}
+
+/**
+ * Invalidate cached content for a content type (or everything when omitted)
+ */
+export function invalidateContent(contentType?: ContentTypeUid, query?: unknown): number {
+  const repository = getContentRepository();
+  return contentType ? repository.invalidate(contentType, query) : repository.invalidateAll();
+}
@@ -5,11 +5,20 @@ import contentstack, { QueryOperation } from "@contentstack/delivery-sdk";
 import ContentstackLivePreview, { IStackSdk } from "@contentstack/live-preview-utils";
 
 // Importing the type definitions 
-import { Page, Blog, Author } from "./types";
+import { Page, Blog, Author, PaginatedResult, SearchSuggestion } from "./types";
 
 // Importing personalization API
 import { initPersonalizationAPI, getPersonalizationAPI, PersonalizationConfig } from "./personalization-api";
 
+// Importing the cached content repository
+import { getContentRepository } from "./content-repository";
+
+// Importing the blog facet helpers
+import { BLOG_PAGE_SIZE, BlogFacets, BlogFilters, computeBlogFacets, createEmptyFilters, filterBlogs, hasActiveFilters } from "./blog-facets";
+
+// Importing the full-text search index
+import { SearchIndex, SearchField, SearchOptions, SearchResult, scoreSuggestion, stripHtml } from "./search-index";
+
 // helper functions from private package to retrieve Contentstack endpoints in a convienient way
 import { getContentstackEndpoints, getRegionForString } from "@timbenniks/contentstack-endpoints";
 
@@ -17,7 +26,7 @@ import { getContentstackEndpoints, getRegionForString } from "@timbenniks/conten
 const region = getRegionForString(process.env.NEXT_PUBLIC_CONTENTSTACK_REGION || "EU");
 
 // object with all endpoints for region.
-const endpoints = getContentstackEndpoints(region, true)
+export const endpoints = getContentstackEndpoints(region, true)
 
 export const stack = contentstack.stack({
   // Setting the API key from environment variables
@@ -93,48 +102,64 @@ export function initLivePreview() {
 }
 // Function to fetch page data based on the URL
 export async function getPage(url: string) {
-  const result = await stack
-    .contentType("basic") // Specifying the content type as "page"
-    .entry() // Accessing the entry
-    .query() // Creating a query
-    .where("url", QueryOperation.EQUALS, url) // Filtering entries by URL
-    .find<Page>(); // Executing the query and expecting a result of type Page
+  return getContentRepository().get("basic", { url }, async () => {
+    const result = await stack
+      .contentType("basic") // Specifying the content type as "page"
+      .entry() // Accessing the entry
+      .query() // Creating a query
+      .where("url", QueryOperation.EQUALS, url) // Filtering entries by URL
+      .find<Page>(); // Executing the query and expecting a result of type Page
 
-  if (result.entries) {
-    const entry = result.entries[0]; // Getting the first entry from the result
+    if (result.entries) {
+      const entry = result.entries[0]; // Getting the first entry from the result
 
-    if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
-      contentstack.Utils.addEditableTags(entry, 'page', true); // Adding editable tags for live preview if enabled
+      if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
+        contentstack.Utils.addEditableTags(entry, 'page', true); // Adding editable tags for live preview if enabled
+      }
+
+      return entry; // Returning the fetched entry
     }
+  });
+}
 
-    return entry; // Returning the fetched entry
+// Function to fetch every blog post, newest first, optionally limited to some fields.
+// Pages through the full set since a single query is capped.
+async function findAllBlogs(fields?: string[]) {
+  const entries: Blog[] = [];
+  let total = Infinity;
+
+  while (entries.length < total) {
+    const entry = stack
+      .contentType("blog") // Specifying the content type as "blog"
+      .entry(); // Accessing the entry
+
+    const result = await (fields ? entry.only(fields) : entry) // Fetching only the requested fields, if any
+      .query() // Creating a query
+      .orderByDescending('published_date') // Sort by published date, newest first
+      .limit(MAX_QUERY_LIMIT)
+      .skip(entries.length)
+      .includeCount() // Include the total number of entries
+      .find<Blog>(); // Executing the query and expecting a result of type Blog
+
+    const batch = result.entries || [];
+    entries.push(...batch);
+    total = result.count ?? entries.length;
+
+    if (batch.length === 0) {
+      break;
+    }
   }
+
+  return entries;
 }
 
 // Function to fetch all blog posts
 export async function getAllBlogs() {
-  const result = await stack
-    .contentType("blog") // Specifying the content type as "blog"
-    .entry() // Accessing the entry
-    .query() // Creating a query
-    .orderByDescending('published_date') // Sort by published date, newest first
-    .find<Blog>(); // Executing the query and expecting a result of type Blog
-
-  if (result.entries) {
-    const entries = result.entries;
-
-    // Fetch author data separately for each blog post
-    for (const entry of entries) {
-      if (entry.author && Array.isArray(entry.author) && entry.author.length > 0) {
-        const authorUid = (entry.author[0] as any).uid || entry.author[0];
-        if (typeof authorUid === 'string') {
-          const authorData = await getAuthorByUid(authorUid);
-          if (authorData) {
-            entry.author = [authorData];
-          }
-        }
-      }
-    }
+  return getContentRepository().get("blog", "all", async () => {
+    const entries = await findAllBlogs();
+
+    // Resolve author references for all blog posts in one batched query
+    await resolveReferences("blog", entries);
 
     if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
       entries.forEach((entry: Blog) => {
@@ -143,252 +168,372 @@ export async function getAllBlogs() {
     }
 
     return entries; // Returning all blog entries
+  });
+}
+
+// Function to fetch one page of blog posts with the total count
+export async function getBlogsPaginated(
+  options: { limit?: number; skip?: number } = {}
+): Promise<PaginatedResult<Blog>> {
+  const limit = Math.min(Math.max(options.limit ?? BLOG_PAGE_SIZE, 1), MAX_QUERY_LIMIT);
+  const skip = Math.max(options.skip ?? 0, 0);
+
+  return getContentRepository().get("blog", { limit, skip }, async () => {
+    const result = await stack
+      .contentType("blog") // Specifying the content type as "blog"
+      .entry() // Accessing the entry
+      .query() // Creating a query
+      .orderByDescending('published_date') // Sort by published date, newest first
+      .limit(limit) // Page size
+      .skip(skip) // Offset into the full result set
+      .includeCount() // Include the total number of matching entries
+      .find<Blog>(); // Executing the query and expecting a result of type Blog
+
+    const entries = result.entries || [];
+    const total = result.count ?? skip + entries.length;
+
+    // Resolve author references for the page in one batched query
+    await resolveReferences("blog", entries);
+
+    if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
+      entries.forEach((entry: Blog) => {
+        contentstack.Utils.addEditableTags(entry, 'blog', true); // Adding editable tags for live preview if enabled
+      });
+    }
+
+    return {
+      entries,
+      total,
+      limit,
+      skip,
+      page: Math.floor(skip / limit) + 1,
+      totalPages: Math.max(Math.ceil(total / limit), 1),
+      hasMore: skip + entries.length < total,
+    };
+  });
+}
+
+// Function to fetch a 1-based page of blog posts
+export async function getBlogsPage(page: number, pageSize: number = BLOG_PAGE_SIZE) {
+  const safePage = Math.max(Math.floor(page) || 1, 1);
+  return getBlogsPaginated({ limit: pageSize, skip: (safePage - 1) * pageSize });
+}
+
+// Fields needed to filter and count blog facets
+const BLOG_FACET_FIELDS = ["uid", "title", "url", "author", "categories_tags", "reading_time", "published_date"];
+
+// Function to fetch the lightweight facet fields of every blog post
+export async function getBlogFacetSource() {
+  return getContentRepository().get("blog", "facet-source", async () => {
+    // Fetching only the fields facets need
+    const entries = await findAllBlogs(BLOG_FACET_FIELDS);
+
+    // Resolve author references so author facets have names
+    await resolveReferences("blog", entries);
+
+    return entries;
+  });
+}
+
+// Function to fetch facet counts for the given filters
+export async function getBlogFacets(filters: BlogFilters): Promise<BlogFacets> {
+  const source = await getBlogFacetSource();
+  return computeBlogFacets(source, filters);
+}
+
+// Function to fetch one page of blog posts matching the given facet filters
+export async function getFilteredBlogs(
+  filters: BlogFilters,
+  options: { limit?: number; skip?: number } = {}
+): Promise<PaginatedResult<Blog>> {
+  // Without filters the Delivery API can paginate for us
+  if (!hasActiveFilters(filters)) {
+    return getBlogsPaginated(options);
   }
-  
-  return [];
+
+  const limit = Math.max(options.limit ?? BLOG_PAGE_SIZE, 1);
+  const skip = Math.max(options.skip ?? 0, 0);
+
+  // Filter the lightweight facet source, then load full entries for just this page
+  const matching = filterBlogs(await getBlogFacetSource(), filters);
+  const pageUids = matching.slice(skip, skip + limit).map((blog) => blog.uid);
+  const pageEntries = await getEntriesByUids<Blog>("blog", pageUids);
+  await resolveReferences("blog", pageEntries);
+
+  // Restore newest-first order, which the UID query does not preserve
+  const entriesByUid = new Map(pageEntries.map((entry) => [entry.uid, entry]));
+  const entries = pageUids
+    .map((uid) => entriesByUid.get(uid))
+    .filter((entry): entry is Blog => !!entry);
+
+  return {
+    entries,
+    total: matching.length,
+    limit,
+    skip,
+    page: Math.floor(skip / limit) + 1,
+    totalPages: Math.max(Math.ceil(matching.length / limit), 1),
+    hasMore: skip + entries.length < matching.length,
+  };
 }
 
 // Function to fetch a single blog post by URL/slug
 export async function getBlogBySlug(slug: string) {
-  // Add leading slash to match Contentstack URL format
-  const urlWithSlash = `/${slug}`;
+  return getContentRepository().get("blog", { slug }, async () => {
+    // Add leading slash to match Contentstack URL format
+    const urlWithSlash = `/${slug}`;
   
-  const result = await stack
-    .contentType("blog") // Specifying the content type as "blog"
-    .entry() // Accessing the entry
-    .query() // Creating a query
-    .where("url", QueryOperation.EQUALS, urlWithSlash) // Filtering entries by URL with leading slash
-    .find<Blog>(); // Executing the query and expecting a result of type Blog
-
-  if (result.entries && result.entries.length > 0) {
-    const entry = result.entries[0]; // Getting the first entry from the result
-
-    // Fetch author data separately
-    if (entry.author && Array.isArray(entry.author) && entry.author.length > 0) {
-      const authorUid = (entry.author[0] as any).uid || entry.author[0];
-      if (typeof authorUid === 'string') {
-        const authorData = await getAuthorByUid(authorUid);
-        if (authorData) {
-          entry.author = [authorData];
-        }
+    const result = await stack
+      .contentType("blog") // Specifying the content type as "blog"
+      .entry() // Accessing the entry
+      .query() // Creating a query
+      .where("url", QueryOperation.EQUALS, urlWithSlash) // Filtering entries by URL with leading slash
+      .find<Blog>(); // Executing the query and expecting a result of type Blog
+
+    if (result.entries && result.entries.length > 0) {
+      const entry = result.entries[0]; // Getting the first entry from the result
+
+      // Resolve author references
+      await resolveReferences("blog", [entry]);
+
+      if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
+        contentstack.Utils.addEditableTags(entry, 'blog', true); // Adding editable tags for live preview if enabled
       }
-    }
 
-    if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
-      contentstack.Utils.addEditableTags(entry, 'blog', true); // Adding editable tags for live preview if enabled
+      return entry; // Returning the fetched entry
     }
-
-    return entry; // Returning the fetched entry
-  }
   
-  return null;
+    return null;
+  });
 }
 
 // Function to fetch all authors
 export async function getAllAuthors() {
-  const result = await stack
-    .contentType("author") // Specifying the content type as "author"
-    .entry() // Accessing the entry
-    .query() // Creating a query
-    .find<Author>(); // Executing the query and expecting a result of type Author
+  return getContentRepository().get("author", "all", async () => {
+    const result = await stack
+      .contentType("author") // Specifying the content type as "author"
+      .entry() // Accessing the entry
+      .query() // Creating a query
+      .find<Author>(); // Executing the query and expecting a result of type Author
 
-  if (result.entries) {
-    const entries = result.entries;
+    if (result.entries) {
+      const entries = result.entries;
 
-    if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
-      entries.forEach((entry: Author) => {
-        contentstack.Utils.addEditableTags(entry, 'author', true); // Adding editable tags for live preview if enabled
-      });
-    }
+      if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
+        entries.forEach((entry: Author) => {
+          contentstack.Utils.addEditableTags(entry, 'author', true); // Adding editable tags for live preview if enabled
+        });
+      }
 
-    return entries; // Returning all author entries
-  }
+      return entries; // Returning all author entries
+    }
   
-  return [];
+    return [];
+  });
 }
 
 // Function to fetch an author by UID
 export async function getAuthorByUid(uid: string) {
-  const result = await stack
-    .contentType("author") // Specifying the content type as "author"
-    .entry(uid) // Accessing the specific entry by UID
-    .fetch<Author>(); // Fetching the entry
+  return getContentRepository().get("author", { uid }, async () => {
+    const result = await stack
+      .contentType("author") // Specifying the content type as "author"
+      .entry(uid) // Accessing the specific entry by UID
+      .fetch<Author>(); // Fetching the entry
 
-  if (result) {
-    if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
-      contentstack.Utils.addEditableTags(result, 'author', true); // Adding editable tags for live preview if enabled
+    if (result) {
+      if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
+        contentstack.Utils.addEditableTags(result, 'author', true); // Adding editable tags for live preview if enabled
+      }
+
+      return result; // Returning the author entry
     }
+  });
+}
+
+// Reference fields per content type, mapped to the content type they point to
+const REFERENCE_FIELDS: Record<string, Record<string, string>> = {
+  blog: {
+    author: "author",
+  },
+};
 
-    return result; // Returning the author entry
+// Maximum number of entries the Delivery API returns per query
+const MAX_QUERY_LIMIT = 100;
+
+// Get the UID from a reference value, which is either a stub ({ uid, _content_type_uid }), a resolved entry or a plain UID
+function getReferenceUid(reference: any): string | null {
+  if (typeof reference === 'string') {
+    return reference;
   }
+  return typeof reference?.uid === 'string' ? reference.uid : null;
+}
+
+// Function to fetch several entries of one content type by UID in a single query
+export async function getEntriesByUids<T extends { uid: string }>(contentTypeUid: string, uids: string[]) {
+  const uniqueUids = [...new Set(uids)].sort();
+  if (uniqueUids.length === 0) {
+    return [];
+  }
+
+  return getContentRepository().get(contentTypeUid, { uids: uniqueUids }, async () => {
+    const entries: T[] = [];
+
+    // Stay under the per-query limit for very large reference sets
+    for (let i = 0; i < uniqueUids.length; i += MAX_QUERY_LIMIT) {
+      const batch = uniqueUids.slice(i, i + MAX_QUERY_LIMIT);
+      const result = await stack
+        .contentType(contentTypeUid) // Specifying the referenced content type
+        .entry() // Accessing the entry
+        .query() // Creating a query
+        .containedIn("uid", batch) // Filtering entries by the collected UIDs
+        .limit(batch.length) // Fetching the whole batch at once
+        .find<T>(); // Executing the query
+
+      entries.push(...(result.entries || []));
+    }
+
+    if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
+      entries.forEach((entry) => {
+        contentstack.Utils.addEditableTags(entry as any, contentTypeUid, true); // Adding editable tags for live preview if enabled
+      });
+    }
+
+    return entries;
+  });
+}
+
+// Function to replace reference stubs with full entries across a whole result set.
+// Collects every referenced UID per field and fetches them with one query per referenced content type.
+export async function resolveReferences<T extends object>(contentTypeUid: string, entries: T[]) {
+  const fields = Object.entries(REFERENCE_FIELDS[contentTypeUid] || {});
+
+  await Promise.all(fields.map(async ([field, referenceContentType]) => {
+    const uids = entries.flatMap((entry) => {
+      const references = (entry as any)[field];
+      return Array.isArray(references) ? references.map(getReferenceUid) : [];
+    }).filter((uid): uid is string => uid !== null);
+
+    if (uids.length === 0) {
+      return;
+    }
+
+    const referencedEntries = await getEntriesByUids<{ uid: string }>(referenceContentType, uids);
+    const entriesByUid = new Map(referencedEntries.map((entry) => [entry.uid, entry]));
+
+    // Stitch resolved entries back in place, keeping the original value for anything not found
+    entries.forEach((entry) => {
+      const references = (entry as any)[field];
+      if (Array.isArray(references)) {
+        (entry as any)[field] = references.map((reference: any) =>
+          entriesByUid.get(getReferenceUid(reference) ?? '') || reference
+        );
+      }
+    });
+  }));
+
+  return entries;
+}
+
+// Check whether any of a blog's authors matches the given UID
+function isBlogByAuthor(blog: Blog, authorUid: string) {
+  return Array.isArray(blog.author) && blog.author.some((author) => getReferenceUid(author) === authorUid);
 }
 
 // Function to fetch blogs by a specific author
 export async function getBlogsByAuthor(authorUid: string) {
   console.log("🔍 Looking for blogs by author:", authorUid);
-  
-  // Get all blogs and manually filter to understand the structure better
-  const allBlogs = await stack
-    .contentType("blog")
-    .entry()
-    .query()
-    .find<Blog>();
-    
-  console.log("📊 Total blogs in system:", allBlogs.entries?.length || 0);
-  
-  if (allBlogs.entries && allBlogs.entries.length > 0) {
-    // Log all unique author UIDs found in blogs
-    const authorUids = allBlogs.entries.map(blog => {
-      if (blog.author && Array.isArray(blog.author) && blog.author.length > 0) {
-        return blog.author[0].uid;
-      }
-      return null;
-    }).filter(Boolean);
-    
-    console.log("🔍 All author UIDs in blogs:", [...new Set(authorUids)]);
-    console.log("🎯 Looking for author UID:", authorUid);
-    
-    // Check if any blogs match our author
-    const matchingBlogs = allBlogs.entries.filter(blog => {
-      if (blog.author && Array.isArray(blog.author) && blog.author.length > 0) {
-        return blog.author[0].uid === authorUid;
-      }
-      return false;
-    });
-    
-    console.log("✅ Manual filter found:", matchingBlogs.length, "blogs");
-    
-    if (matchingBlogs.length > 0) {
-      // Return the manually filtered results
-      const entries = matchingBlogs;
-      
-      // Fetch author data separately for each blog post
-      const authorData = await getAuthorByUid(authorUid);
-      if (authorData) {
-        entries.forEach(entry => {
-          entry.author = [authorData];
-        });
-      }
 
-      if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
-        entries.forEach((entry: Blog) => {
-          contentstack.Utils.addEditableTags(entry, 'blog', true); // Adding editable tags for live preview if enabled
-        });
-      }
+  // Filter the cached, reference-resolved blog list instead of querying again
+  const allBlogs = await getAllBlogs();
+  const matchingBlogs = allBlogs.filter(blog => isBlogByAuthor(blog, authorUid));
 
-      return entries; // Returning blog entries by author
-    }
-  }
-  
-  return [];
+  console.log("✅ Found", matchingBlogs.length, "blogs by author");
+
+  return matchingBlogs; // Returning blog entries by author
+}
+
+// Fields indexed for blog search, with their relevance boosts
+const BLOG_SEARCH_FIELDS: SearchField<Blog>[] = [
+  { name: "title", boost: 5, extract: (blog) => blog.title },
+  { name: "tags", boost: 4, extract: (blog) => blog.categories_tags },
+  { name: "author", boost: 3, extract: (blog) => blog.author?.map((author) => author.title) },
+  { name: "summary", boost: 2, extract: (blog) => blog.summary },
+  { name: "content", boost: 1, extract: (blog) => (blog.content ? stripHtml(blog.content) : undefined) },
+];
+
+// Function to get the blog search index, built once per cached blog list
+export async function getBlogSearchIndex() {
+  return getContentRepository().get("blog", "search-index", async () => {
+    const allBlogs = await getAllBlogs();
+    console.log("🔍 Building search index for", allBlogs.length, "blogs");
+    return new SearchIndex<Blog>(BLOG_SEARCH_FIELDS, allBlogs);
+  });
 }
 
-// Function to search blogs based on a search query
-export async function searchBlogs(searchQuery: string) {
+// Function to search blogs and return ranked results with match details
+export async function searchBlogsRanked(searchQuery: string, options: SearchOptions = {}): Promise<SearchResult<Blog>[]> {
   if (!searchQuery || searchQuery.trim().length === 0) {
     return [];
   }
 
   const trimmedQuery = searchQuery.trim();
   console.log("🔍 Searching for:", trimmedQuery);
-  
-  // Get all blogs and filter manually for more reliable search
-  const allBlogsResult = await stack
-    .contentType("blog")
-    .entry()
-    .query()
-    .orderByDescending('published_date')
-    .find<Blog>();
-
-  if (!allBlogsResult.entries) {
-    return [];
-  }
-
-  const allBlogs = allBlogsResult.entries;
-  console.log("📊 Total blogs to search:", allBlogs.length);
 
-  // Manual search through blog content
-  const matchingBlogs = allBlogs.filter(blog => {
-    const query = trimmedQuery.toLowerCase();
-    
-    // Search in title
-    if (blog.title && blog.title.toLowerCase().includes(query)) {
-      return true;
-    }
-    
-    // Search in summary
-    if (blog.summary && blog.summary.toLowerCase().includes(query)) {
-      return true;
-    }
-    
-    // Search in content
-    if (blog.content && blog.content.toLowerCase().includes(query)) {
-      return true;
-    }
-    
-    // Search in tags
-    if (blog.categories_tags && Array.isArray(blog.categories_tags)) {
-      return blog.categories_tags.some(tag => 
-        tag.toLowerCase().includes(query)
-      );
-    }
-    
-    return false;
-  });
+  const index = await getBlogSearchIndex();
+  const results = index.search(trimmedQuery, options);
 
-  console.log("✅ Content search found:", matchingBlogs.length, "blogs");
+  console.log("🎯 Search found:", results.length, "results");
 
-  // Search for blogs by author name
-  const allAuthors = await getAllAuthors();
-  const matchingAuthors = allAuthors.filter(author => 
-    author.title.toLowerCase().includes(trimmedQuery.toLowerCase())
-  );
+  return results;
+}
 
-  console.log("👤 Found", matchingAuthors.length, "matching authors");
+// Function to search blogs based on a search query, most relevant first
+export async function searchBlogs(searchQuery: string, options: SearchOptions = {}) {
+  const results = await searchBlogsRanked(searchQuery, options);
+  return results.map((result) => result.document);
+}
 
-  const blogsByAuthors = [];
-  for (const author of matchingAuthors) {
-    const authorBlogs = await getBlogsByAuthor(author.uid);
-    blogsByAuthors.push(...authorBlogs);
-  }
+// Maximum suggestions of each type returned for a query
+const SUGGESTION_LIMITS: Record<SearchSuggestion["type"], number> = {
+  tag: 3,
+  author: 2,
+  post: 5,
+};
 
-  console.log("📝 Author blogs found:", blogsByAuthors.length);
-
-  // Combine and deduplicate results
-  const allResults = [...matchingBlogs, ...blogsByAuthors];
-  const uniqueResults = allResults.filter((blog, index, self) => 
-    index === self.findIndex(b => b.uid === blog.uid)
-  );
-
-  console.log("🎯 Final unique results:", uniqueResults.length);
-
-  // Enrich with author data
-  const enrichedResults = [];
-  for (const blog of uniqueResults) {
-    if (blog.author && Array.isArray(blog.author) && blog.author.length > 0) {
-      const authorUid = (blog.author[0] as any).uid || blog.author[0];
-      if (typeof authorUid === 'string') {
-        const authorData = await getAuthorByUid(authorUid);
-        if (authorData) {
-          blog.author = [authorData];
-        }
-      }
-    }
-    enrichedResults.push(blog);
+// Function to get typeahead suggestions (tags, authors and post titles) for a partial query
+export async function getSearchSuggestions(searchQuery: string, limit: number = 8): Promise<SearchSuggestion[]> {
+  const trimmedQuery = searchQuery.trim();
+  if (trimmedQuery.length < 2) {
+    return [];
   }
 
-  // Sort by published date
-  enrichedResults.sort((a, b) => {
-    const dateA = new Date(a.published_date || 0).getTime();
-    const dateB = new Date(b.published_date || 0).getTime();
-    return dateB - dateA;
-  });
-
-  if (process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true') {
-    enrichedResults.forEach((entry: Blog) => {
-      contentstack.Utils.addEditableTags(entry, 'blog', true);
-    });
+  const source = await getBlogFacetSource();
+  const facets = computeBlogFacets(source, createEmptyFilters());
+
+  const candidates: (SearchSuggestion & { score: number })[] = [
+    ...facets.tags.map((facet) => ({ type: "tag" as const, label: facet.label, value: facet.value, count: facet.count })),
+    ...facets.authors.map((facet) => ({ type: "author" as const, label: facet.label, value: facet.value, count: facet.count })),
+    ...source.map((blog) => ({
+      type: "post" as const,
+      label: blog.title,
+      value: blog.url?.startsWith('/') ? blog.url.slice(1) : blog.url,
+    })),
+  ]
+    .map((suggestion) => ({ ...suggestion, score: scoreSuggestion(suggestion.label, trimmedQuery) }))
+    .filter((suggestion) => suggestion.score > 0);
+
+  // Best match first, then the most used tags and authors
+  candidates.sort((a, b) => b.score - a.score || (b.count || 0) - (a.count || 0));
+
+  const perType: Record<SearchSuggestion["type"], number> = { tag: 0, author: 0, post: 0 };
+  const suggestions: SearchSuggestion[] = [];
+
+  for (const { score, ...suggestion } of candidates) {
+    if (suggestions.length >= limit) break;
+    if (perType[suggestion.type] >= SUGGESTION_LIMITS[suggestion.type]) continue;
+    perType[suggestion.type] += 1;
+    suggestions.push(suggestion);
   }
 
-  return enrichedResults;
-}
\ No newline at end of file
+  return suggestions;
+}
@@ -0,0 +1,190 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyProviderEvent,
+  classifyEvent,
+  getProviderEventId,
+  ProviderEvent,
+  verifyEventWebhookRequest,
+  verifySendGridSignature,
+} from './email-events';
+import { DEFAULT_PREFERENCES } from './subscriber-preferences';
+import type {
+  CreateSubscriberInput,
+  NewsletterSubscriber,
+  SubscriberStore,
+  SubscriberUpdate,
+} from './subscriber-store';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+const BODY = JSON.stringify([{ email: 'reader@example.com', event: 'bounce', timestamp: 1760000000 }]);
+
+function signEvents(rawBody: string, timestamp: string): string {
+  return sign('sha256', Buffer.from(timestamp + rawBody, 'utf8'), privateKey).toString('base64');
+}
+
+function event(overrides: Partial<ProviderEvent>): ProviderEvent {
+  return { email: 'reader@example.com', event: 'delivered', timestamp: 1760000000, ...overrides };
+}
+
+/**
+ * Just enough of a subscriber store to apply events against
+ */
+class MemorySubscriberStore implements SubscriberStore {
+  subscribers = new Map<string, NewsletterSubscriber>();
+
+  async findById(id: string) {
+    return this.subscribers.get(id) || null;
+  }
+
+  async findByEmail(email: string) {
+    return [...this.subscribers.values()].find(subscriber => subscriber.email === email) || null;
+  }
+
+  async create(input: CreateSubscriberInput) {
+    const now = new Date().toISOString();
+    const subscriber: NewsletterSubscriber = {
+      id: `sub-${this.subscribers.size + 1}`,
+      email: input.email,
+      status: input.status || 'active',
+      source: input.source,
+      subscribed_at: now,
+      updated_at: now,
+      preferences: DEFAULT_PREFERENCES,
+    };
+    this.subscribers.set(subscriber.id, subscriber);
+    return subscriber;
+  }
+
+  async update(id: string, changes: SubscriberUpdate) {
+    const subscriber = { ...this.subscribers.get(id)!, ...changes };
+    this.subscribers.set(id, subscriber);
+    return subscriber;
+  }
+
+  async list() {
+    return [...this.subscribers.values()];
+  }
+}
+
+describe('verifySendGridSignature', () => {
+  const timestamp = '1760000000';
+
+  it('accepts an ECDSA signature over timestamp + body', () => {
+    expect(verifySendGridSignature(BODY, signEvents(BODY, timestamp), timestamp, PUBLIC_KEY)).toBe(true);
+  });
+
+  it('rejects a changed body or timestamp, and garbage input', () => {
+    const signature = signEvents(BODY, timestamp);
+    expect(verifySendGridSignature(`${BODY} `, signature, timestamp, PUBLIC_KEY)).toBe(false);
+    expect(verifySendGridSignature(BODY, signature, '1760000001', PUBLIC_KEY)).toBe(false);
+    expect(verifySendGridSignature(BODY, 'not-a-signature', timestamp, PUBLIC_KEY)).toBe(false);
+    expect(verifySendGridSignature(BODY, signature, timestamp, 'not-a-key')).toBe(false);
+  });
+});
+
+describe('verifyEventWebhookRequest', () => {
+  it('passes a signed, fresh delivery', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    expect(verifyEventWebhookRequest(BODY, signEvents(BODY, timestamp), timestamp, { publicKey: PUBLIC_KEY }))
+      .toEqual({ valid: true });
+  });
+
+  it('reports why a delivery was rejected', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = signEvents(BODY, timestamp);
+    const stale = String(Math.floor(Date.now() / 1000) - 60 * 60);
+
+    expect(verifyEventWebhookRequest(BODY, signature, timestamp, { publicKey: '' }).reason).toBe('missing_secret');
+    expect(verifyEventWebhookRequest(BODY, null, timestamp, { publicKey: PUBLIC_KEY }).reason).toBe('missing_signature');
+    expect(verifyEventWebhookRequest(BODY, signature, null, { publicKey: PUBLIC_KEY }).reason).toBe('missing_signature');
+    expect(verifyEventWebhookRequest(`${BODY} `, signature, timestamp, { publicKey: PUBLIC_KEY }).reason)
+      .toBe('invalid_signature');
+    expect(verifyEventWebhookRequest(BODY, signEvents(BODY, stale), stale, { publicKey: PUBLIC_KEY }).reason)
+      .toBe('stale_timestamp');
+  });
+});
+
+describe('classifyEvent', () => {
+  it('suppresses hard bounces but not temporary blocks', () => {
+    expect(classifyEvent(event({ event: 'bounce', type: 'bounce' }))).toEqual({ type: 'suppress', reason: 'bounce' });
+    expect(classifyEvent(event({ event: 'bounce', type: 'blocked' }))).toEqual({ type: 'ignore' });
+  });
+
+  it('suppresses drops only when the address itself is unusable', () => {
+    expect(classifyEvent(event({ event: 'dropped', reason: 'Bounced Address' })))
+      .toEqual({ type: 'suppress', reason: 'bounce' });
+    expect(classifyEvent(event({ event: 'dropped', reason: 'Spam Reporting Address' })))
+      .toEqual({ type: 'suppress', reason: 'spamreport' });
+    expect(classifyEvent(event({ event: 'dropped', reason: 'Invalid' })))
+      .toEqual({ type: 'suppress', reason: 'dropped' });
+    expect(classifyEvent(event({ event: 'dropped', reason: ' invalid email address ' })))
+      .toEqual({ type: 'suppress', reason: 'dropped' });
+  });
+
+  it('only logs drops unrelated to the recipient', () => {
+    for (const reason of ['Invalid SMTPAPI header', 'Spam Content', 'Recipient List over Package Quota', undefined]) {
+      expect(classifyEvent(event({ event: 'dropped', reason }))).toEqual({ type: 'log' });
+    }
+  });
+
+  it('suppresses spam reports, unsubscribes opt-outs and ignores the rest', () => {
+    expect(classifyEvent(event({ event: 'spamreport' }))).toEqual({ type: 'suppress', reason: 'spamreport' });
+    expect(classifyEvent(event({ event: 'unsubscribe' }))).toEqual({ type: 'unsubscribe' });
+    expect(classifyEvent(event({ event: 'group_unsubscribe' }))).toEqual({ type: 'unsubscribe' });
+    expect(classifyEvent(event({ event: 'delivered' }))).toEqual({ type: 'ignore' });
+    expect(classifyEvent(event({ event: 'open' }))).toEqual({ type: 'ignore' });
+  });
+});
+
+describe('getProviderEventId', () => {
+  it('prefers the provider event ID', () => {
+    expect(getProviderEventId(event({ sg_event_id: 'abc' }))).toBe('abc');
+    expect(getProviderEventId(event({ event: 'bounce' }))).toBe('bounce:reader@example.com:1760000000');
+  });
+});
+
+describe('applyProviderEvent', () => {
+  let store: MemorySubscriberStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    store = new MemorySubscriberStore();
+    await store.create({ email: 'reader@example.com', source: 'website' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('suppresses the subscriber with the reason and event time', async () => {
+    expect(await applyProviderEvent(store, event({ event: 'dropped', reason: 'Bounced Address' }))).toBe('suppressed');
+
+    const subscriber = await store.findByEmail('reader@example.com');
+    expect(subscriber).toMatchObject({
+      status: 'suppressed',
+      suppression_reason: 'bounce',
+      suppressed_at: new Date(1760000000 * 1000).toISOString(),
+    });
+  });
+
+  it('leaves the subscriber alone for drops unrelated to the address', async () => {
+    expect(await applyProviderEvent(store, event({ event: 'dropped', reason: 'Spam Content' }))).toBe('logged');
+    expect((await store.findByEmail('reader@example.com'))?.status).toBe('active');
+  });
+
+  it('does not let an unsubscribe lift a suppression', async () => {
+    await applyProviderEvent(store, event({ event: 'spamreport' }));
+    expect(await applyProviderEvent(store, event({ event: 'unsubscribe' }))).toBe('unchanged');
+    expect((await store.findByEmail('reader@example.com'))?.status).toBe('suppressed');
+  });
+
+  it('unsubscribes active subscribers and skips unknown addresses', async () => {
+    expect(await applyProviderEvent(store, event({ event: 'unsubscribe' }))).toBe('unsubscribed');
+    expect((await store.findByEmail('reader@example.com'))?.status).toBe('inactive');
+    expect(await applyProviderEvent(store, event({ event: 'bounce', email: 'nobody@example.com' })))
+      .toBe('unknown_subscriber');
+  });
+});
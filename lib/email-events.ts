@@ -0,0 +1,160 @@
+/**
+ * Email Provider Events
+ * Verifies SendGrid Event Webhook deliveries and turns bounce, dropped, spam
+ * report and unsubscribe events into subscriber status changes. Bounces and
+ * complaints suppress an address for good, as do drops for a bad address; other
+ * drops (message content, account settings) are only logged. Provider
+ * unsubscribes behave like our own unsubscribe link.
+ * Server-only - uses node:crypto and the subscriber store.
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { isTimestampFresh, WebhookVerification } from './webhook-security';
+import { SubscriberStore, SuppressionReason } from './subscriber-store';
+
+export interface ProviderEvent {
+  email: string;
+  event: string;                       // 'bounce', 'dropped', 'spamreport', 'unsubscribe', 'delivered', ...
+  timestamp: number;                   // Unix seconds
+  sg_event_id?: string;
+  sg_message_id?: string;
+  type?: string;                       // For 'bounce': 'bounce' (hard) or 'blocked' (temporary)
+  reason?: string;                     // For 'dropped': why SendGrid refused to send, e.g. 'Bounced Address'
+}
+
+export type EventAction =
+  | { type: 'suppress'; reason: SuppressionReason }
+  | { type: 'unsubscribe' }
+  | { type: 'log' }                      // Worth recording, but says nothing about the address
+  | { type: 'ignore' };
+
+export type EventOutcome = 'suppressed' | 'unsubscribed' | 'unchanged' | 'unknown_subscriber' | 'logged' | 'ignored';
+
+// Drop reasons that mean the address itself is unusable. SendGrid also drops for
+// reasons unrelated to the recipient ('Invalid SMTPAPI header', 'Spam Content',
+// 'Recipient List over Package Quota'), which must not suppress anyone.
+const SUPPRESSING_DROP_REASONS: { pattern: RegExp; reason: SuppressionReason }[] = [
+  { pattern: /^bounced address$/i, reason: 'bounce' },
+  { pattern: /^spam reporting address$/i, reason: 'spamreport' },
+  { pattern: /^invalid( (email )?address)?$/i, reason: 'dropped' },
+];
+
+// Accept deliveries up to 10 minutes old; SendGrid batches events before posting
+const DEFAULT_TOLERANCE_SECONDS = 10 * 60;
+
+/**
+ * Check SendGrid's ECDSA signature over timestamp + raw body. The public key is the
+ * base64 value shown in SendGrid's Mail Settings > Signed Event Webhook.
+ */
+export function verifySendGridSignature(rawBody: string, signature: string, timestamp: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return verify('sha256', Buffer.from(timestamp + rawBody, 'utf8'), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify an event webhook request: signature first, then the signed timestamp
+ */
+export function verifyEventWebhookRequest(
+  rawBody: string,
+  signature: string | null,
+  timestamp: string | null,
+  options: { publicKey?: string; toleranceSeconds?: number } = {}
+): WebhookVerification {
+  const publicKey = options.publicKey ?? process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+  const toleranceSeconds = options.toleranceSeconds ??
+    (Number(process.env.SENDGRID_WEBHOOK_TOLERANCE_SECONDS) || DEFAULT_TOLERANCE_SECONDS);
+
+  if (!publicKey) {
+    return { valid: false, reason: 'missing_secret' };
+  }
+  if (!signature || !timestamp) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+  if (!verifySendGridSignature(rawBody, signature, timestamp, publicKey)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+  if (!isTimestampFresh(timestamp, toleranceSeconds)) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Decide what an event means for the subscriber
+ */
+export function classifyEvent(event: ProviderEvent): EventAction {
+  switch (event.event) {
+    case 'bounce':
+      // 'blocked' bounces are temporary (greylisting, full mailbox) - the address still works
+      return event.type === 'blocked' ? { type: 'ignore' } : { type: 'suppress', reason: 'bounce' };
+    case 'dropped': {
+      const match = SUPPRESSING_DROP_REASONS.find(({ pattern }) => pattern.test((event.reason || '').trim()));
+      return match ? { type: 'suppress', reason: match.reason } : { type: 'log' };
+    }
+    case 'spamreport':
+      return { type: 'suppress', reason: 'spamreport' };
+    case 'unsubscribe':
+    case 'group_unsubscribe':
+      return { type: 'unsubscribe' };
+    default:
+      return { type: 'ignore' };
+  }
+}
+
+/**
+ * Identify an event so redeliveries are applied once
+ */
+export function getProviderEventId(event: ProviderEvent): string {
+  return event.sg_event_id || `${event.event}:${event.email}:${event.timestamp}`;
+}
+
+/**
+ * Apply one event to the subscriber store. Suppression wins over everything: a
+ * suppressed address stays suppressed even if an unsubscribe event arrives later.
+ */
+export async function applyProviderEvent(store: SubscriberStore, event: ProviderEvent): Promise<EventOutcome> {
+  const action = classifyEvent(event);
+  if (action.type === 'ignore' || !event.email) {
+    return 'ignored';
+  }
+  if (action.type === 'log') {
+    console.warn(`⚠️ Email to ${event.email} was ${event.event}: ${event.reason || 'no reason given'}`);
+    return 'logged';
+  }
+
+  const subscriber = await store.findByEmail(event.email);
+  if (!subscriber) {
+    return 'unknown_subscriber';
+  }
+
+  const eventTime = Number.isFinite(event.timestamp)
+    ? new Date(event.timestamp * 1000).toISOString()
+    : new Date().toISOString();
+
+  if (action.type === 'suppress') {
+    if (subscriber.status === 'suppressed') {
+      return 'unchanged';
+    }
+
+    await store.update(subscriber.id, {
+      status: 'suppressed',
+      suppressed_at: eventTime,
+      suppression_reason: action.reason,
+    });
+    console.warn(`🚫 Suppressed ${subscriber.email}: ${action.reason}${event.reason ? ` (${event.reason})` : ''}`);
+    return 'suppressed';
+  }
+
+  if (subscriber.status === 'inactive' || subscriber.status === 'suppressed') {
+    return 'unchanged';
+  }
+
+  await store.update(subscriber.id, { status: 'inactive', unsubscribed_at: eventTime });
+  console.log(`Unsubscribed via provider: ${subscriber.email} at ${eventTime}`);
+  return 'unsubscribed';
+}
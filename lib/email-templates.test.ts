@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { EMAIL_TEMPLATE_NAMES, html, isEmailTemplateName, raw } from './email-templates';
+
+describe('isEmailTemplateName', () => {
+  it('accepts the defined templates', () => {
+    for (const name of EMAIL_TEMPLATE_NAMES) {
+      expect(isEmailTemplateName(name)).toBe(true);
+    }
+  });
+
+  it('rejects inherited object properties', () => {
+    for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'missing']) {
+      expect(isEmailTemplateName(name)).toBe(false);
+    }
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated values unless marked raw', () => {
+    expect(String(html`<p>${'<b>"Tom" & Jerry\'s</b>'}</p>${raw('<hr>')}`))
+      .toBe('<p>&lt;b&gt;&quot;Tom&quot; &amp; Jerry&#39;s&lt;/b&gt;</p><hr>');
+  });
+});
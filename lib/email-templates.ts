@@ -0,0 +1,233 @@
+/**
+ * Email Templates
+ * Named templates for newsletter mail, each with its own subject line, rendered
+ * through a shared layout and partials. Interpolation is HTML-escaped by default
+ * (use `raw()` for trusted markup) and every email gets a generated plain-text part.
+ */
+
+import type { Blog } from './types';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface FooterLinks {
+  preferencesUrl?: string;
+  unsubscribeUrl?: string;
+}
+
+export interface EmailTemplateData {
+  'new-post': { post: Blog; postUrl: string } & FooterLinks;
+  'digest': { posts: { post: Blog; postUrl: string }[] } & FooterLinks;
+  'confirmation': { confirmUrl: string; expiresInHours: number };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+interface EmailTemplate<K extends EmailTemplateName> {
+  subject: (data: EmailTemplateData[K]) => string;
+  body: (data: EmailTemplateData[K]) => SafeHtml;
+  footer: (data: EmailTemplateData[K]) => SafeHtml;
+}
+
+/**
+ * Markup that has already been escaped or is trusted, and is inserted as-is
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Mark trusted markup so `html` doesn't escape it
+ */
+export function raw(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is SafeHtml.
+ * Arrays are joined; null, undefined and false render nothing.
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return raw(strings.reduce((out, string, index) =>
+    out + string + (index < values.length ? renderValue(values[index]) : ''), ''));
+}
+
+/**
+ * Only allow http(s) and mailto links; anything else (javascript:, data:) becomes "#"
+ */
+export function safeUrl(url: string | undefined | null): string {
+  if (!url) return '#';
+  return /^(https?:|mailto:)/i.test(url.trim()) ? url.trim() : '#';
+}
+
+/**
+ * Plain-text alternative derived from the HTML part: links become "label (url)",
+ * block elements become line breaks and entities are decoded
+ */
+export function htmlToText(markup: string): string {
+  return markup
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<img[^>]*>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+      return href === '#' || href === text ? text : `${text} (${href})`;
+    })
+    .replace(/<hr[^>]*>/gi, '\n---\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|li|ul|ol|table|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&(lt|gt|quot|#39|amp);/g, (entity) => ({
+      '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&amp;': '&',
+    })[entity] as string)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Shared page shell: heading area, body and footer
+ */
+function layout(title: string, body: SafeHtml, footer: SafeHtml): SafeHtml {
+  return html`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+    ${body}
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <div style="text-align: center; color: #9ca3af; font-size: 14px;">
+      ${footer}
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+function button(href: string, label: string): SafeHtml {
+  return html`<div style="text-align: center; margin: 30px 0;">
+      <a href="${safeUrl(href)}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">${label}</a>
+    </div>`;
+}
+
+function subscriptionFooter(reason: string, links: FooterLinks): SafeHtml {
+  const items = [
+    links.preferencesUrl && html`<a href="${safeUrl(links.preferencesUrl)}" style="color: #6b7280; text-decoration: underline;">Manage preferences</a>`,
+    links.unsubscribeUrl && html`<a href="${safeUrl(links.unsubscribeUrl)}" style="color: #6b7280; text-decoration: underline;">Unsubscribe</a>`,
+  ].filter((item): item is SafeHtml => !!item);
+
+  return html`<p>${reason}</p>
+      ${items.length > 0 && html`<p>${items.map((item, index) => index === 0 ? item : html` &nbsp;·&nbsp; ${item}`)}</p>`}`;
+}
+
+function bannerImage(post: Blog, height: number): SafeHtml {
+  return html`${post.banner_image?.url && html`<img src="${safeUrl(post.banner_image.url)}" alt="${post.title}" style="width: 100%; height: ${height}px; object-fit: cover; border-radius: 8px; margin-bottom: 20px;">`}`;
+}
+
+function postMeta(post: Blog): string {
+  return [post.author?.[0]?.title, post.reading_time ? `${post.reading_time} min read` : '']
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function postCard({ post, postUrl }: { post: Blog; postUrl: string }): SafeHtml {
+  return html`<div style="background-color: white; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+      ${bannerImage(post, 160)}
+      <h2 style="color: #1f2937; font-size: 20px; margin: 0 0 10px;">
+        <a href="${safeUrl(postUrl)}" style="color: #1f2937; text-decoration: none;">${post.title}</a>
+      </h2>
+      ${post.summary && html`<p style="color: #6b7280; margin: 0 0 10px;">${post.summary}</p>`}
+      <p style="color: #9ca3af; font-size: 14px; margin: 0 0 15px;">${postMeta(post)}</p>
+      <a href="${safeUrl(postUrl)}" style="color: #2563eb; font-weight: bold; text-decoration: none;">Read story →</a>
+    </div>`;
+}
+
+// Templates by name; add a new email by adding its data shape to EmailTemplateData
+const TEMPLATES: { [K in EmailTemplateName]: EmailTemplate<K> } = {
+  'new-post': {
+    subject: ({ post }) => `New Story Published: ${post.title}`,
+    body: ({ post, postUrl }) => html`<h1 style="color: #2563eb; margin-bottom: 20px;">📖 New Story Published!</h1>
+    ${bannerImage(post, 200)}
+    <h2 style="color: #1f2937; margin-bottom: 15px;">${post.title}</h2>
+    ${post.summary && html`<p style="color: #6b7280; font-size: 16px; margin-bottom: 20px;">${post.summary}</p>`}
+    <div style="margin-bottom: 25px;">
+      ${post.author?.[0]?.title && html`<p style="margin: 5px 0; color: #6b7280;"><strong>Author:</strong> ${post.author[0].title}</p>`}
+      ${!!post.reading_time && html`<p style="margin: 5px 0; color: #6b7280;"><strong>Reading Time:</strong> ${post.reading_time} minutes</p>`}
+      ${post.categories_tags && post.categories_tags.length > 0 && html`<p style="margin: 5px 0; color: #6b7280;"><strong>Tags:</strong> ${post.categories_tags.join(', ')}</p>`}
+    </div>
+    ${button(postUrl, 'Read Full Story')}`,
+    footer: (data) => subscriptionFooter("You're receiving this because you subscribed to our newsletter.", data),
+  },
+
+  'digest': {
+    subject: ({ posts }) =>
+      `Your weekly digest: ${posts[0]?.post.title ?? 'New stories'}${posts.length > 1 ? ` and ${posts.length - 1} more` : ''}`,
+    body: ({ posts }) => html`<h1 style="color: #2563eb; margin-bottom: 20px;">📚 Your weekly digest</h1>
+    <p style="color: #6b7280; margin-bottom: 25px;">New stories picked for you this week.</p>
+    ${posts.map(postCard)}`,
+    footer: (data) => subscriptionFooter("You're receiving this weekly digest because you subscribed to our newsletter.", data),
+  },
+
+  'confirmation': {
+    subject: () => 'Please confirm your newsletter subscription',
+    body: ({ confirmUrl }) => html`<h1 style="color: #2563eb; margin-bottom: 20px;">📬 One more step</h1>
+    <p style="color: #1f2937; font-size: 16px;">
+      Thanks for signing up! Please confirm your email address to start receiving new stories.
+    </p>
+    ${button(confirmUrl, 'Confirm Subscription')}`,
+    footer: ({ expiresInHours }) => html`<p>This link expires in ${expiresInHours} hours.</p>
+      <p>If you didn't sign up, you can ignore this email and you won't be subscribed.</p>`,
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(TEMPLATES) as EmailTemplateName[];
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.hasOwn(TEMPLATES, name);
+}
+
+/**
+ * Render a named template to its subject, HTML and plain-text parts
+ */
+export function renderEmail<K extends EmailTemplateName>(name: K, data: EmailTemplateData[K]): RenderedEmail {
+  const template = TEMPLATES[name] as EmailTemplate<K>;
+  const subject = template.subject(data);
+  const markup = layout(subject, template.body(data), template.footer(data)).value;
+
+  return { subject, html: markup, text: htmlToText(markup) };
+}
@@ -0,0 +1,339 @@
+/**
+ * Email Transport
+ * Delivery backends behind one interface. Each send resolves to a per-message
+ * result rather than throwing, so callers can count, report and retry failures.
+ * - SendGridTransport: SendGrid Web API (SENDGRID_API_KEY), batches up to 1000 recipients per request
+ * - SmtpTransport: any SMTP server via nodemailer
+ * - OutboxTransport: writes messages to a local folder, for development and tests
+ * Server-only - uses node:fs and provider credentials.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { MailService } from '@sendgrid/mail';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  from?: string;                       // Defaults to FROM_EMAIL
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * One rendered email sent to many recipients. `{{key}}` placeholders in the
+ * subject, HTML and text are replaced with each recipient's substitutions.
+ */
+export interface EmailBatch {
+  from?: string;
+  subject: string;
+  html: string;
+  text: string;
+  recipients: EmailRecipient[];
+}
+
+export interface EmailRecipient {
+  to: string;
+  substitutions?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+export type SendResult =
+  | { ok: true; to: string; transport: string; messageId?: string }
+  | {
+      ok: false;
+      to: string;
+      transport: string;
+      error: string;
+      retryable: boolean;              // Rate limited, provider 5xx or network failure
+      retryAfterMs?: number;           // Provider's Retry-After, when given
+    };
+
+export interface EmailTransport {
+  readonly name: string;
+  readonly maxBatchSize: number;
+  send(message: EmailMessage): Promise<SendResult>;
+  sendBatch(batch: EmailBatch): Promise<SendResult[]>;   // One result per recipient, in order
+}
+
+export type EmailTransportType = 'sendgrid' | 'smtp' | 'outbox';
+
+type SendFailure = Extract<SendResult, { ok: false }>;
+
+const DEFAULT_OUTBOX_DIR = path.join(process.cwd(), '.data', 'outbox');
+
+// SendGrid accepts up to 1000 personalizations per request
+const SENDGRID_MAX_BATCH = 1000;
+
+// Connection-level errors worth retrying
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ESOCKET', 'ECONNECTION'];
+
+function getDefaultFrom(): string {
+  return process.env.FROM_EMAIL || 'noreply@yourdomain.com';
+}
+
+/**
+ * Replace `{{key}}` placeholders with a recipient's values
+ */
+export function applySubstitutions(content: string, substitutions: Record<string, string> = {}): string {
+  return content.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) =>
+    key in substitutions ? substitutions[key] : placeholder);
+}
+
+/**
+ * Expand a batch into individual messages, for transports without a batch API
+ */
+export function expandBatch(batch: EmailBatch): EmailMessage[] {
+  return batch.recipients.map(recipient => ({
+    to: recipient.to,
+    from: batch.from,
+    subject: applySubstitutions(batch.subject, recipient.substitutions),
+    html: applySubstitutions(batch.html, recipient.substitutions),
+    text: applySubstitutions(batch.text, recipient.substitutions),
+    headers: recipient.headers,
+  }));
+}
+
+/**
+ * Send a batch one message at a time
+ */
+async function sendEach(transport: EmailTransport, batch: EmailBatch): Promise<SendResult[]> {
+  const results: SendResult[] = [];
+  for (const message of expandBatch(batch)) {
+    results.push(await transport.send(message));
+  }
+  return results;
+}
+
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(date - Date.now(), 0) : undefined;
+}
+
+/**
+ * Describe a SendGrid error and decide whether it is worth retrying
+ */
+function toSendGridFailure(error: unknown, to: string): SendFailure {
+  const { code, message, response } = (error || {}) as {
+    code?: number | string;
+    message?: string;
+    response?: { headers?: Record<string, string>; body?: { errors?: { message: string }[] } };
+  };
+  const status = typeof code === 'number' ? code : undefined;
+  const details = response?.body?.errors?.map(providerError => providerError.message).join('; ');
+
+  return {
+    ok: false,
+    to,
+    transport: 'sendgrid',
+    error: details || message || String(error),
+    // No HTTP status means the request never completed
+    retryable: status === undefined ? true : status === 429 || status >= 500,
+    retryAfterMs: parseRetryAfter(response?.headers?.['retry-after']),
+  };
+}
+
+/**
+ * Describe an SMTP error: 4xx replies are temporary, 5xx are permanent
+ */
+function toSmtpFailure(error: unknown, to: string): SendFailure {
+  const { responseCode, code, message } = (error || {}) as { responseCode?: number; code?: string; message?: string };
+
+  return {
+    ok: false,
+    to,
+    transport: 'smtp',
+    error: message || String(error),
+    retryable: responseCode !== undefined
+      ? responseCode >= 400 && responseCode < 500
+      : RETRYABLE_NETWORK_CODES.includes(code || ''),
+  };
+}
+
+/**
+ * SendGrid Web API transport
+ */
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+  readonly maxBatchSize = SENDGRID_MAX_BATCH;
+  private client = new MailService();
+
+  constructor(apiKey: string) {
+    this.client.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    try {
+      const [response] = await this.client.send({ ...message, from: message.from || getDefaultFrom() });
+      return { ok: true, to: message.to, transport: this.name, messageId: response?.headers?.['x-message-id'] };
+    } catch (error) {
+      return toSendGridFailure(error, message.to);
+    }
+  }
+
+  /**
+   * One API request per batch, with a personalization (substitutions and headers) per recipient
+   */
+  async sendBatch(batch: EmailBatch): Promise<SendResult[]> {
+    try {
+      const [response] = await this.client.send({
+        from: batch.from || getDefaultFrom(),
+        subject: batch.subject,
+        html: batch.html,
+        text: batch.text,
+        personalizations: batch.recipients.map(recipient => ({
+          to: [{ email: recipient.to }],
+          substitutions: recipient.substitutions,
+          headers: recipient.headers,
+        })),
+      });
+      const messageId = response?.headers?.['x-message-id'];
+      return batch.recipients.map(recipient => ({ ok: true as const, to: recipient.to, transport: this.name, messageId }));
+    } catch (error) {
+      return batch.recipients.map(recipient => toSendGridFailure(error, recipient.to));
+    }
+  }
+}
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean;                     // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * SMTP transport. The pooled connection is opened on first send.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  readonly maxBatchSize = 50;
+  private transporter: Transporter | null = null;
+
+  constructor(private config: SmtpTransportConfig) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    try {
+      const info = await this.getTransporter().sendMail({ ...message, from: message.from || getDefaultFrom() });
+      return { ok: true, to: message.to, transport: this.name, messageId: info.messageId };
+    } catch (error) {
+      return toSmtpFailure(error, message.to);
+    }
+  }
+
+  sendBatch(batch: EmailBatch): Promise<SendResult[]> {
+    return sendEach(this, batch);
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        pool: true,
+        auth: this.config.user ? { user: this.config.user, pass: this.config.pass } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+}
+
+/**
+ * Writes each message to `<dir>/<timestamp>-<id>.json` (plus an .html copy to open
+ * in a browser) instead of delivering it. Needs no network or credentials.
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+  readonly maxBatchSize = 100;
+
+  constructor(private dir: string = DEFAULT_OUTBOX_DIR) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`;
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      const filePath = path.join(this.dir, `${messageId}.json`);
+      await fs.writeFile(filePath, JSON.stringify({
+        ...message,
+        from: message.from || getDefaultFrom(),
+        created_at: new Date().toISOString(),
+      }, null, 2), 'utf8');
+      await fs.writeFile(path.join(this.dir, `${messageId}.html`), message.html, 'utf8');
+
+      console.log(`📤 Outbox: "${message.subject}" to ${message.to} -> ${filePath}`);
+      return { ok: true, to: message.to, transport: this.name, messageId };
+    } catch (error) {
+      return {
+        ok: false,
+        to: message.to,
+        transport: this.name,
+        error: error instanceof Error ? error.message : String(error),
+        retryable: false,
+      };
+    }
+  }
+
+  sendBatch(batch: EmailBatch): Promise<SendResult[]> {
+    return sendEach(this, batch);
+  }
+}
+
+// Singleton instance
+let emailTransport: EmailTransport | null = null;
+
+/**
+ * Get the configured transport. EMAIL_TRANSPORT selects "sendgrid", "smtp" or
+ * "outbox"; by default SendGrid is used when SENDGRID_API_KEY is set, then SMTP
+ * when SMTP_HOST is set, otherwise the local outbox.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (emailTransport) {
+    return emailTransport;
+  }
+
+  const type = (process.env.EMAIL_TRANSPORT ||
+    (process.env.SENDGRID_API_KEY ? 'sendgrid' : process.env.SMTP_HOST ? 'smtp' : 'outbox')) as EmailTransportType;
+
+  switch (type) {
+    case 'sendgrid':
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error('EMAIL_TRANSPORT=sendgrid requires SENDGRID_API_KEY');
+      }
+      emailTransport = new SendGridTransport(process.env.SENDGRID_API_KEY);
+      break;
+
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      const port = Number(process.env.SMTP_PORT) || 587;
+      emailTransport = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+      break;
+    }
+
+    case 'outbox':
+      emailTransport = new OutboxTransport(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+      break;
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${type}" (expected sendgrid, smtp or outbox)`);
+  }
+
+  console.log(`📧 EmailTransport: Using ${emailTransport.name} transport`);
+  return emailTransport;
+}
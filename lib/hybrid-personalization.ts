@@ -7,6 +7,8 @@ import { getPersonalizationAPI } from './personalization-api';
 import { LyticsIntegration, getLyticsInstance } from './lytics-integration';
 import { PathforaIntegration, getPathforaInstance } from './pathfora-integration';
 import { getUserTopInterests, trackInterestFromBlog } from './user-interests';
+import { isGenuineRead, ReadingMilestone, ReadingSnapshot } from './reading-engagement';
+import { canonicalizeTags, getTagCategory } from './tag-taxonomy';
 
 export interface HybridUserData {
   contentstackUID?: string;
@@ -17,6 +19,15 @@ export interface HybridUserData {
   personalizedContent: any[];
 }
 
+// Latest reading snapshot of a post still open in this tab, kept in case the
+// tab is discarded without a pagehide (common on mobile)
+const PENDING_READ_STORAGE_KEY = 'pending_blog_read';
+
+interface PendingBlogRead {
+  blogData: { uid: string; title: string; tags: string[]; author?: string };
+  snapshot: ReadingSnapshot;
+}
+
 export class HybridPersonalizationManager {
   private contentstackAPI: any;
   private lyticsAPI: LyticsIntegration | null;
@@ -29,16 +40,16 @@ export class HybridPersonalizationManager {
   }
 
   /**
-   * Track blog view in both systems
+   * Track blog view. Reading time, completion and interests are recorded when
+   * the reader leaves the post (see trackBlogRead).
    */
   async trackBlogView(blogData: {
     uid: string;
     title: string;
     tags: string[];
     author?: string;
-    readTime?: number;
   }): Promise<void> {
-    console.log('🔀 Hybrid: Tracking blog view in both systems');
+    console.log('🔀 Hybrid: Tracking blog view');
 
     // Track in Contentstack Personalize
     if (this.contentstackAPI) {
@@ -50,17 +61,74 @@ export class HybridPersonalizationManager {
       }
     }
 
-    // Track in Lytics
+    // Lytics records the page view itself; engagement follows in trackBlogRead
+  }
+
+  /**
+   * Track a scroll-depth milestone (25/50/75/100%) while a post is being read
+   */
+  async trackReadingMilestone(
+    blogData: { uid: string; title: string; tags: string[] },
+    milestone: ReadingMilestone,
+    snapshot: ReadingSnapshot
+  ): Promise<void> {
+    await this.trackCustomEvent('reading_progress', {
+      content_uid: blogData.uid,
+      content_title: blogData.title,
+      content_tags: blogData.tags,
+      milestone,
+      active_seconds: snapshot.activeSeconds,
+    });
+  }
+
+  /**
+   * Keep the reading progress of the open post without reporting it, so
+   * flushPendingBlogRead() can report it if the tab is discarded before the
+   * reader leaves. Replaced by each new snapshot and cleared by trackBlogRead.
+   */
+  saveBlogReadSnapshot(blogData: PendingBlogRead['blogData'], snapshot: ReadingSnapshot): void {
+    try {
+      sessionStorage.setItem(PENDING_READ_STORAGE_KEY, JSON.stringify({ blogData, snapshot }));
+    } catch (error) {
+      console.warn('🔀 Hybrid: Could not save reading snapshot:', error);
+    }
+  }
+
+  /**
+   * Report a read saved by saveBlogReadSnapshot() whose page went away without
+   * finishing it
+   */
+  flushPendingBlogRead(): void {
+    let pending: PendingBlogRead | null = null;
+    try {
+      pending = JSON.parse(sessionStorage.getItem(PENDING_READ_STORAGE_KEY) || 'null');
+    } catch {
+      sessionStorage.removeItem(PENDING_READ_STORAGE_KEY);
+    }
+
+    if (pending?.blogData && pending.snapshot) {
+      this.trackBlogRead(pending.blogData, pending.snapshot);
+    }
+  }
+
+  /**
+   * Record how a post was read once the reader leaves it. Only genuine reads
+   * (enough active time and scroll depth) update the interest profile.
+   */
+  trackBlogRead(blogData: PendingBlogRead['blogData'], snapshot: ReadingSnapshot): void {
+    sessionStorage.removeItem(PENDING_READ_STORAGE_KEY);
+    const genuine = isGenuineRead(snapshot);
+
     if (this.lyticsAPI) {
       try {
-        const userInterests = getUserTopInterests();
         this.lyticsAPI.trackBlogEngagement({
           uid: blogData.uid,
           title: blogData.title,
           tags: blogData.tags,
           author: blogData.author,
-          readTime: blogData.readTime,
-          userInterests: userInterests
+          readTime: snapshot.activeSeconds,
+          completion: Math.round(snapshot.scrollDepth * 100),
+          userInterests: getUserTopInterests()
         });
         console.log('✅ Hybrid: Lytics blog engagement tracked');
       } catch (error) {
@@ -69,8 +137,8 @@ export class HybridPersonalizationManager {
     }
 
     // Update local interest tracking
-    if (blogData.tags && blogData.tags.length > 0) {
-      trackInterestFromBlog(blogData.tags, blogData.uid);
+    if (genuine && blogData.tags && blogData.tags.length > 0) {
+      trackInterestFromBlog(blogData.tags, blogData.uid, snapshot);
     }
   }
 
@@ -268,7 +336,7 @@ export class HybridPersonalizationManager {
             timeOnPage: 60000 // 1 minute
           }
         }, () => {
-          window.location.href = '/blog?search=javascript&level=advanced';
+          window.location.href = '/blog?tag=javascript&level=advanced';
         });
       }
 
@@ -284,7 +352,7 @@ export class HybridPersonalizationManager {
             pageViews: 1
           }
         }, () => {
-          window.location.href = `/blog?search=${encodeURIComponent(interests[0])}`;
+          window.location.href = `/blog?tag=${encodeURIComponent(interests[0])}`;
         });
       }
 
@@ -340,14 +408,15 @@ export class HybridPersonalizationManager {
    * Determine user type based on interests and engagement
    */
   private getUserType(interests: string[], engagementScore: number): string {
-    const hasDatabase = interests.some(i => ['database', 'postgresdb', 'mongodb', 'redis', 'sql'].includes(i.toLowerCase()));
-    const hasFrontend = interests.some(i => ['frontend', 'react', 'vue', 'angular', 'javascript'].includes(i.toLowerCase()));
-    const hasBackend = interests.some(i => ['backend', 'node', 'python', 'java', 'api'].includes(i.toLowerCase()));
+    const categories = new Set(interests.map(getTagCategory));
+    const hasDatabase = categories.has('database');
+    const hasFrontend = categories.has('frontend');
+    const hasBackend = categories.has('backend');
     
     if (hasDatabase && hasFrontend && hasBackend) return 'fullstack_developer';
     if (hasDatabase || hasBackend) return 'backend_developer';
     if (hasFrontend) return 'frontend_developer';
-    if (interests.some(i => i.toLowerCase().includes('learning'))) return 'learning_focused';
+    if (categories.has('learning')) return 'learning_focused';
     
     return 'general_developer';
   }
@@ -366,11 +435,12 @@ export class HybridPersonalizationManager {
    */
   private getContentPreferences(interests: string[]): string[] {
     const preferences = [];
+    const categories = new Set(interests.map(getTagCategory));
     
-    if (interests.some(i => i.toLowerCase().includes('tutorial'))) preferences.push('tutorials');
-    if (interests.some(i => ['database', 'sql'].includes(i.toLowerCase()))) preferences.push('database_content');
-    if (interests.some(i => ['frontend', 'react'].includes(i.toLowerCase()))) preferences.push('frontend_content');
-    if (interests.some(i => ['backend', 'api'].includes(i.toLowerCase()))) preferences.push('backend_content');
+    if (canonicalizeTags(interests).includes('tutorial')) preferences.push('tutorials');
+    if (categories.has('database')) preferences.push('database_content');
+    if (categories.has('frontend')) preferences.push('frontend_content');
+    if (categories.has('backend')) preferences.push('backend_content');
     
     return preferences.length > 0 ? preferences : ['general_tech'];
   }
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  buildTagWeights,
+  configureInterestModel,
+  DEFAULT_INTEREST_MODEL,
+  getDecayedScore,
+  getEngagementWeight,
+  scoreTagsAgainstInterests,
+} from './interest-model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+afterEach(() => {
+  configureInterestModel(DEFAULT_INTEREST_MODEL);
+});
+
+describe('getDecayedScore', () => {
+  it('halves a score every half-life', () => {
+    expect(getDecayedScore({ score: 8, lastUpdated: daysAgo(0) }, NOW)).toBe(8);
+    expect(getDecayedScore({ score: 8, lastUpdated: daysAgo(14) }, NOW)).toBeCloseTo(4);
+    expect(getDecayedScore({ score: 8, lastUpdated: daysAgo(28) }, NOW)).toBeCloseTo(2);
+    expect(getDecayedScore({ score: 8, lastUpdated: daysAgo(7) }, NOW)).toBeCloseTo(8 / Math.SQRT2);
+  });
+
+  it('decays negative scores toward zero too', () => {
+    expect(getDecayedScore({ score: -2, lastUpdated: daysAgo(14) }, NOW)).toBeCloseTo(-1);
+  });
+
+  it('follows the configured half-life', () => {
+    configureInterestModel({ halfLifeDays: 7 });
+    expect(getDecayedScore({ score: 8, lastUpdated: daysAgo(14) }, NOW)).toBeCloseTo(2);
+  });
+
+  it('does not grow scores dated in the future and zeroes unreadable dates', () => {
+    expect(getDecayedScore({ score: 3, lastUpdated: daysAgo(-2) }, NOW)).toBe(3);
+    expect(getDecayedScore({ score: 3, lastUpdated: 'not a date' }, NOW)).toBe(0);
+  });
+});
+
+describe('getEngagementWeight', () => {
+  it('counts a view without engagement data at the default weight', () => {
+    expect(getEngagementWeight()).toBe(DEFAULT_INTEREST_MODEL.defaultViewWeight);
+    expect(getEngagementWeight({ expectedReadSeconds: 300 })).toBe(DEFAULT_INTEREST_MODEL.defaultViewWeight);
+  });
+
+  it('ranges from a bounce to a full, attentive read', () => {
+    expect(getEngagementWeight({ activeSeconds: 0, scrollDepth: 0 })).toBe(DEFAULT_INTEREST_MODEL.minViewWeight);
+    expect(getEngagementWeight({ activeSeconds: 600, scrollDepth: 1, expectedReadSeconds: 300 }))
+      .toBe(DEFAULT_INTEREST_MODEL.maxViewWeight);
+  });
+
+  it('weighs reading longer and further more', () => {
+    const skim = getEngagementWeight({ activeSeconds: 30, scrollDepth: 0.3, expectedReadSeconds: 300 });
+    const read = getEngagementWeight({ activeSeconds: 240, scrollDepth: 0.9, expectedReadSeconds: 300 });
+    expect(read).toBeGreaterThan(skim);
+  });
+
+  it('measures dwell against the post estimate, or a default full read', () => {
+    expect(getEngagementWeight({ activeSeconds: 90, scrollDepth: 0, expectedReadSeconds: 90 }))
+      .toBeGreaterThan(getEngagementWeight({ activeSeconds: 90, scrollDepth: 0 }));
+  });
+});
+
+describe('buildTagWeights', () => {
+  const posts = [
+    { categories_tags: ['Common', 'rare'] },
+    { categories_tags: ['common', 'COMMON'] },
+    { categories_tags: ['common', 'uncommon'] },
+    { categories_tags: ['common', 'uncommon'] },
+  ];
+
+  it('down-weights tags found on most posts', () => {
+    const weights = buildTagWeights(posts);
+    expect(weights.get('rare')!).toBeGreaterThan(weights.get('uncommon')!);
+    expect(weights.get('uncommon')!).toBeGreaterThan(weights.get('common')!);
+  });
+
+  it('keeps weights in (0, 1], bounded below by 1 - idfStrength', () => {
+    for (const weight of buildTagWeights(posts).values()) {
+      expect(weight).toBeGreaterThan(1 - DEFAULT_INTEREST_MODEL.idfStrength);
+      expect(weight).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('ignores tag frequency at zero strength', () => {
+    configureInterestModel({ idfStrength: 0 });
+    expect([...buildTagWeights(posts).values()]).toEqual([1, 1, 1]);
+  });
+});
+
+describe('scoreTagsAgainstInterests', () => {
+  const affinities = new Map([['alpha', 1], ['beta', 0.5], ['gamma', -1]]);
+
+  it('adds the affinity of each matching tag once, squashed into [-1, 1]', () => {
+    expect(scoreTagsAgainstInterests(['alpha'], affinities)).toBeCloseTo(Math.tanh(1));
+    expect(scoreTagsAgainstInterests(['Alpha', 'alpha', 'beta'], affinities)).toBeCloseTo(Math.tanh(1.5));
+    expect(scoreTagsAgainstInterests(['delta'], affinities)).toBe(0);
+  });
+
+  it('lets dismissed tags pull a post below zero', () => {
+    expect(scoreTagsAgainstInterests(['gamma'], affinities)).toBeLessThan(0);
+    expect(scoreTagsAgainstInterests(['alpha', 'gamma'], affinities)).toBe(0);
+  });
+
+  it('scales each tag by its weight', () => {
+    const weights = new Map([['alpha', 0.5]]);
+    expect(scoreTagsAgainstInterests(['alpha'], affinities, weights)).toBeCloseTo(Math.tanh(0.5));
+  });
+
+  it('matches synonyms of the canonical tags it is given', () => {
+    const canonical = new Map([['javascript', 1]]);
+    expect(scoreTagsAgainstInterests(['JS', 'JavaScript Tips'], canonical)).toBeCloseTo(Math.tanh(1));
+  });
+
+  it('credits unseen tags with a share of their category affinity', () => {
+    const reactReader = new Map([['react', 1]]);
+    const share = DEFAULT_INTEREST_MODEL.categoryShare;
+
+    expect(scoreTagsAgainstInterests(['vue'], reactReader)).toBeCloseTo(Math.tanh(share));
+    expect(scoreTagsAgainstInterests(['docker'], reactReader)).toBe(0);
+
+    configureInterestModel({ categoryShare: 0 });
+    expect(scoreTagsAgainstInterests(['vue'], reactReader)).toBe(0);
+  });
+
+  it('gives tags the full affinity of a category the reader follows', () => {
+    expect(scoreTagsAgainstInterests(['vue'], new Map([['frontend', 0.5]]))).toBeCloseTo(Math.tanh(0.5));
+  });
+});
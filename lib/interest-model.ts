@@ -0,0 +1,150 @@
+/**
+ * Interest Scoring Model
+ * Pure scoring functions behind the interest profile in lib/user-interests:
+ * - scores decay continuously with a half-life instead of expiring at a cutoff
+ * - a view counts more the longer (and further) the post was actually read
+ * - dismissing a recommendation pushes its tags' scores down, even below zero
+ * - tags found on most posts are down-weighted IDF-style when ranking content
+ * Parameters can be tuned at runtime with configureInterestModel().
+ */
+
+import { canonicalizeTags, getTagCategory } from './tag-taxonomy';
+
+export interface InterestModelConfig {
+  halfLifeDays: number;                // Days for an untouched score to halve
+  pruneThreshold: number;              // Interests whose |decayed score| falls below this are dropped
+  defaultViewWeight: number;           // Weight of a view without engagement data
+  minViewWeight: number;               // Weight of a bounce (no dwell, no scroll)
+  maxViewWeight: number;               // Weight of a full, attentive read
+  fullReadSeconds: number;             // Active time that counts as a full read when the post has no estimate
+  dwellShare: number;                  // 0-1: how much of the engagement weight comes from dwell time vs scroll depth
+  dismissalPenalty: number;            // Subtracted from each tag of a dismissed post
+  idfStrength: number;                 // 0 = ignore tag frequency, 1 = full IDF down-weighting
+  categoryShare: number;               // Share of a category's affinity credited to an unseen tag in it
+}
+
+export interface ReadingEngagement {
+  activeSeconds?: number;              // Visible, focused time on the post
+  scrollDepth?: number;                // 0-1, furthest point reached
+  expectedReadSeconds?: number;        // Estimated read time of the post, if known
+}
+
+export interface ScoredInterest {
+  score: number;
+  lastUpdated: string;
+}
+
+export const DEFAULT_INTEREST_MODEL: InterestModelConfig = {
+  halfLifeDays: 14,
+  pruneThreshold: 0.05,
+  defaultViewWeight: 1,
+  minViewWeight: 0.25,
+  maxViewWeight: 2,
+  fullReadSeconds: 180,
+  dwellShare: 0.6,
+  dismissalPenalty: 1.5,
+  idfStrength: 0.7,
+  categoryShare: 0.3,
+};
+
+let modelConfig: InterestModelConfig = { ...DEFAULT_INTEREST_MODEL };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Override model parameters (unspecified ones keep their current value)
+ */
+export function configureInterestModel(overrides: Partial<InterestModelConfig>): InterestModelConfig {
+  modelConfig = { ...modelConfig, ...overrides };
+  return modelConfig;
+}
+
+export function getInterestModelConfig(): InterestModelConfig {
+  return modelConfig;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * An interest's score as of `now`, after exponential decay since its last update
+ */
+export function getDecayedScore(interest: ScoredInterest, now: number = Date.now()): number {
+  const elapsedDays = Math.max(now - Date.parse(interest.lastUpdated), 0) / DAY_MS;
+  if (!Number.isFinite(elapsedDays)) {
+    return 0;
+  }
+  return interest.score * Math.pow(0.5, elapsedDays / modelConfig.halfLifeDays);
+}
+
+/**
+ * How much a single view should add to each of the post's tags
+ */
+export function getEngagementWeight(engagement?: ReadingEngagement): number {
+  if (!engagement || (engagement.activeSeconds === undefined && engagement.scrollDepth === undefined)) {
+    return modelConfig.defaultViewWeight;
+  }
+
+  const expectedSeconds = engagement.expectedReadSeconds || modelConfig.fullReadSeconds;
+  const dwell = clamp((engagement.activeSeconds ?? 0) / expectedSeconds, 0, 1);
+  const scroll = clamp(engagement.scrollDepth ?? dwell, 0, 1);
+  const engagementLevel = modelConfig.dwellShare * dwell + (1 - modelConfig.dwellShare) * scroll;
+
+  return modelConfig.minViewWeight + (modelConfig.maxViewWeight - modelConfig.minViewWeight) * engagementLevel;
+}
+
+/**
+ * Per-tag weights in (0, 1] from how many posts in `content` carry each tag.
+ * Tags on every post approach 1 - idfStrength; rare tags stay near 1.
+ */
+export function buildTagWeights(content: { categories_tags?: string[] }[]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  for (const item of content) {
+    for (const tag of canonicalizeTags(item.categories_tags || [])) {
+      documentFrequency.set(tag, (documentFrequency.get(tag) || 0) + 1);
+    }
+  }
+
+  // Smoothed IDF, scaled so an unseen tag has weight 1
+  const total = content.length;
+  const maxIdf = Math.log(total + 1) + 1;
+  const weights = new Map<string, number>();
+
+  for (const [tag, frequency] of documentFrequency) {
+    const idf = Math.log((total + 1) / (frequency + 1)) + 1;
+    weights.set(tag, 1 - modelConfig.idfStrength + modelConfig.idfStrength * (idf / maxIdf));
+  }
+  return weights;
+}
+
+/**
+ * Relevance of a post in [-1, 1]: its tags' affinities (decayed score relative to
+ * the reader's strongest interest), weighted by tag rarity and squashed with tanh.
+ * A tag the reader has no score for takes the affinity for its category if there
+ * is one ("frontend" covers "react"), else a share of the affinity for the other tags
+ * in that category, so a "react" reader sees some relevance in "vue" posts.
+ * `affinities` is keyed by canonical tag.
+ */
+export function scoreTagsAgainstInterests(
+  tags: string[],
+  affinities: Map<string, number>,
+  tagWeights?: Map<string, number>
+): number {
+  const categoryAffinities = new Map<string, number>();
+  for (const [tag, affinity] of affinities) {
+    const category = getTagCategory(tag);
+    if (category && category !== tag) {
+      categoryAffinities.set(category, (categoryAffinities.get(category) || 0) + affinity);
+    }
+  }
+
+  let raw = 0;
+  for (const tag of canonicalizeTags(tags)) {
+    const category = getTagCategory(tag);
+    const categoryAffinity = category
+      ? affinities.get(category) ?? clamp(categoryAffinities.get(category) ?? 0, -1, 1) * modelConfig.categoryShare
+      : 0;
+    const affinity = affinities.get(tag) ?? categoryAffinity;
+    raw += affinity * (tagWeights?.get(tag) ?? 1);
+  }
+  return Math.tanh(raw);
+}
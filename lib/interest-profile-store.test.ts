@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createAnonymousProfileKey,
+  createProfileCookieValue,
+  FileInterestProfileStore,
+  getEmailProfileKey,
+  getUidProfileKey,
+  isValidPersonalizeUid,
+  readProfileCookieValue,
+} from './interest-profile-store';
+import { normalizeInterestProfile } from './user-interests';
+
+const interest = (tag: string, lastUpdated: string) => ({ tag, score: 2, viewCount: 1, lastUpdated });
+
+describe('profile keys', () => {
+  it('keys a verified email by a hash that ignores case and whitespace', () => {
+    const key = getEmailProfileKey('Reader@Example.com ');
+    expect(key).toBe(getEmailProfileKey('reader@example.com'));
+    expect(key).toMatch(/^email_[0-9a-f]{64}$/);
+    expect(key).not.toContain('reader');
+  });
+
+  it('keeps UID, email and anonymous keys apart', () => {
+    expect(getUidProfileKey('abc-123')).toBe('uid_abc-123');
+    expect(createAnonymousProfileKey()).toMatch(/^anon_[0-9a-f-]{36}$/);
+    expect(createAnonymousProfileKey()).not.toBe(createAnonymousProfileKey());
+  });
+
+  it('accepts only URL-safe Personalize UIDs', () => {
+    expect(isValidPersonalizeUid('0a1b2c3d-e4f5')).toBe(true);
+    expect(isValidPersonalizeUid('')).toBe(false);
+    expect(isValidPersonalizeUid('uid.with.dots')).toBe(false);
+    expect(isValidPersonalizeUid(42)).toBe(false);
+  });
+});
+
+describe('profile cookie', () => {
+  const original = process.env.NEWSLETTER_TOKEN_SECRET;
+
+  beforeEach(() => {
+    process.env.NEWSLETTER_TOKEN_SECRET = 'test-token-secret';
+  });
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.NEWSLETTER_TOKEN_SECRET;
+    } else {
+      process.env.NEWSLETTER_TOKEN_SECRET = original;
+    }
+  });
+
+  it('reads back the key it was issued for', () => {
+    const key = getEmailProfileKey('reader@example.com');
+    expect(readProfileCookieValue(createProfileCookieValue(key))).toBe(key);
+  });
+
+  it('rejects a cookie naming another profile', () => {
+    const [, signature] = createProfileCookieValue('uid_mine').split('.');
+    expect(readProfileCookieValue(`uid_theirs.${signature}`)).toBeNull();
+    expect(readProfileCookieValue('uid_theirs')).toBeNull();
+    expect(readProfileCookieValue(undefined)).toBeNull();
+  });
+});
+
+describe('FileInterestProfileStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'interest-profiles-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('merges uploads from several devices into one profile', async () => {
+    const store = new FileInterestProfileStore(path.join(directory, 'profiles.json'));
+    const key = getEmailProfileKey('reader@example.com');
+
+    await store.merge(key, normalizeInterestProfile({ interests: [interest('react', '2026-10-01T00:00:00Z')] }));
+    await store.merge(key, normalizeInterestProfile({ interests: [interest('vue', '2026-10-02T00:00:00Z')] }));
+
+    const profile = await new FileInterestProfileStore(path.join(directory, 'profiles.json')).get(key);
+    expect(profile?.interests.map(entry => entry.tag).sort()).toEqual(['react', 'vue']);
+  });
+
+  it('deletes a profile and returns null for unknown keys', async () => {
+    const store = new FileInterestProfileStore(path.join(directory, 'profiles.json'));
+
+    await store.merge('uid_a', normalizeInterestProfile({ interests: [interest('react', '2026-10-01T00:00:00Z')] }));
+    await store.delete('uid_a');
+
+    expect(await store.get('uid_a')).toBeNull();
+    expect(await store.get('uid_missing')).toBeNull();
+  });
+});
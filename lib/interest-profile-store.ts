@@ -0,0 +1,182 @@
+/**
+ * Interest Profile Store
+ * Server copy of each reader's `UserInterestProfile`, keyed by the Personalize
+ * user UID or, once a reader has opened a signed newsletter link, by a hash of
+ * their email - the key that follows them across devices. /api/profile binds the
+ * key to the browser in a signed httpOnly cookie, and server components read the
+ * profile through that cookie. A key is never taken from the request alone.
+ * Server-only - stored as a JSON file next to the subscriber store.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { cookies } from 'next/headers';
+import { signValue, verifySignedValue } from './signed-tokens';
+import {
+  getTopInterestTags,
+  mergeInterestProfiles,
+  normalizeInterestProfile,
+  pruneStaleInterests,
+  UserInterestProfile,
+} from './user-interests';
+
+// Signed profile key, issued by /api/profile
+export const PROFILE_COOKIE = 'interest_profile';
+export const PROFILE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+const DEFAULT_FILE_PATH = path.join(process.cwd(), '.data', 'interest-profiles.json');
+
+const PERSONALIZE_UID_PATTERN = /^[a-zA-Z0-9_-]{1,100}$/;
+
+/**
+ * Personalize user UIDs are short URL-safe strings
+ */
+export function isValidPersonalizeUid(uid: unknown): uid is string {
+  return typeof uid === 'string' && PERSONALIZE_UID_PATTERN.test(uid);
+}
+
+/**
+ * Profile key for a Personalize user UID
+ */
+export function getUidProfileKey(uid: string): string {
+  return `uid_${uid}`;
+}
+
+/**
+ * Profile key for a verified email address; the address itself is never stored
+ */
+export function getEmailProfileKey(email: string): string {
+  return `email_${createHash('sha256').update(email.trim().toLowerCase(), 'utf8').digest('hex')}`;
+}
+
+/**
+ * Profile key for a reader without a Personalize UID or verified email
+ */
+export function createAnonymousProfileKey(): string {
+  return `anon_${randomUUID()}`;
+}
+
+/**
+ * Cookie value binding a profile key to the browser
+ */
+export function createProfileCookieValue(profileKey: string): string {
+  return signValue(profileKey);
+}
+
+/**
+ * Profile key from a profile cookie, or null when the cookie is missing or forged
+ */
+export function readProfileCookieValue(value: string | null | undefined): string | null {
+  return verifySignedValue(value);
+}
+
+export interface InterestProfileStore {
+  get(profileKey: string): Promise<UserInterestProfile | null>;
+  merge(profileKey: string, profile: UserInterestProfile): Promise<UserInterestProfile>;
+  delete(profileKey: string): Promise<void>;
+}
+
+/**
+ * JSON file store. Writes are serialized and replace the file atomically.
+ */
+export class FileInterestProfileStore implements InterestProfileStore {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string = DEFAULT_FILE_PATH) {}
+
+  async get(profileKey: string): Promise<UserInterestProfile | null> {
+    const profiles = await this.readAll();
+    return profiles[profileKey] ? normalizeInterestProfile(profiles[profileKey]) : null;
+  }
+
+  async merge(profileKey: string, profile: UserInterestProfile): Promise<UserInterestProfile> {
+    return this.mutate(profiles => {
+      const incoming = normalizeInterestProfile(profile);
+      const merged = profiles[profileKey]
+        ? mergeInterestProfiles(normalizeInterestProfile(profiles[profileKey]), incoming)
+        : incoming;
+      profiles[profileKey] = merged;
+      return merged;
+    });
+  }
+
+  async delete(profileKey: string): Promise<void> {
+    await this.mutate(profiles => {
+      delete profiles[profileKey];
+    });
+  }
+
+  private async readAll(): Promise<Record<string, UserInterestProfile>> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a read-modify-write cycle after any pending writes
+   */
+  private mutate<T>(change: (profiles: Record<string, UserInterestProfile>) => T): Promise<T> {
+    const run = async () => {
+      const profiles = await this.readAll();
+      const result = change(profiles);
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(profiles, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+
+      return result;
+    };
+
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// Singleton instance
+let interestProfileStore: InterestProfileStore | null = null;
+
+/**
+ * Get the shared interest profile store (INTEREST_PROFILE_STORE_PATH overrides the file location)
+ */
+export function getInterestProfileStore(): InterestProfileStore {
+  if (!interestProfileStore) {
+    interestProfileStore = new FileInterestProfileStore(process.env.INTEREST_PROFILE_STORE_PATH || DEFAULT_FILE_PATH);
+  }
+  return interestProfileStore;
+}
+
+/**
+ * Interest profile of the reader making the current request, for server components.
+ * Reading cookies makes the calling route dynamic.
+ */
+export async function getRequestInterestProfile(): Promise<UserInterestProfile | null> {
+  try {
+    const profileKey = readProfileCookieValue((await cookies()).get(PROFILE_COOKIE)?.value);
+    if (!profileKey) {
+      return null;
+    }
+
+    const profile = await getInterestProfileStore().get(profileKey);
+    return profile ? pruneStaleInterests(profile) : null;
+  } catch (error) {
+    console.error('🎯 InterestProfileStore: Failed to read profile:', error);
+    return null;
+  }
+}
+
+/**
+ * Top interest tags of the reader making the current request
+ */
+export async function getRequestTopInterests(limit: number = 10): Promise<string[]> {
+  const profile = await getRequestInterestProfile();
+  return profile ? getTopInterestTags(profile, limit) : [];
+}
@@ -3,6 +3,8 @@
  * Hybrid approach: Enhances existing Contentstack personalization with Lytics CDP
  */
 
+import { categorizeTags } from './tag-taxonomy';
+
 // Lytics script loader and configuration
 export interface LyticsConfig {
   accountId: string;
@@ -347,7 +349,7 @@ export class LyticsIntegration {
         user_interests: interests,
         primary_interest: interests[0],
         total_interests: interests.length,
-        interest_categories: this.categorizeInterests(interests),
+        interest_categories: categorizeTags(interests),
         ...additionalData,
         timestamp: new Date().toISOString(),
         source: 'interest_tracking'
@@ -373,36 +375,6 @@ export class LyticsIntegration {
     }
   }
 
-  /**
-   * Categorize interests for better segmentation
-   */
-  private categorizeInterests(interests: string[]): Record<string, string[]> {
-    const categories = {
-      database: ['database', 'postgresdb', 'mongodb', 'redis', 'sql'],
-      frontend: ['frontend', 'react', 'vue', 'angular', 'javascript', 'typescript'],
-      backend: ['backend', 'node', 'python', 'java', 'api'],
-      cloud: ['aws', 'azure', 'gcp', 'docker', 'kubernetes'],
-      tools: ['prisma', 'firebase', 'git'],
-      learning: ['tutorials & learning', 'documentation', 'guides']
-    };
-
-    const result: Record<string, string[]> = {};
-    
-    Object.entries(categories).forEach(([category, keywords]) => {
-      const matchingInterests = interests.filter(interest => 
-        keywords.some(keyword => 
-          interest.toLowerCase().includes(keyword.toLowerCase())
-        )
-      );
-      
-      if (matchingInterests.length > 0) {
-        result[category] = matchingInterests;
-      }
-    });
-
-    return result;
-  }
-
   /**
    * Track custom event
    */
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rankPostsForSubscriber } from './newsletter-digest';
+import { normalizePreferences } from './subscriber-preferences';
+import type { Author, Blog } from './types';
+
+// Only the ranking is under test; keep the CMS and subscriber store out of it
+vi.mock('./contentstack', () => ({ getAllBlogs: vi.fn() }));
+vi.mock('./subscriber-store', () => ({ getSubscriberStore: vi.fn() }));
+
+function post(uid: string, tags: string[], publishedDate: string, authorUid?: string): Blog {
+  return {
+    uid,
+    $: {},
+    title: uid,
+    url: `/blog/${uid}`,
+    categories_tags: tags,
+    published_date: publishedDate,
+    author: authorUid ? [{ uid: authorUid } as Author] : [],
+  };
+}
+
+describe('rankPostsForSubscriber', () => {
+  const posts = [
+    post('older-js', ['JS'], '2026-10-10'),
+    post('newer-js', ['JavaScript Tips'], '2026-10-12'),
+    post('js-and-react', ['ecmascript', 'ReactJS'], '2026-10-11'),
+    post('go', ['golang'], '2026-10-13'),
+  ];
+
+  it('matches topics to post tags through synonyms and ranks by shared topics, then date', () => {
+    const preferences = normalizePreferences({ topics: ['javascript', 'react'] });
+    expect(rankPostsForSubscriber(posts, preferences).map(({ uid }) => uid))
+      .toEqual(['js-and-react', 'newer-js', 'older-js']);
+  });
+
+  it('ranks posts by followed authors above topic matches', () => {
+    const withAuthor = [...posts, post('by-author', ['golang'], '2026-10-01', 'blt-author')];
+    const preferences = normalizePreferences({ topics: ['javascript'], authors: ['blt-author'] });
+    expect(rankPostsForSubscriber(withAuthor, preferences, 2).map(({ uid }) => uid))
+      .toEqual(['by-author', 'newer-js']);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Weekly Digest
+ * Gathers posts published since the last digest run, ranks them for each weekly
+ * subscriber by their stored topics and authors, emails the top picks and records
+ * what was sent so no subscriber gets the same post twice.
+ * Server-only - run through /api/newsletter/digest (see scripts/send-digest.mjs).
+ */
+
+import { getAllBlogs } from './contentstack';
+import { getEmailTransport } from './email-transport';
+import { buildDigestBatch } from './newsletter-emails';
+import { SendQueue } from './send-queue';
+import { getSendHistoryStore } from './send-history';
+import { matchesPreferences, SubscriberPreferences } from './subscriber-preferences';
+import { getSubscriberStore, NewsletterSubscriber } from './subscriber-store';
+import { canonicalizeTag, canonicalizeTags } from './tag-taxonomy';
+import type { Blog } from './types';
+
+export const DIGEST_JOB = 'weekly-digest';
+
+// First run (or no recorded run): look back one week
+const DEFAULT_LOOKBACK = 7 * 24 * 60 * 60 * 1000;
+const MAX_DIGEST_POSTS = 6;
+
+export interface DigestOptions {
+  dryRun?: boolean;                    // Rank and count, but send and record nothing
+  since?: Date;                        // Override the last recorded run
+  now?: Date;
+  maxPosts?: number;
+}
+
+export interface DigestResult {
+  since: string;
+  until: string;
+  candidatePosts: number;
+  recipients: number;
+  sent: number;
+  skipped: number;                     // Nothing new that matched their preferences
+  failed: number;
+  failures: { subscriberId: string; error: string }[];
+  dryRun: boolean;
+}
+
+/**
+ * Editorial publish date, falling back to when the entry was last published
+ */
+function getPublishedTime(post: Blog): number {
+  return Date.parse(post.published_date || post.publish_details?.time || '');
+}
+
+/**
+ * Order posts for one subscriber: posts sharing more of their topics (compared as
+ * canonical tags) or by an author they follow first, newest first within the same
+ * score. Posts outside their topic and author choices are left out.
+ */
+export function rankPostsForSubscriber(
+  posts: Blog[],
+  preferences: SubscriberPreferences,
+  maxPosts: number = MAX_DIGEST_POSTS
+): Blog[] {
+  const score = (post: Blog) => {
+    const tags = canonicalizeTags(post.categories_tags || []);
+    const topicMatches = preferences.topics.filter(topic => tags.includes(canonicalizeTag(topic))).length;
+    const followsAuthor = (post.author || []).some(author => preferences.authors.includes(author.uid));
+    return topicMatches + (followsAuthor ? 2 : 0);
+  };
+
+  return posts
+    .filter(post => matchesPreferences(preferences, {
+      tags: post.categories_tags,
+      authorUids: (post.author || []).map(author => author.uid),
+    }))
+    .map(post => ({ post, score: score(post), publishedAt: getPublishedTime(post) }))
+    .sort((a, b) => b.score - a.score || b.publishedAt - a.publishedAt)
+    .slice(0, maxPosts)
+    .map(({ post }) => post);
+}
+
+/**
+ * Build and send the weekly digest to every active, unpaused weekly subscriber
+ */
+export async function runWeeklyDigest(options: DigestOptions = {}): Promise<DigestResult> {
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const history = getSendHistoryStore();
+
+  const lastRun = await history.getLastRun(DIGEST_JOB);
+  const since = options.since ?? (lastRun ? new Date(lastRun) : new Date(now.getTime() - DEFAULT_LOOKBACK));
+
+  const posts = (await getAllBlogs()).filter(post => {
+    const publishedAt = getPublishedTime(post);
+    return publishedAt > since.getTime() && publishedAt <= now.getTime();
+  });
+
+  const subscribers = (await getSubscriberStore().list({ status: 'active' })).filter(subscriber =>
+    !subscriber.preferences.paused && subscriber.preferences.frequency === 'weekly'
+  );
+
+  const result: DigestResult = {
+    since: since.toISOString(),
+    until: now.toISOString(),
+    candidatePosts: posts.length,
+    recipients: subscribers.length,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    failures: [],
+    dryRun,
+  };
+
+  console.log(`📰 Digest: ${posts.length} posts since ${result.since} for ${subscribers.length} weekly subscribers${dryRun ? ' (dry run)' : ''}`);
+
+  // Pick posts per subscriber first, then deliver everything through the queue
+  const digests: { subscriber: NewsletterSubscriber; picks: Blog[] }[] = [];
+  for (const subscriber of subscribers) {
+    const alreadySent = await history.getSentPostUids(subscriber.id);
+    const picks = rankPostsForSubscriber(
+      posts.filter(post => !alreadySent.has(post.uid)),
+      subscriber.preferences,
+      options.maxPosts
+    );
+
+    if (picks.length === 0) {
+      result.skipped++;
+    } else {
+      digests.push({ subscriber, picks });
+    }
+  }
+
+  if (dryRun) {
+    result.sent = digests.length;
+  } else if (digests.length > 0) {
+    const queue = new SendQueue(getEmailTransport(), { context: `${DIGEST_JOB}:${result.until}` });
+    const { results } = await queue.send(digests.map(({ subscriber, picks }) => buildDigestBatch(subscriber, picks)));
+
+    for (const [index, { subscriber, picks }] of digests.entries()) {
+      const delivery = results[index];
+      if (!delivery.ok) {
+        result.failed++;
+        result.failures.push({ subscriberId: subscriber.id, error: delivery.error });
+        continue;
+      }
+
+      await history.record(picks.map(post => ({
+        subscriberId: subscriber.id,
+        postUid: post.uid,
+        kind: 'digest' as const,
+        sent_at: new Date().toISOString(),
+      })));
+      result.sent++;
+    }
+  }
+
+  // Keep the window open after failures; send history stops the next run repeating posts
+  if (!dryRun && result.failed === 0) {
+    await history.setLastRun(DIGEST_JOB, result.until);
+  }
+
+  console.log('📰 Digest: Finished', result);
+  return result;
+}
@@ -0,0 +1,118 @@
+/**
+ * Newsletter Transactional Emails
+ * Renders the newsletter's emails (confirmation, new post, weekly digest) from
+ * lib/email-templates, with the signed unsubscribe/preference links and
+ * List-Unsubscribe headers every newsletter mail carries. Notifications are
+ * built as batches for lib/send-queue; the confirmation is sent directly.
+ * Server-only - signs tokens with NEWSLETTER_TOKEN_SECRET and sends via lib/email-transport.
+ */
+
+import { renderEmail, RenderedEmail } from './email-templates';
+import { EmailBatch, EmailRecipient, getEmailTransport, SendResult } from './email-transport';
+import { createSignedToken } from './signed-tokens';
+import type { NewsletterSubscriber } from './subscriber-store';
+import type { Blog } from './types';
+
+// Confirmation links stay valid for two days
+export const CONFIRMATION_TOKEN_TTL = 48 * 60 * 60;
+
+/**
+ * Public base URL used in links inside emails
+ */
+export function getSiteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001';
+}
+
+/**
+ * Build the signed link to the page where a pending subscription is confirmed
+ */
+export function getConfirmationUrl(subscriber: Pick<NewsletterSubscriber, 'id' | 'email'>): string {
+  const token = createSignedToken(subscriber, 'confirm', { expiresIn: CONFIRMATION_TOKEN_TTL });
+  return `${getSiteUrl()}/confirm?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers so mail clients can offer one-click unsubscribe.
+ * The client POSTs "List-Unsubscribe=One-Click" straight to the API route.
+ */
+export function getListUnsubscribeHeaders(subscriber: Pick<NewsletterSubscriber, 'id' | 'email'>): Record<string, string> {
+  const token = createSignedToken(subscriber, 'unsubscribe');
+  return {
+    'List-Unsubscribe': `<${getSiteUrl()}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/**
+ * Public URL of a blog post
+ */
+export function getPostUrl(post: Pick<Blog, 'url'>): string {
+  return `${getSiteUrl()}/blog/${post.url?.startsWith('/') ? post.url.slice(1) : post.url}`;
+}
+
+/**
+ * Send a rendered email with its plain-text alternative through the configured transport
+ */
+async function sendEmail(to: string, email: RenderedEmail, headers?: Record<string, string>): Promise<SendResult> {
+  const result = await getEmailTransport().send({ to, ...email, headers });
+
+  if (result.ok) {
+    console.log(`📧 "${email.subject}" sent to ${to} via ${result.transport}`);
+  } else {
+    console.error(`📧 "${email.subject}" to ${to} failed via ${result.transport}: ${result.error}`);
+  }
+  return result;
+}
+
+/**
+ * Email a pending subscriber their confirmation link
+ */
+export async function sendConfirmationEmail(subscriber: Pick<NewsletterSubscriber, 'id' | 'email'>): Promise<SendResult> {
+  return sendEmail(subscriber.email, renderEmail('confirmation', {
+    confirmUrl: getConfirmationUrl(subscriber),
+    expiresInHours: CONFIRMATION_TOKEN_TTL / 3600,
+  }));
+}
+
+/**
+ * Footer links with `{{token}}` placeholders, filled in per recipient by the transport
+ */
+function getBatchFooterLinks() {
+  return {
+    preferencesUrl: `${getSiteUrl()}/preferences?token={{preferences_token}}`,
+    unsubscribeUrl: `${getSiteUrl()}/unsubscribe?token={{unsubscribe_token}}`,
+  };
+}
+
+/**
+ * A subscriber's per-recipient values: signed tokens for the footer links and List-Unsubscribe headers
+ */
+function getRecipient(subscriber: Pick<NewsletterSubscriber, 'id' | 'email'>): EmailRecipient {
+  return {
+    to: subscriber.email,
+    substitutions: {
+      preferences_token: encodeURIComponent(createSignedToken(subscriber, 'preferences')),
+      unsubscribe_token: encodeURIComponent(createSignedToken(subscriber, 'unsubscribe')),
+    },
+    headers: getListUnsubscribeHeaders(subscriber),
+  };
+}
+
+/**
+ * One batch announcing a newly published post to many subscribers
+ */
+export function buildNewPostBatch(subscribers: Pick<NewsletterSubscriber, 'id' | 'email'>[], post: Blog): EmailBatch {
+  const email = renderEmail('new-post', { post, postUrl: getPostUrl(post), ...getBatchFooterLinks() });
+  return { ...email, recipients: subscribers.map(getRecipient) };
+}
+
+/**
+ * A subscriber's digest of ranked posts. Picks differ per subscriber, so each is its own batch.
+ */
+export function buildDigestBatch(subscriber: Pick<NewsletterSubscriber, 'id' | 'email'>, posts: Blog[]): EmailBatch {
+  const email = renderEmail('digest', {
+    posts: posts.map(post => ({ post, postUrl: getPostUrl(post) })),
+    ...getBatchFooterLinks(),
+  });
+  return { ...email, recipients: [getRecipient(subscriber)] };
+}
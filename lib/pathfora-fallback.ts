@@ -156,7 +156,7 @@ export class PathforaFallback {
 
     if (exploreBtn) {
       exploreBtn.addEventListener('click', () => {
-        window.location.href = `/blog?search=${encodeURIComponent(interest)}`;
+        window.location.href = `/blog?tag=${encodeURIComponent(interest)}`;
       });
     }
 
@@ -279,7 +279,7 @@ export class PathforaFallback {
 
     if (exploreBtn) {
       exploreBtn.addEventListener('click', () => {
-        window.location.href = `/blog?search=${encodeURIComponent(interest)}`;
+        window.location.href = `/blog?tag=${encodeURIComponent(interest)}`;
       });
     }
 
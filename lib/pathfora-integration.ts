@@ -4,6 +4,7 @@
  */
 
 import { LyticsIntegration } from './lytics-integration';
+import { getSubscribeErrorMessage } from './subscribe-errors';
 import { getUserTopInterests } from './user-interests';
 
 declare global {
@@ -157,7 +158,7 @@ export class PathforaIntegration {
           }
           
           // Navigate to filtered content
-          window.location.href = `/blog?search=${encodeURIComponent(primaryInterest)}`;
+          window.location.href = `/blog?tag=${encodeURIComponent(primaryInterest)}`;
         }
       },
       cancelAction: {
@@ -279,7 +280,7 @@ export class PathforaIntegration {
               action: 'explore_more'
             });
           }
-          window.location.href = `/blog?search=${encodeURIComponent(primaryInterest)}`;
+          window.location.href = `/blog?tag=${encodeURIComponent(primaryInterest)}`;
         }
       },
       cancelAction: {
@@ -325,16 +326,18 @@ export class PathforaIntegration {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ email, source: 'pathfora_widget' }),
       });
 
       const data = await response.json();
 
       if (response.ok) {
         // Show success message
-        this.showSuccessMessage('🎉 Successfully subscribed! Check your email.');
+        this.showSuccessMessage(data.status === 'pending'
+          ? '📬 Almost there! Check your inbox to confirm your subscription.'
+          : '🎉 You\'re already subscribed!');
       } else {
-        this.showErrorMessage(data.error || 'Failed to subscribe. Please try again.');
+        this.showErrorMessage(getSubscribeErrorMessage(data));
       }
     } catch (error) {
       console.error('🎨 Pathfora: Newsletter signup error:', error);
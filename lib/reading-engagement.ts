@@ -0,0 +1,133 @@
+/**
+ * Reading Engagement Tracker
+ * Measures how a blog post is actually read: active time (tab visible, window
+ * focused, reader not idle) and how far through the article they scrolled, with
+ * 25/50/75/100% milestones. Used by BlogViewTracker; the result feeds the
+ * interest model only when it looks like a genuine read.
+ */
+
+import type { ReadingEngagement } from './interest-model';
+
+export type ReadingMilestone = 25 | 50 | 75 | 100;
+
+export interface ReadingSnapshot extends ReadingEngagement {
+  activeSeconds: number;
+  scrollDepth: number;                 // 0-1, furthest point of the article seen
+  milestones: ReadingMilestone[];      // Reached so far, in order
+}
+
+export interface ReadingTrackerOptions {
+  expectedReadSeconds?: number;        // From the post's reading_time, if known
+  onMilestone?: (milestone: ReadingMilestone, snapshot: ReadingSnapshot) => void;
+}
+
+export const READING_MILESTONES: ReadingMilestone[] = [25, 50, 75, 100];
+
+// No scroll, key or pointer input for this long means the reader has walked away
+const IDLE_TIMEOUT = 30 * 1000;
+const TICK_INTERVAL = 1000;
+
+// A view counts as a read after this much active time plus half the article
+// (or half the estimated read time, for readers who don't scroll much)
+const MIN_ACTIVE_SECONDS = 15;
+const MIN_SCROLL_DEPTH = 0.5;
+
+const ACTIVITY_EVENTS = ['scroll', 'keydown', 'pointerdown', 'pointermove', 'wheel', 'touchstart'] as const;
+
+/**
+ * Whether an engagement snapshot is a genuine read rather than a bounce or an idle tab
+ */
+export function isGenuineRead(snapshot: Pick<ReadingSnapshot, 'activeSeconds' | 'scrollDepth' | 'expectedReadSeconds'>): boolean {
+  if (snapshot.activeSeconds < MIN_ACTIVE_SECONDS) {
+    return false;
+  }
+  const readLongEnough = !!snapshot.expectedReadSeconds && snapshot.activeSeconds >= snapshot.expectedReadSeconds / 2;
+  return snapshot.scrollDepth >= MIN_SCROLL_DEPTH || readLongEnough;
+}
+
+export class ReadingEngagementTracker {
+  private activeMs = 0;
+  private scrollDepth = 0;
+  private milestones: ReadingMilestone[] = [];
+  private lastActivityAt = Date.now();
+  private lastTickAt = Date.now();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private element: HTMLElement, private options: ReadingTrackerOptions = {}) {
+    this.handleActivity = this.handleActivity.bind(this);
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.lastActivityAt = Date.now();
+    this.lastTickAt = Date.now();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.updateScrollDepth();
+  }
+
+  /**
+   * Stop measuring and return the final numbers
+   */
+  stop(): ReadingSnapshot {
+    if (this.timer) {
+      this.tick();
+      clearInterval(this.timer);
+      this.timer = null;
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+    }
+    return this.getSnapshot();
+  }
+
+  getSnapshot(): ReadingSnapshot {
+    return {
+      activeSeconds: Math.round(this.activeMs / 1000),
+      scrollDepth: this.scrollDepth,
+      milestones: [...this.milestones],
+      expectedReadSeconds: this.options.expectedReadSeconds,
+    };
+  }
+
+  private handleActivity(event: Event): void {
+    this.lastActivityAt = Date.now();
+    if (event.type === 'scroll' || event.type === 'wheel' || event.type === 'touchstart') {
+      this.updateScrollDepth();
+    }
+  }
+
+  /**
+   * Count the time since the last tick only if the reader was there for it
+   */
+  private tick(): void {
+    const now = Date.now();
+    const isActive = document.visibilityState === 'visible' &&
+      document.hasFocus() &&
+      now - this.lastActivityAt < IDLE_TIMEOUT;
+
+    if (isActive) {
+      // Cap the step so a throttled background timer can't add a long gap at once
+      this.activeMs += Math.min(now - this.lastTickAt, TICK_INTERVAL * 2);
+    }
+    this.lastTickAt = now;
+  }
+
+  /**
+   * Furthest point of the article that has been on screen, as a fraction of its height
+   */
+  private updateScrollDepth(): void {
+    const rect = this.element.getBoundingClientRect();
+    if (rect.height <= 0) return;
+
+    const seen = Math.min(Math.max((window.innerHeight - rect.top) / rect.height, 0), 1);
+    if (seen <= this.scrollDepth) return;
+
+    this.scrollDepth = seen;
+    for (const milestone of READING_MILESTONES) {
+      if (seen * 100 >= milestone && !this.milestones.includes(milestone)) {
+        this.milestones.push(milestone);
+        this.options.onMilestone?.(milestone, this.getSnapshot());
+      }
+    }
+  }
+}
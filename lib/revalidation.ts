@@ -0,0 +1,127 @@
+/**
+ * On-demand Revalidation
+ * Maps Contentstack entry changes onto the Next.js caches that hold them: the ISR
+ * route cache (by path), the data cache (by tag) and the in-memory content repository.
+ * Server-only - imports next/cache.
+ */
+
+import { revalidatePath, revalidateTag, unstable_cache } from 'next/cache';
+import { ContentTypeUid, invalidateContent } from './content-repository';
+
+export type ContentAction = 'publish' | 'unpublish' | 'delete';
+
+export interface ContentChange {
+  contentType: ContentTypeUid;
+  uid: string;
+  action: ContentAction;
+  url?: string;               // Entry URL when the webhook includes it (blog slug, page path)
+  authorUids?: string[];      // Referenced authors of a blog entry, when known
+}
+
+export interface RevalidationResult {
+  paths: string[];
+  tags: string[];
+  contentTypes: ContentTypeUid[];
+}
+
+export const REVALIDATED_CONTENT_TYPES: ContentTypeUid[] = ['blog', 'author', 'basic'];
+export const REVALIDATED_ACTIONS: ContentAction[] = ['publish', 'unpublish', 'delete'];
+
+// Cached data that embeds other content types: blog entries carry resolved authors
+const DEPENDENT_CONTENT_TYPES: Record<string, ContentTypeUid[]> = {
+  blog: ['blog'],
+  author: ['author', 'blog'],
+  basic: ['basic'],
+};
+
+// Dynamic route patterns, used when the exact entry path is unknown
+const BLOG_POST_ROUTE = '/blog/[slug]';
+const AUTHOR_ROUTE = '/author/[uid]';
+
+/**
+ * Data cache tag for every cached query of a content type
+ */
+export function getContentTag(contentType: ContentTypeUid): string {
+  return `contentstack:${contentType}`;
+}
+
+/**
+ * Cache a server-side loader in the Next.js data cache, tagged with the content
+ * types it reads so a webhook can drop it
+ */
+export function withContentTags<T>(
+  contentTypes: ContentTypeUid[],
+  keyParts: string[],
+  loader: () => Promise<T>,
+  revalidate?: number
+): Promise<T> {
+  return unstable_cache(loader, keyParts, {
+    tags: contentTypes.map(getContentTag),
+    revalidate,
+  })();
+}
+
+/**
+ * Strip the leading slash Contentstack stores on entry URLs
+ */
+function toSlug(url: string): string {
+  return url.startsWith('/') ? url.slice(1) : url;
+}
+
+/**
+ * Work out which routes render a changed entry
+ */
+export function getAffectedPaths(change: ContentChange): string[] {
+  const paths = new Set<string>(['/']);
+
+  switch (change.contentType) {
+    case 'blog':
+      paths.add('/blog');
+      paths.add(change.url ? `/blog/${toSlug(change.url)}` : BLOG_POST_ROUTE);
+      if (change.authorUids && change.authorUids.length > 0) {
+        change.authorUids.forEach(uid => paths.add(`/author/${uid}`));
+      } else {
+        paths.add(AUTHOR_ROUTE);
+      }
+      break;
+
+    case 'author':
+      // Bylines appear on the listing and on every post
+      paths.add('/blog');
+      paths.add(`/author/${change.uid}`);
+      paths.add(BLOG_POST_ROUTE);
+      break;
+
+    case 'basic':
+      if (change.url) {
+        paths.add(change.url.startsWith('/') ? change.url : `/${change.url}`);
+      }
+      break;
+  }
+
+  return [...paths];
+}
+
+/**
+ * Revalidate every cache holding a changed entry
+ */
+export function revalidateContentChange(change: ContentChange): RevalidationResult {
+  const contentTypes = DEPENDENT_CONTENT_TYPES[change.contentType] || [change.contentType];
+  const paths = getAffectedPaths(change);
+  const tags = contentTypes.map(getContentTag);
+
+  // In-memory repository first, so regenerated pages don't read stale entries
+  contentTypes.forEach(contentType => invalidateContent(contentType));
+  tags.forEach(tag => revalidateTag(tag));
+  paths.forEach(path => {
+    if (path.includes('[')) {
+      revalidatePath(path, 'page');
+    } else {
+      revalidatePath(path);
+    }
+  });
+
+  console.log(`♻️ Revalidated ${change.contentType} ${change.uid} (${change.action}):`, { paths, tags });
+
+  return { paths, tags, contentTypes };
+}
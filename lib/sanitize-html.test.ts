@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitize-html';
+
+describe('sanitizeHtml', () => {
+  it('keeps ordinary article markup', () => {
+    const html = '<h2 id="setup">Setup</h2><p>Run <code>npm i</code> and <a href="/blog/next">read on</a>.</p>' +
+      '<img src="https://images.contentstack.io/a.png" alt="Diagram"><ul><li>One</li></ul>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('removes script elements and their content', () => {
+    expect(sanitizeHtml('<p>Hi</p><script>alert(1)</script>')).toBe('<p>Hi</p>');
+    expect(sanitizeHtml('<svg><script>alert(1)</script></svg>')).not.toContain('script');
+    expect(sanitizeHtml('<scr<script>ipt>alert(1)</script>')).not.toContain('<script');
+  });
+
+  it('removes event handlers however the attribute is separated', () => {
+    expect(sanitizeHtml('<img src="x" onerror="alert(1)">')).toBe('<img src="x">');
+    expect(sanitizeHtml('<img src="x"/onerror=alert(1)>')).toBe('<img src="x">');
+    expect(sanitizeHtml('<svg/onload=alert(1)>')).not.toContain('onload');
+  });
+
+  it('removes script URLs hidden behind entities', () => {
+    for (const href of ['javascript:alert(1)', 'jav&#97;script:alert(1)', 'javascript&colon;alert(1)', 'java\tscript:alert(1)']) {
+      expect(sanitizeHtml(`<a href="${href}">x</a>`)).toBe('<a>x</a>');
+    }
+  });
+
+  it('drops frames, styles and forms', () => {
+    expect(sanitizeHtml('<iframe src="https://example.com"></iframe><style>p{}</style><form><input></form>')).toBe('');
+  });
+
+  it('keeps link targets but cuts the opener', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_blank">x</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+
+  it('returns an empty string for empty input', () => {
+    expect(sanitizeHtml('')).toBe('');
+  });
+});
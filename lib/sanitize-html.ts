@@ -0,0 +1,32 @@
+/**
+ * Server-side HTML Sanitizing
+ * Rich text from Contentstack is rendered on the server, so it is parsed and
+ * cleaned with DOMPurify on a jsdom window (isomorphic-dompurify) rather than
+ * pattern-matched. Only DOMPurify's HTML allowlist survives: script elements,
+ * event handlers and script URLs are removed however they are encoded.
+ */
+
+import DOMPurify from 'isomorphic-dompurify';
+
+// Allowed by DOMPurify but never expected in article content
+const FORBIDDEN_TAGS = ['style', 'form', 'input', 'button', 'textarea', 'select', 'option'];
+
+// Links opening a new tab can't reach back into this page
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A' && node.hasAttribute('target')) {
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/**
+ * Sanitize CMS rich text for rendering with dangerouslySetInnerHTML
+ */
+export function sanitizeHtml(html: string): string {
+  if (!html) return '';
+
+  return DOMPurify.sanitize(html, {
+    USE_PROFILES: { html: true },
+    ADD_ATTR: ['target'],
+    FORBID_TAGS: FORBIDDEN_TAGS,
+  });
+}
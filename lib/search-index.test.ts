@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, editDistance, SearchIndex, stem, stripHtml, tokenize } from './search-index';
+
+interface Post {
+  id: string;
+  title: string;
+  body: string;
+  tags?: string[];
+}
+
+const POSTS: Post[] = [
+  { id: 'react', title: 'Getting started with React hooks', body: 'Hooks let function components keep state.', tags: ['react'] },
+  { id: 'deploy', title: 'Deploying Next.js apps', body: 'We deployed the app to the edge. Deployment tips for React developers.' },
+  { id: 'kubernetes', title: 'Kubernetes for beginners', body: 'Clusters, pods and services explained.', tags: ['devops'] },
+  { id: 'typescript', title: 'TypeScript generics', body: 'Generic types make reusable components.', tags: ['typescript'] },
+];
+
+function createIndex(documents: Post[] = POSTS) {
+  return new SearchIndex<Post>([
+    { name: 'title', boost: 3, extract: post => post.title },
+    { name: 'tags', boost: 2, extract: post => post.tags },
+    { name: 'body', boost: 1, extract: post => post.body },
+  ], documents);
+}
+
+const ids = (results: { document: Post }[]) => results.map(result => result.document.id);
+
+describe('text analysis', () => {
+  it('strips tags, scripts and common entities from rich text', () => {
+    expect(stripHtml('<p>Tips &amp; tricks</p><script>alert(1)</script><b>now</b>')).toBe('Tips & tricks now');
+  });
+
+  it('lowercases, drops stop words and strips diacritics', () => {
+    expect(tokenize('The Café of React')).toEqual(['cafe', 'react']);
+  });
+
+  it('stems common suffixes to one index term', () => {
+    expect(stem('tutorials')).toBe(stem('tutorial'));
+    expect(stem('deploying')).toBe('deploy');
+    expect(stem('deployed')).toBe('deploy');
+    expect(stem('running')).toBe('run');
+    expect(stem('apps')).toBe('app');
+    expect(stem('apps')).toBe(stem('app'));
+    expect(stem('libraries')).toBe('library');
+    expect(stem('bed')).toBe('bed');
+    expect(stem('es2024')).toBe('es2024');
+    expect(analyze('Deploying deployed guides')).toEqual(['deploy', 'deploy', 'guide']);
+  });
+
+  it('counts a transposition as a single edit', () => {
+    expect(editDistance('react', 'raect')).toBe(1);
+    expect(editDistance('kubernetes', 'kubernetse')).toBe(1);
+    expect(editDistance('react', 'redux', 1)).toBe(2);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('ranks title matches above body matches', () => {
+    expect(ids(createIndex().search('react'))).toEqual(['react', 'deploy']);
+  });
+
+  it('prefers rare terms over common ones (IDF)', () => {
+    const index = createIndex([
+      { id: 'a', title: 'Guide', body: 'common common' },
+      { id: 'b', title: 'Guide', body: 'common rare' },
+      { id: 'c', title: 'Guide', body: 'common' },
+    ]);
+    expect(ids(index.search('rare common'))[0]).toBe('b');
+  });
+
+  it('matches other forms of a word through stemming', () => {
+    expect(ids(createIndex().search('deployment'))).toContain('deploy');
+    expect(ids(createIndex().search('deploys'))).toContain('deploy');
+    expect(ids(createIndex().search('app'))).toContain('deploy');
+  });
+
+  it('completes the last word as a prefix while typing', () => {
+    expect(ids(createIndex().search('kuber'))).toEqual(['kubernetes']);
+    expect(ids(createIndex().search('kuber react'))).not.toContain('kubernetes');
+  });
+
+  it('tolerates typos in longer words', () => {
+    expect(ids(createIndex().search('kubernetse'))).toEqual(['kubernetes']);
+    expect(ids(createIndex().search('typscript'))).toEqual(['typescript']);
+  });
+
+  it('ranks exact matches above typo matches', () => {
+    const index = createIndex([
+      { id: 'exact', title: 'Hooks', body: '' },
+      { id: 'typo', title: 'Hookz', body: '' },
+    ]);
+    const [first, second] = index.search('hooks');
+    expect(first.document.id).toBe('exact');
+    expect(second?.score ?? 0).toBeLessThan(first.score);
+  });
+
+  it('favours documents matching more of the query', () => {
+    expect(ids(createIndex().search('react hooks'))[0]).toBe('react');
+  });
+
+  it('reports matched fields and terms, and respects the limit', () => {
+    const [result] = createIndex().search('typescript', { limit: 1 });
+    expect(result.matchedFields).toEqual(['title', 'tags']);
+    expect(result.matchedTerms).toEqual(['typescript']);
+  });
+
+  it('returns nothing for empty or stop-word-only queries', () => {
+    expect(createIndex().search('')).toEqual([]);
+    expect(createIndex().search('the and of')).toEqual([]);
+    expect(createIndex([]).search('react')).toEqual([]);
+  });
+});
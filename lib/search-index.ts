@@ -0,0 +1,516 @@
+/**
+ * Full-Text Search Index
+ * In-memory inverted index with tokenization, stemming, field boosting,
+ * prefix matching and typo tolerance for ranking blog search results.
+ */
+
+export interface SearchField<T> {
+  name: string;
+  boost: number;
+  extract: (document: T) => string | string[] | undefined;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  minScore?: number;
+  snippetField?: string;   // Field to cut a context snippet from
+  snippetLength?: number;  // Approximate snippet length in characters
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchMatch extends TextRange {
+  field: string;
+  valueIndex?: number;     // Position within array fields such as tags
+}
+
+export interface SearchSnippet {
+  field: string;
+  text: string;
+  highlights: TextRange[]; // Offsets into `text`
+}
+
+export interface SearchResult<T> {
+  document: T;
+  score: number;
+  matchedFields: string[];
+  matchedTerms: string[];
+  matches: SearchMatch[];  // Offsets into the extracted field text
+  snippet?: SearchSnippet;
+}
+
+interface Posting {
+  docIndex: number;
+  field: string;
+  termFrequency: number;
+}
+
+interface QueryTermMatch {
+  term: string;
+  weight: number;
+}
+
+// BM25 saturation and length normalization parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Weight applied to expanded matches relative to an exact (stemmed) match
+const PREFIX_MATCH_WEIGHT = 0.7;
+const TYPO_MATCH_WEIGHT = 0.5;
+
+const DEFAULT_SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'how',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this',
+  'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+/**
+ * Remove HTML tags and decode the common entities from rich text content
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize text for matching: lowercase and strip diacritics
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Light English suffix-stripping stemmer so "tutorials", "tutorial" and
+ * "deploying", "deployed" land on the same index term
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  const rules: [RegExp, string][] = [
+    [/ies$/, 'y'],
+    [/sses$/, 'ss'],
+    [/([^s])s$/, '$1'],
+    [/eed$/, 'ee'],
+    [/ingly$/, ''],
+    [/edly$/, ''],
+    [/ing$/, ''],
+    [/ed$/, ''],
+    [/ational$/, 'ate'],
+    [/ization$/, 'ize'],
+    [/fulness$/, 'ful'],
+    [/ness$/, ''],
+    [/ment$/, ''],
+    [/ly$/, ''],
+  ];
+
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word)) {
+      const stemmed = word.replace(pattern, replacement);
+      // Keep a meaningful stem; "bed" should not become "b"
+      if (stemmed.length >= 3) {
+        // Undo doubled consonants left by -ing/-ed ("running" -> "runn" -> "run"),
+        // but not by other suffixes ("apps" -> "app")
+        const leftDoubled = /(ing|ed)(ly)?$/.test(word) && /([bdfgmnprt])\1$/.test(stemmed);
+        return leftDoubled ? stemmed.slice(0, -1) : stemmed;
+      }
+      return word;
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Split text into normalized tokens (without stemming)
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Split text into stemmed index terms
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, so a swapped pair
+ * of letters counts as one typo. Exits early once `maxDistance` is exceeded.
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated for a query term of the given length
+ */
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Score how well a suggestion label matches a partially typed query. Every query
+ * word must match a label word by prefix (or, for longer words, within the typo
+ * budget); labels that start with the whole query rank highest. Returns 0 for no match.
+ */
+export function scoreSuggestion(label: string, query: string): number {
+  const normalizedLabel = normalizeText(label).trim();
+  const normalizedQuery = normalizeText(query).trim();
+  const labelWords = normalizedLabel.split(/[^a-z0-9]+/).filter(Boolean);
+  const queryWords = normalizedQuery.split(/[^a-z0-9]+/).filter(Boolean);
+
+  if (queryWords.length === 0 || labelWords.length === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const queryWord of queryWords) {
+    let best = 0;
+    for (const labelWord of labelWords) {
+      if (labelWord.startsWith(queryWord)) {
+        best = 1;
+        break;
+      }
+      const maxTypos = allowedTypos(queryWord);
+      if (maxTypos > 0 && editDistance(queryWord, labelWord.slice(0, queryWord.length + 1), maxTypos) <= maxTypos) {
+        best = Math.max(best, 0.5);
+      }
+    }
+    if (best === 0) {
+      return 0;
+    }
+    total += best;
+  }
+
+  const wordScore = total / queryWords.length;
+  return normalizedLabel.startsWith(normalizedQuery) ? wordScore + 1 : wordScore;
+}
+
+/**
+ * Find the character ranges of words in `text` whose stem is one of `indexTerms`
+ */
+export function findTermRanges(text: string, indexTerms: Set<string>): TextRange[] {
+  const ranges: TextRange[] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const token = normalizeText(match[0]).replace(/[^a-z0-9]/g, '');
+    if (token.length > 1 && (indexTerms.has(stem(token)) || indexTerms.has(token))) {
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return ranges;
+}
+
+export class SearchIndex<T> {
+  private fields: SearchField<T>[];
+  private documents: T[] = [];
+  private postings = new Map<string, Posting[]>();
+  private fieldLengths = new Map<string, number[]>();
+  private averageFieldLengths = new Map<string, number>();
+
+  constructor(fields: SearchField<T>[], documents: T[] = []) {
+    this.fields = fields;
+    this.build(documents);
+  }
+
+  /**
+   * (Re)build the index from a full document set
+   */
+  build(documents: T[]): void {
+    this.documents = documents;
+    this.postings.clear();
+    this.fieldLengths.clear();
+    this.averageFieldLengths.clear();
+
+    this.fields.forEach(field => this.fieldLengths.set(field.name, []));
+
+    documents.forEach((document, docIndex) => {
+      this.fields.forEach(field => {
+        const value = field.extract(document);
+        const text = Array.isArray(value) ? value.join(' ') : value || '';
+        const terms = analyze(text);
+
+        this.fieldLengths.get(field.name)![docIndex] = terms.length;
+
+        const frequencies = new Map<string, number>();
+        terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+        frequencies.forEach((termFrequency, term) => {
+          const postings = this.postings.get(term) || [];
+          postings.push({ docIndex, field: field.name, termFrequency });
+          this.postings.set(term, postings);
+        });
+      });
+    });
+
+    this.fields.forEach(field => {
+      const lengths = this.fieldLengths.get(field.name)!;
+      const total = lengths.reduce((sum, length) => sum + (length || 0), 0);
+      this.averageFieldLengths.set(field.name, documents.length > 0 ? total / documents.length : 0);
+    });
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Search the index and return documents ranked by relevance
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult<T>[] {
+    const { limit, minScore = 0 } = options;
+    const queryTokens = tokenize(query);
+
+    if (queryTokens.length === 0 || this.documents.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<number, { score: number; fields: Set<string>; terms: Set<string>; indexTerms: Set<string> }>();
+
+    queryTokens.forEach((token, index) => {
+      // Only the last token can be a partial word still being typed
+      const isLastToken = index === queryTokens.length - 1;
+
+      this.expandQueryTerm(token, isLastToken).forEach(({ term, weight }) => {
+        const postings = this.postings.get(term) || [];
+        const documentFrequency = new Set(postings.map(posting => posting.docIndex)).size;
+        const idf = Math.log(1 + (this.documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+        postings.forEach(({ docIndex, field, termFrequency }) => {
+          const fieldConfig = this.fields.find(f => f.name === field)!;
+          const fieldLength = this.fieldLengths.get(field)![docIndex] || 0;
+          const averageLength = this.averageFieldLengths.get(field) || 1;
+          const normalizedTf = (termFrequency * (BM25_K1 + 1)) /
+            (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (fieldLength / averageLength)));
+
+          const entry = scores.get(docIndex) || {
+            score: 0,
+            fields: new Set<string>(),
+            terms: new Set<string>(),
+            indexTerms: new Set<string>(),
+          };
+          entry.score += idf * normalizedTf * fieldConfig.boost * weight;
+          entry.fields.add(field);
+          entry.terms.add(token);
+          entry.indexTerms.add(term);
+          scores.set(docIndex, entry);
+        });
+      });
+    });
+
+    const ranked: { docIndex: number; score: number; fields: Set<string>; terms: Set<string>; indexTerms: Set<string> }[] = [];
+
+    scores.forEach((entry, docIndex) => {
+      // Favour documents matching more of the query terms
+      const coverage = entry.terms.size / queryTokens.length;
+      const score = entry.score * coverage * coverage;
+
+      if (score > minScore) {
+        ranked.push({ ...entry, docIndex, score });
+      }
+    });
+
+    ranked.sort((a, b) => b.score - a.score);
+
+    // Match offsets and snippets are only computed for the results actually returned
+    return (limit ? ranked.slice(0, limit) : ranked).map(({ docIndex, score, fields, terms, indexTerms }) => {
+      const document = this.documents[docIndex];
+      const matches = this.findMatches(document, indexTerms);
+
+      return {
+        document,
+        score: Math.round(score * 1000) / 1000,
+        matchedFields: this.fields.map(f => f.name).filter(name => fields.has(name)),
+        matchedTerms: [...terms],
+        matches,
+        snippet: options.snippetField
+          ? this.buildSnippet(document, options.snippetField, matches, options.snippetLength)
+          : undefined,
+      };
+    });
+  }
+
+  /**
+   * Locate every token in a document whose index term matched the query
+   */
+  findMatches(document: T, indexTerms: Set<string>): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+
+    this.fields.forEach(field => {
+      const value = field.extract(document);
+      const values = Array.isArray(value) ? value : [value || ''];
+
+      values.forEach((text, valueIndex) => {
+        findTermRanges(text, indexTerms).forEach(range => {
+          matches.push({
+            field: field.name,
+            ...(Array.isArray(value) ? { valueIndex } : {}),
+            ...range,
+          });
+        });
+      });
+    });
+
+    return matches;
+  }
+
+  /**
+   * Cut a window of field text around the densest cluster of matches,
+   * snapped to word boundaries, with highlight offsets relative to the snippet
+   */
+  private buildSnippet(
+    document: T,
+    fieldName: string,
+    matches: SearchMatch[],
+    snippetLength: number = DEFAULT_SNIPPET_LENGTH
+  ): SearchSnippet | undefined {
+    const field = this.fields.find(f => f.name === fieldName);
+    const value = field?.extract(document);
+    const text = Array.isArray(value) ? value.join(', ') : value;
+    const fieldMatches = matches.filter(match => match.field === fieldName);
+
+    if (!text || fieldMatches.length === 0) {
+      return undefined;
+    }
+
+    // Pick the match whose window contains the most other matches
+    let bestStart = fieldMatches[0].start;
+    let bestCount = 0;
+    fieldMatches.forEach(candidate => {
+      const count = fieldMatches.filter(match =>
+        match.start >= candidate.start && match.end <= candidate.start + snippetLength
+      ).length;
+      if (count > bestCount) {
+        bestCount = count;
+        bestStart = candidate.start;
+      }
+    });
+
+    const clusterEnd = Math.max(...fieldMatches
+      .filter(match => match.start >= bestStart && match.end <= bestStart + snippetLength)
+      .map(match => match.end));
+
+    // Lead in with a little context before the cluster, without pushing its end out of the window
+    const leadIn = Math.max(0, Math.min(Math.floor(snippetLength / 4), snippetLength - (clusterEnd - bestStart)));
+    let start = Math.max(0, bestStart - leadIn);
+    let end = Math.min(text.length, Math.max(start + snippetLength, clusterEnd));
+
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space !== -1 && space < bestStart ? space + 1 : start;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space >= clusterEnd ? space : end;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+
+    return {
+      field: fieldName,
+      text: `${prefix}${text.slice(start, end)}${suffix}`,
+      highlights: fieldMatches
+        .filter(match => match.start >= start && match.end <= end)
+        .map(match => ({
+          start: match.start - start + prefix.length,
+          end: match.end - start + prefix.length,
+        })),
+    };
+  }
+
+  /**
+   * Expand a query token into the index terms it should match: the exact stem,
+   * prefix completions and close misspellings
+   */
+  private expandQueryTerm(token: string, allowPrefix: boolean): QueryTermMatch[] {
+    const stemmed = stem(token);
+    const matches = new Map<string, number>();
+
+    if (this.postings.has(stemmed)) {
+      matches.set(stemmed, 1);
+    }
+    if (stemmed !== token && this.postings.has(token)) {
+      matches.set(token, 1);
+    }
+
+    // Only fall back to fuzzy matching when the word itself is not in the index
+    const maxTypos = matches.size === 0 ? allowedTypos(token) : 0;
+
+    this.postings.forEach((_, term) => {
+      if (matches.has(term)) return;
+
+      if (allowPrefix && token.length >= 2 && term.startsWith(token)) {
+        matches.set(term, PREFIX_MATCH_WEIGHT);
+        return;
+      }
+
+      if (maxTypos > 0) {
+        const distance = Math.min(
+          editDistance(stemmed, term, maxTypos),
+          editDistance(token, term, maxTypos)
+        );
+        if (distance <= maxTypos) {
+          matches.set(term, TYPO_MATCH_WEIGHT / distance);
+        }
+      }
+    });
+
+    return [...matches.entries()].map(([term, weight]) => ({ term, weight }));
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Newsletter Send History
+ * Records which posts each subscriber has been emailed about, and when each
+ * scheduled job last ran, so digests never repeat a post. Messages the send
+ * queue gave up on are kept in a dead-letter list for inspection.
+ * Server-only - stored as a JSON file next to the file subscriber store.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type SendKind = 'instant' | 'digest';
+
+export interface SendRecord {
+  subscriberId: string;
+  postUid: string;
+  kind: SendKind;
+  sent_at: string;                     // ISO timestamp
+}
+
+export interface DeadLetter {
+  to: string;
+  subject: string;
+  context: string;                     // What was being sent, e.g. 'new-post:<uid>'
+  error: string;
+  attempts: number;
+  failed_at: string;
+}
+
+export interface SendHistoryStore {
+  getSentPostUids(subscriberId: string): Promise<Set<string>>;
+  getRecipientIds(postUid: string): Promise<Set<string>>;
+  record(records: SendRecord[]): Promise<void>;
+  getLastRun(job: string): Promise<string | null>;
+  setLastRun(job: string, at: string): Promise<void>;
+  recordDeadLetters(letters: DeadLetter[]): Promise<void>;
+  listDeadLetters(): Promise<DeadLetter[]>;
+}
+
+interface SendHistoryFile {
+  sends: SendRecord[];
+  lastRuns: Record<string, string>;
+  deadLetters: DeadLetter[];
+}
+
+const DEFAULT_FILE_PATH = path.join(process.cwd(), '.data', 'newsletter-send-history.json');
+
+// Keep a year of history; older posts won't be picked up by a digest again anyway
+const HISTORY_RETENTION = 365 * 24 * 60 * 60 * 1000;
+const MAX_DEAD_LETTERS = 1000;
+
+/**
+ * JSON file store. Writes are serialized and replace the file atomically.
+ */
+export class FileSendHistoryStore implements SendHistoryStore {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string = DEFAULT_FILE_PATH) {}
+
+  async getSentPostUids(subscriberId: string): Promise<Set<string>> {
+    const { sends } = await this.readAll();
+    return new Set(sends.filter(send => send.subscriberId === subscriberId).map(send => send.postUid));
+  }
+
+  async getRecipientIds(postUid: string): Promise<Set<string>> {
+    const { sends } = await this.readAll();
+    return new Set(sends.filter(send => send.postUid === postUid).map(send => send.subscriberId));
+  }
+
+  async record(records: SendRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.mutate(history => {
+      const cutoff = Date.now() - HISTORY_RETENTION;
+      history.sends = [
+        ...history.sends.filter(send => Date.parse(send.sent_at) >= cutoff),
+        ...records,
+      ];
+    });
+  }
+
+  async getLastRun(job: string): Promise<string | null> {
+    const { lastRuns } = await this.readAll();
+    return lastRuns[job] || null;
+  }
+
+  async setLastRun(job: string, at: string): Promise<void> {
+    await this.mutate(history => {
+      history.lastRuns[job] = at;
+    });
+  }
+
+  async recordDeadLetters(letters: DeadLetter[]): Promise<void> {
+    if (letters.length === 0) return;
+
+    await this.mutate(history => {
+      history.deadLetters = [...history.deadLetters, ...letters].slice(-MAX_DEAD_LETTERS);
+    });
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    const { deadLetters } = await this.readAll();
+    return deadLetters;
+  }
+
+  private async readAll(): Promise<SendHistoryFile> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return {
+        sends: Array.isArray(parsed?.sends) ? parsed.sends : [],
+        lastRuns: parsed?.lastRuns && typeof parsed.lastRuns === 'object' ? parsed.lastRuns : {},
+        deadLetters: Array.isArray(parsed?.deadLetters) ? parsed.deadLetters : [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { sends: [], lastRuns: {}, deadLetters: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a read-modify-write cycle after any pending writes
+   */
+  private mutate(change: (history: SendHistoryFile) => void): Promise<void> {
+    const run = async () => {
+      const history = await this.readAll();
+      change(history);
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(history, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// Singleton instance
+let sendHistoryStore: SendHistoryStore | null = null;
+
+/**
+ * Get the shared send history store (NEWSLETTER_HISTORY_PATH overrides the file location)
+ */
+export function getSendHistoryStore(): SendHistoryStore {
+  if (!sendHistoryStore) {
+    sendHistoryStore = new FileSendHistoryStore(process.env.NEWSLETTER_HISTORY_PATH || DEFAULT_FILE_PATH);
+  }
+  return sendHistoryStore;
+}
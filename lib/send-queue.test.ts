@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EmailBatch, EmailTransport, SendResult } from './email-transport';
+import type { DeadLetter } from './send-history';
+import { SendQueue } from './send-queue';
+
+const deadLetters: DeadLetter[] = [];
+
+vi.mock('./send-history', () => ({
+  getSendHistoryStore: () => ({
+    recordDeadLetters: async (letters: DeadLetter[]) => {
+      deadLetters.push(...letters);
+    },
+  }),
+}));
+
+type Outcome = 'ok' | 'retry' | 'fail' | { retryAfterMs: number };
+
+/**
+ * Transport that answers each recipient from a script of outcomes, one per attempt
+ */
+class ScriptedTransport implements EmailTransport {
+  readonly name = 'scripted';
+  calls: { at: number; recipients: string[] }[] = [];
+  private attempts = new Map<string, number>();
+
+  constructor(private script: Record<string, Outcome[]> = {}, readonly maxBatchSize: number = 100) {}
+
+  async send(): Promise<SendResult> {
+    throw new Error('SendQueue only sends batches');
+  }
+
+  async sendBatch(batch: EmailBatch): Promise<SendResult[]> {
+    this.calls.push({ at: Date.now(), recipients: batch.recipients.map(recipient => recipient.to) });
+
+    return batch.recipients.map(({ to }) => {
+      const attempt = this.attempts.get(to) || 0;
+      this.attempts.set(to, attempt + 1);
+      const outcomes = this.script[to] || ['ok'];
+      const outcome = outcomes[Math.min(attempt, outcomes.length - 1)];
+
+      if (outcome === 'ok') {
+        return { ok: true, to, transport: this.name };
+      }
+      if (outcome === 'fail') {
+        return { ok: false, to, transport: this.name, error: 'Invalid recipient', retryable: false };
+      }
+      const retryAfterMs = typeof outcome === 'object' ? outcome.retryAfterMs : undefined;
+      return { ok: false, to, transport: this.name, error: 'Rate limited', retryable: true, retryAfterMs };
+    });
+  }
+}
+
+function batch(...recipients: string[]): EmailBatch {
+  return { subject: 'New post', html: '<p>Hi</p>', text: 'Hi', recipients: recipients.map(to => ({ to })) };
+}
+
+async function run(queue: SendQueue, batches: EmailBatch[]) {
+  const result = queue.send(batches);
+  await vi.runAllTimersAsync();
+  return result;
+}
+
+describe('SendQueue', () => {
+  beforeEach(() => {
+    deadLetters.length = 0;
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('splits batches to the transport size and keeps results in input order', async () => {
+    const transport = new ScriptedTransport({}, 2);
+    const { results, summary } = await run(new SendQueue(transport), [batch('a', 'b', 'c'), batch('d')]);
+
+    expect(transport.calls.map(call => call.recipients)).toEqual([['a', 'b'], ['c'], ['d']]);
+    expect(results.map(result => result.to)).toEqual(['a', 'b', 'c', 'd']);
+    expect(summary).toEqual({ total: 4, delivered: 4, failed: 0, retries: 0 });
+  });
+
+  it('retries only the recipients that failed with a retryable error', async () => {
+    const transport = new ScriptedTransport({ b: ['retry', 'retry', 'ok'] });
+    const { results, summary } = await run(new SendQueue(transport), [batch('a', 'b', 'c')]);
+
+    expect(transport.calls.map(call => call.recipients)).toEqual([['a', 'b', 'c'], ['b'], ['b']]);
+    expect(results.every(result => result.ok)).toBe(true);
+    expect(summary).toEqual({ total: 3, delivered: 3, failed: 0, retries: 2 });
+  });
+
+  it('backs off exponentially between attempts', async () => {
+    const transport = new ScriptedTransport({ a: ['retry', 'retry', 'ok'] });
+    await run(new SendQueue(transport, { baseDelayMs: 100, requestsPerSecond: 1000 }), [batch('a')]);
+
+    const [first, second, third] = transport.calls.map(call => call.at);
+    expect(second - first).toBeGreaterThanOrEqual(100);
+    expect(third - second).toBeGreaterThanOrEqual(200);
+  });
+
+  it('waits at least as long as the provider asks, up to the cap', async () => {
+    const transport = new ScriptedTransport({ a: [{ retryAfterMs: 5000 }, 'ok'], b: [{ retryAfterMs: 60000 }, 'ok'] });
+
+    await run(new SendQueue(transport, { baseDelayMs: 100, maxDelayMs: 10000 }), [batch('a')]);
+    expect(transport.calls[1].at - transport.calls[0].at).toBeGreaterThanOrEqual(5000);
+
+    await run(new SendQueue(transport, { baseDelayMs: 100, maxDelayMs: 10000 }), [batch('b')]);
+    expect(transport.calls[3].at - transport.calls[2].at).toBeLessThan(10200);
+  });
+
+  it('dead-letters permanent failures and recipients out of attempts', async () => {
+    const transport = new ScriptedTransport({ a: ['fail'], b: ['retry'] });
+    const { summary } = await run(
+      new SendQueue(transport, { maxAttempts: 3, context: 'new-post:blt1' }),
+      [batch('a', 'b', 'c')]
+    );
+
+    expect(summary).toEqual({ total: 3, delivered: 1, failed: 2, retries: 2 });
+    expect(deadLetters).toEqual([
+      expect.objectContaining({ to: 'a', subject: 'New post', context: 'new-post:blt1', attempts: 1, error: 'Invalid recipient' }),
+      expect.objectContaining({ to: 'b', subject: 'New post', context: 'new-post:blt1', attempts: 3, error: 'Rate limited' }),
+    ]);
+  });
+
+  it('spaces request starts to the rate limit', async () => {
+    const transport = new ScriptedTransport({}, 1);
+    await run(new SendQueue(transport, { requestsPerSecond: 2, concurrency: 4 }), [batch('a', 'b', 'c')]);
+
+    const [first, second, third] = transport.calls.map(call => call.at);
+    expect(second - first).toBeGreaterThanOrEqual(500);
+    expect(third - second).toBeGreaterThanOrEqual(500);
+  });
+});
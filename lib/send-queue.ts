@@ -0,0 +1,164 @@
+/**
+ * Newsletter Send Queue
+ * Delivers batches through an EmailTransport with a concurrency cap, a request
+ * rate limit and exponential backoff for rate-limited (429) or failed (5xx,
+ * network) sends. Recipients that still fail are written to the dead-letter list.
+ * Server-only.
+ */
+
+import { EmailBatch, EmailTransport, getEmailTransport, SendResult } from './email-transport';
+import { getSendHistoryStore } from './send-history';
+
+export interface SendQueueOptions {
+  concurrency?: number;                // Requests in flight at once
+  requestsPerSecond?: number;          // Request starts per second across all workers
+  maxAttempts?: number;                // Including the first try
+  baseDelayMs?: number;                // First retry delay; doubles each attempt
+  maxDelayMs?: number;
+  context?: string;                    // Recorded with dead letters, e.g. 'new-post:<uid>'
+}
+
+export interface DeliverySummary {
+  total: number;
+  delivered: number;
+  failed: number;
+  retries: number;                     // Extra attempts made across all recipients
+}
+
+export interface QueueResult {
+  results: SendResult[];               // Final result per recipient, in input order
+  summary: DeliverySummary;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SendQueueOptions, 'context'>> = {
+  concurrency: 4,
+  requestsPerSecond: 10,
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+interface QueueJob {
+  batch: EmailBatch;
+  positions: number[];                 // Index of each recipient in the flattened input
+  attempt: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SendQueue {
+  private options: Required<Omit<SendQueueOptions, 'context'>> & { context: string };
+  private nextRequestAt = 0;
+
+  constructor(private transport: EmailTransport = getEmailTransport(), options: SendQueueOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, context: 'newsletter', ...options };
+  }
+
+  /**
+   * Send every batch (split to the transport's batch size) and report per-recipient results
+   */
+  async send(batches: EmailBatch[]): Promise<QueueResult> {
+    const pending: QueueJob[] = [];
+    let total = 0;
+
+    for (const batch of batches) {
+      for (let start = 0; start < batch.recipients.length; start += this.transport.maxBatchSize) {
+        const recipients = batch.recipients.slice(start, start + this.transport.maxBatchSize);
+        pending.push({
+          batch: { ...batch, recipients },
+          positions: recipients.map((_, index) => total + start + index),
+          attempt: 1,
+        });
+      }
+      total += batch.recipients.length;
+    }
+
+    const results: SendResult[] = new Array(total);
+    const attempts: number[] = new Array(total).fill(0);
+    let retries = 0;
+
+    const worker = async () => {
+      for (let job = pending.shift(); job; job = pending.shift()) {
+        await this.throttle();
+        const batchResults = await this.transport.sendBatch(job.batch);
+
+        const retryIndexes: number[] = [];
+        let retryAfterMs = 0;
+
+        batchResults.forEach((result, index) => {
+          const position = job!.positions[index];
+          results[position] = result;
+          attempts[position] = job!.attempt;
+
+          if (!result.ok && result.retryable && job!.attempt < this.options.maxAttempts) {
+            retryIndexes.push(index);
+            retryAfterMs = Math.max(retryAfterMs, result.retryAfterMs ?? 0);
+          }
+        });
+
+        if (retryIndexes.length > 0) {
+          retries += retryIndexes.length;
+          // Back off in this worker, then retry only the recipients that failed
+          await sleep(this.getBackoff(job.attempt, retryAfterMs));
+          pending.push({
+            batch: { ...job.batch, recipients: retryIndexes.map(index => job!.batch.recipients[index]) },
+            positions: retryIndexes.map(index => job!.positions[index]),
+            attempt: job.attempt + 1,
+          });
+        }
+      }
+    };
+
+    // A worker that schedules a retry keeps running, so every job is drained
+    const workerCount = Math.min(this.options.concurrency, Math.max(pending.length, 1));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    const subjects = batches.flatMap(batch => batch.recipients.map(() => batch.subject));
+    const deadLetters = results.flatMap((result, position) => result.ok ? [] : [{
+      to: result.to,
+      subject: subjects[position],
+      context: this.options.context,
+      error: result.error,
+      attempts: attempts[position],
+      failed_at: new Date().toISOString(),
+    }]);
+    await getSendHistoryStore().recordDeadLetters(deadLetters);
+
+    const summary: DeliverySummary = {
+      total,
+      delivered: results.filter(result => result.ok).length,
+      failed: deadLetters.length,
+      retries,
+    };
+
+    if (summary.failed > 0) {
+      console.warn(`📮 SendQueue: ${summary.failed} of ${total} failed for ${this.options.context}, moved to dead letters`);
+    }
+    console.log(`📮 SendQueue: ${this.options.context}`, summary);
+
+    return { results, summary };
+  }
+
+  /**
+   * Exponential backoff with jitter, never shorter than the provider's Retry-After
+   */
+  private getBackoff(attempt: number, retryAfterMs: number): number {
+    const exponential = this.options.baseDelayMs * 2 ** (attempt - 1);
+    const jitter = Math.random() * this.options.baseDelayMs;
+    return Math.min(Math.max(exponential + jitter, retryAfterMs), this.options.maxDelayMs);
+  }
+
+  /**
+   * Space request starts evenly to stay under requestsPerSecond
+   */
+  private async throttle(): Promise<void> {
+    const interval = 1000 / this.options.requestsPerSecond;
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = startAt + interval;
+
+    if (startAt > now) {
+      await sleep(startAt - now);
+    }
+  }
+}
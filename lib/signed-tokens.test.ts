@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSignedToken, signValue, verifySignedToken, verifySignedValue } from './signed-tokens';
+
+const SECRET = 'test-token-secret';
+const SUBSCRIBER = { id: 'sub-1', email: 'reader@example.com' };
+
+describe('createSignedToken / verifySignedToken', () => {
+  it('round-trips the subscriber and purpose', () => {
+    const token = createSignedToken(SUBSCRIBER, 'confirm', { secret: SECRET });
+    const result = verifySignedToken(token, 'confirm', { secret: SECRET });
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.payload).toMatchObject({ sub: 'sub-1', email: 'reader@example.com', purpose: 'confirm' });
+      expect(result.payload.exp).toBeUndefined();
+    }
+  });
+
+  it('rejects a token used for another purpose', () => {
+    const token = createSignedToken(SUBSCRIBER, 'preferences', { secret: SECRET });
+    expect(verifySignedToken(token, 'unsubscribe', { secret: SECRET })).toEqual({ valid: false, reason: 'wrong_purpose' });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = createSignedToken(SUBSCRIBER, 'unsubscribe', { secret: 'other-secret' });
+    expect(verifySignedToken(token, 'unsubscribe', { secret: SECRET })).toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('rejects a payload edited after signing', () => {
+    const [, signature] = createSignedToken(SUBSCRIBER, 'unsubscribe', { secret: SECRET }).split('.');
+    const forged = Buffer.from(JSON.stringify({
+      sub: 'sub-2',
+      email: 'someone-else@example.com',
+      purpose: 'unsubscribe',
+      iat: Math.floor(Date.now() / 1000),
+    })).toString('base64url');
+
+    expect(verifySignedToken(`${forged}.${signature}`, 'unsubscribe', { secret: SECRET }).valid).toBe(false);
+  });
+
+  it('rejects expired tokens', () => {
+    const token = createSignedToken(SUBSCRIBER, 'confirm', { secret: SECRET, expiresIn: 60 });
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(verifySignedToken(token, 'confirm', { secret: SECRET, now: now + 30 }).valid).toBe(true);
+    expect(verifySignedToken(token, 'confirm', { secret: SECRET, now: now + 120 })).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects malformed tokens', () => {
+    for (const token of ['', 'abc', 'a.b.c', `${Buffer.from('not json').toString('base64url')}.sig`]) {
+      expect(verifySignedToken(token, 'confirm', { secret: SECRET }).valid).toBe(false);
+    }
+  });
+});
+
+describe('signValue / verifySignedValue', () => {
+  it('round-trips a value signed with the same secret', () => {
+    expect(verifySignedValue(signValue('uid_abc-123', { secret: SECRET }), { secret: SECRET })).toBe('uid_abc-123');
+  });
+
+  it('rejects edited values, other secrets and malformed input', () => {
+    const [, signature] = signValue('uid_abc', { secret: SECRET }).split('.');
+
+    expect(verifySignedValue(`uid_xyz.${signature}`, { secret: SECRET })).toBeNull();
+    expect(verifySignedValue(signValue('uid_abc', { secret: 'other-secret' }), { secret: SECRET })).toBeNull();
+    for (const signed of [undefined, null, '', 'uid_abc', 'uid_abc.', `a.b.${signature}`]) {
+      expect(verifySignedValue(signed, { secret: SECRET })).toBeNull();
+    }
+  });
+});
+
+describe('token secret', () => {
+  const original = process.env.NEWSLETTER_TOKEN_SECRET;
+
+  beforeEach(() => {
+    delete process.env.NEWSLETTER_TOKEN_SECRET;
+  });
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.NEWSLETTER_TOKEN_SECRET;
+    } else {
+      process.env.NEWSLETTER_TOKEN_SECRET = original;
+    }
+  });
+
+  it('fails loudly when NEWSLETTER_TOKEN_SECRET is not configured', () => {
+    expect(() => createSignedToken(SUBSCRIBER, 'confirm')).toThrow('NEWSLETTER_TOKEN_SECRET');
+  });
+
+  it('uses NEWSLETTER_TOKEN_SECRET by default', () => {
+    process.env.NEWSLETTER_TOKEN_SECRET = SECRET;
+    const token = createSignedToken(SUBSCRIBER, 'unsubscribe');
+    expect(verifySignedToken(token, 'unsubscribe', { secret: SECRET }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Signed Newsletter Tokens
+ * Compact HMAC-SHA256 tokens for links in newsletter emails (confirm, unsubscribe,
+ * preferences). Format: base64url(JSON payload) + "." + base64url(signature).
+ * The same key signs cookie values the server must be able to trust (signValue).
+ * Server-only - uses node:crypto and NEWSLETTER_TOKEN_SECRET.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type TokenPurpose = 'confirm' | 'unsubscribe' | 'preferences';
+
+export interface TokenPayload {
+  sub: string;                         // Subscriber ID
+  email: string;
+  purpose: TokenPurpose;
+  iat: number;                         // Issued at (unix seconds)
+  exp?: number;                        // Expiry (unix seconds); omitted for long-lived links
+}
+
+export type TokenRejection = 'malformed' | 'invalid_signature' | 'wrong_purpose' | 'expired';
+
+export type TokenVerification =
+  | { valid: true; payload: TokenPayload }
+  | { valid: false; reason: TokenRejection };
+
+/**
+ * Read the signing secret, failing loudly when it is not configured
+ */
+function getTokenSecret(): string {
+  const secret = process.env.NEWSLETTER_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('NEWSLETTER_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data, 'utf8').digest('base64url');
+}
+
+/**
+ * Create a signed token for a subscriber. Pass `expiresIn` (seconds) for links that should lapse.
+ */
+export function createSignedToken(
+  subject: { id: string; email: string },
+  purpose: TokenPurpose,
+  options: { expiresIn?: number; secret?: string } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: TokenPayload = {
+    sub: subject.id,
+    email: subject.email,
+    purpose,
+    iat: now,
+    ...(options.expiresIn ? { exp: now + options.expiresIn } : {}),
+  };
+
+  const data = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${data}.${sign(data, options.secret ?? getTokenSecret())}`;
+}
+
+/**
+ * Verify a token's signature, purpose and expiry
+ */
+export function verifySignedToken(
+  token: string,
+  purpose: TokenPurpose,
+  options: { secret?: string; now?: number } = {}
+): TokenVerification {
+  const [data, signature, ...rest] = (token || '').split('.');
+  if (!data || !signature || rest.length > 0) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const expected = Buffer.from(sign(data, options.secret ?? getTokenSecret()));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (!payload?.sub || !payload.email) {
+    return { valid: false, reason: 'malformed' };
+  }
+  if (payload.purpose !== purpose) {
+    return { valid: false, reason: 'wrong_purpose' };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (payload.exp !== undefined && payload.exp < now) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload };
+}
+
+/**
+ * Sign a short value (e.g. a cookie) as value + "." + signature. The value must not contain dots.
+ */
+export function signValue(value: string, options: { secret?: string } = {}): string {
+  return `${value}.${sign(value, options.secret ?? getTokenSecret())}`;
+}
+
+/**
+ * The value of a signValue() string, or null when it is malformed or the signature doesn't match
+ */
+export function verifySignedValue(signed: string | null | undefined, options: { secret?: string } = {}): string | null {
+  const [value, signature, ...rest] = (signed || '').split('.');
+  if (!value || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(value, options.secret ?? getTokenSecret()));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided) ? value : null;
+}
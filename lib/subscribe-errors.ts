@@ -0,0 +1,32 @@
+/**
+ * Newsletter Subscribe Errors
+ * Error codes returned by /api/newsletter/subscribe as `{ error, code }`, and the
+ * messages the signup forms show for them. Shared by the route and the client.
+ */
+
+export type SubscribeErrorCode =
+  | 'invalid_request'
+  | 'invalid_email'
+  | 'disposable_email'
+  | 'rate_limited'
+  | 'suppressed'
+  | 'confirmation_failed'
+  | 'server_error';
+
+export const SUBSCRIBE_ERROR_MESSAGES: Record<SubscribeErrorCode, string> = {
+  invalid_request: 'Something went wrong sending the form. Please reload the page and try again.',
+  invalid_email: 'Please enter a valid email address',
+  disposable_email: 'Please use a permanent email address - temporary inboxes can\'t receive the newsletter.',
+  rate_limited: 'Too many signup attempts. Please wait a few minutes and try again.',
+  suppressed: 'We can\'t send email to this address. Please use a different one.',
+  confirmation_failed: 'We could not send your confirmation email. Please try again.',
+  server_error: 'Failed to subscribe. Please try again.',
+};
+
+/**
+ * Message for a subscribe response's error code, falling back to the server's text
+ */
+export function getSubscribeErrorMessage(data: { code?: string; error?: string } | null | undefined): string {
+  const code = data?.code as SubscribeErrorCode | undefined;
+  return (code && SUBSCRIBE_ERROR_MESSAGES[code]) || data?.error || SUBSCRIBE_ERROR_MESSAGES.server_error;
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  getClientIp,
+  HONEYPOT_FIELD,
+  isDisposableEmail,
+  isHoneypotTripped,
+  isValidEmail,
+  RateLimiter,
+} from './subscribe-protection';
+
+describe('getClientIp', () => {
+  it('uses the hop the proxy appended, not the client-supplied entries', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.2.3.4, 10.0.0.1,  203.0.113.7 ' });
+    expect(getClientIp(headers)).toBe('203.0.113.7');
+  });
+
+  it('handles a single hop and stray separators', () => {
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7, ' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to x-real-ip, then "unknown"', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': ' , ', 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(getClientIp(new Headers())).toBe('unknown');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('allows up to the limit within the window, then reports when to retry', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60 * 1000 });
+
+    expect(limiter.hit('a', 0)).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+    expect(limiter.hit('a', 1000)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+    expect(limiter.hit('a', 10 * 1000)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 50 });
+    expect(limiter.hit('b', 10 * 1000).allowed).toBe(true);
+  });
+
+  it('slides the window instead of resetting it', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60 * 1000 });
+    limiter.hit('a', 0);
+    limiter.hit('a', 30 * 1000);
+
+    expect(limiter.hit('a', 59 * 1000).allowed).toBe(false);
+    expect(limiter.hit('a', 61 * 1000).allowed).toBe(true);
+    expect(limiter.hit('a', 62 * 1000).allowed).toBe(false);
+  });
+
+  it('forgets the least recently used keys past the cap', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 60 * 1000 }, 2);
+    limiter.hit('a', 0);
+    limiter.hit('b', 0);
+    limiter.hit('c', 0);
+
+    expect(limiter.hit('a', 1000).allowed).toBe(true);
+    expect(limiter.hit('c', 1000).allowed).toBe(false);
+  });
+});
+
+describe('isValidEmail', () => {
+  it('accepts ordinary addresses', () => {
+    for (const email of ['reader@example.com', 'first.last+news@mail.example.co.uk', 'a_b-c%d@sub-domain.io']) {
+      expect(isValidEmail(email)).toBe(true);
+    }
+  });
+
+  it('rejects malformed or oversized addresses', () => {
+    for (const email of [
+      'reader',
+      'reader@',
+      '@example.com',
+      'a@b@example.com',
+      '.reader@example.com',
+      'read..er@example.com',
+      'reader@example',
+      'reader@-example.com',
+      'reader@example.c',
+      'rea der@example.com',
+      `${'a'.repeat(65)}@example.com`,
+      `reader@${'a'.repeat(250)}.com`,
+    ]) {
+      expect(isValidEmail(email)).toBe(false);
+    }
+  });
+});
+
+describe('isDisposableEmail', () => {
+  const original = process.env.NEWSLETTER_BLOCKED_DOMAINS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.NEWSLETTER_BLOCKED_DOMAINS;
+    } else {
+      process.env.NEWSLETTER_BLOCKED_DOMAINS = original;
+    }
+  });
+
+  it('matches blocklisted domains and their subdomains, case-insensitively', () => {
+    expect(isDisposableEmail('reader@mailinator.com')).toBe(true);
+    expect(isDisposableEmail('reader@Inbox.MAILINATOR.com')).toBe(true);
+    expect(isDisposableEmail('reader@example.com')).toBe(false);
+    expect(isDisposableEmail('reader@notmailinator.com')).toBe(false);
+  });
+
+  it('adds domains from NEWSLETTER_BLOCKED_DOMAINS', () => {
+    process.env.NEWSLETTER_BLOCKED_DOMAINS = 'throwaway.example, other.example';
+    expect(isDisposableEmail('reader@throwaway.example')).toBe(true);
+    expect(isDisposableEmail('reader@other.example')).toBe(true);
+  });
+});
+
+describe('isHoneypotTripped', () => {
+  it('trips only when the hidden field has a value', () => {
+    expect(isHoneypotTripped({ email: 'reader@example.com', [HONEYPOT_FIELD]: 'https://spam.example' })).toBe(true);
+    expect(isHoneypotTripped({ email: 'reader@example.com', [HONEYPOT_FIELD]: '  ' })).toBe(false);
+    expect(isHoneypotTripped({ email: 'reader@example.com' })).toBe(false);
+    expect(isHoneypotTripped(null)).toBe(false);
+  });
+});
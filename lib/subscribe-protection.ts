@@ -0,0 +1,152 @@
+/**
+ * Newsletter Signup Protection
+ * Checks run before /api/newsletter/subscribe touches the store or sends mail:
+ * stricter address validation, a disposable-domain blocklist, a honeypot field
+ * and per-IP / per-email rate limits.
+ * Server-only - limits are kept in memory per server instance.
+ */
+
+import { DISPOSABLE_EMAIL_DOMAINS } from './disposable-email-domains';
+
+// Hidden form field real visitors never fill in
+export const HONEYPOT_FIELD = 'website';
+
+export interface RateLimit {
+  limit: number;                       // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;           // 0 when allowed
+}
+
+// A household or office can share an IP, so allow a few signups from one address
+export const IP_RATE_LIMIT: RateLimit = { limit: 10, windowMs: 10 * 60 * 1000 };
+// Each attempt can send a confirmation email - don't let one inbox be flooded
+export const EMAIL_RATE_LIMIT: RateLimit = { limit: 3, windowMs: 60 * 60 * 1000 };
+
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * Sliding-window rate limiter keyed by any string (IP, email, ...)
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private rule: RateLimit, private maxKeys: number = MAX_TRACKED_KEYS) {}
+
+  /**
+   * Record an attempt for `key` and report whether it is within the limit
+   */
+  hit(key: string, now: number = Date.now()): RateLimitResult {
+    const windowStart = now - this.rule.windowMs;
+    const recent = (this.hits.get(key) || []).filter(time => time > windowStart);
+
+    if (recent.length >= this.rule.limit) {
+      this.hits.set(key, recent);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((recent[0] + this.rule.windowMs - now) / 1000),
+      };
+    }
+
+    recent.push(now);
+    // Re-insert so the Map stays ordered by last use for eviction
+    this.hits.delete(key);
+    this.hits.set(key, recent);
+    this.evict(windowStart);
+
+    return { allowed: true, remaining: this.rule.limit - recent.length, retryAfterSeconds: 0 };
+  }
+
+  private evict(windowStart: number): void {
+    if (this.hits.size <= this.maxKeys) return;
+
+    for (const [key, times] of this.hits) {
+      if (times[times.length - 1] <= windowStart) {
+        this.hits.delete(key);
+      }
+    }
+
+    while (this.hits.size > this.maxKeys) {
+      const oldestKey = this.hits.keys().next().value as string;
+      this.hits.delete(oldestKey);
+    }
+  }
+}
+
+// Singleton instances
+let ipRateLimiter: RateLimiter | null = null;
+let emailRateLimiter: RateLimiter | null = null;
+
+/**
+ * Get the shared per-IP and per-email signup limiters
+ */
+export function getSubscribeRateLimiters(): { ip: RateLimiter; email: RateLimiter } {
+  if (!ipRateLimiter || !emailRateLimiter) {
+    ipRateLimiter = new RateLimiter(IP_RATE_LIMIT);
+    emailRateLimiter = new RateLimiter(EMAIL_RATE_LIMIT);
+  }
+  return { ip: ipRateLimiter, email: emailRateLimiter };
+}
+
+/**
+ * Client IP from the proxy headers set by the hosting platform. Entries before
+ * the last X-Forwarded-For hop come from the client and can be spoofed, so only
+ * the address our proxy appended is trusted.
+ */
+export function getClientIp(headers: Headers): string {
+  const hops = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) {
+    return hops[hops.length - 1];
+  }
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Syntax and length check (RFC 5321 limits), stricter than the forms' quick regex
+ */
+export function isValidEmail(email: string): boolean {
+  if (email.length > 254) return false;
+
+  const [localPart, domain, ...rest] = email.split('@');
+  if (rest.length > 0 || !localPart || !domain || localPart.length > 64) return false;
+  if (localPart.startsWith('.') || localPart.endsWith('.') || localPart.includes('..')) return false;
+
+  return /^[a-zA-Z0-9._%+-]+$/.test(localPart) &&
+    /^(?!-)[a-zA-Z0-9-]{1,63}(?<!-)(\.(?!-)[a-zA-Z0-9-]{1,63}(?<!-))*\.[a-zA-Z]{2,}$/.test(domain);
+}
+
+/**
+ * Whether the address belongs to a throwaway-inbox provider (or a subdomain of one)
+ */
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase() || '';
+  const extraDomains = (process.env.NEWSLETTER_BLOCKED_DOMAINS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  const labels = domain.split('.');
+  for (let index = 0; index < labels.length - 1; index++) {
+    const candidate = labels.slice(index).join('.');
+    if (DISPOSABLE_EMAIL_DOMAINS.has(candidate) || extraDomains.includes(candidate)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * True when the honeypot field was filled in, i.e. the form was submitted by a bot
+ */
+export function isHoneypotTripped(body: Record<string, unknown> | null | undefined): boolean {
+  const value = body?.[HONEYPOT_FIELD];
+  return typeof value === 'string' && value.trim() !== '';
+}
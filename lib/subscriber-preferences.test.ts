@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { matchesPreferences, normalizePreferences } from './subscriber-preferences';
+
+describe('normalizePreferences', () => {
+  it('stores topics as canonical tags, once each', () => {
+    expect(normalizePreferences({ topics: ['JS', 'javascript', 'ReactJS', ' ', 42] }).topics)
+      .toEqual(['javascript', 'react']);
+  });
+
+  it('fills in defaults for missing or invalid settings', () => {
+    expect(normalizePreferences({ frequency: 'hourly', paused: 'yes' })).toEqual({
+      topics: [],
+      authors: [],
+      frequency: 'instant',
+      paused: false,
+    });
+  });
+});
+
+describe('matchesPreferences', () => {
+  it('sends everything when nothing is selected', () => {
+    expect(matchesPreferences(normalizePreferences({}), { tags: ['Go'] })).toBe(true);
+  });
+
+  it('matches topics and post tags through synonyms', () => {
+    const preferences = normalizePreferences({ topics: ['javascript'] });
+
+    expect(matchesPreferences(preferences, { tags: ['JS'] })).toBe(true);
+    expect(matchesPreferences(preferences, { tags: ['JavaScript Tips'] })).toBe(true);
+    expect(matchesPreferences(preferences, { tags: ['TypeScript'] })).toBe(false);
+  });
+
+  it('canonicalizes topics stored before tags were canonical', () => {
+    const legacy = { topics: ['reactjs'], authors: [], frequency: 'instant' as const, paused: false };
+    expect(matchesPreferences(legacy, { tags: ['React'] })).toBe(true);
+  });
+
+  it('matches a followed author without a shared topic', () => {
+    const preferences = normalizePreferences({ topics: ['react'], authors: ['blt-author'] });
+    expect(matchesPreferences(preferences, { tags: ['Go'], authorUids: ['blt-author'] })).toBe(true);
+  });
+});
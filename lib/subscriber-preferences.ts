@@ -0,0 +1,82 @@
+/**
+ * Subscriber Preferences
+ * Topic, author, frequency and pause settings from the newsletter preference center,
+ * and the matching rule that decides which subscribers are emailed about a post.
+ * Topics are canonical tags (see lib/tag-taxonomy), matching the blog facet filters,
+ * so a subscriber following "javascript" hears about posts tagged "JS".
+ */
+
+import { canonicalizeTag, canonicalizeTags } from './tag-taxonomy';
+
+export type DeliveryFrequency = 'instant' | 'weekly';
+
+export interface SubscriberPreferences {
+  topics: string[];                    // Canonical tags; empty means every topic
+  authors: string[];                   // Author UIDs; empty means every author
+  frequency: DeliveryFrequency;
+  paused: boolean;                     // Keep the subscription but send nothing
+}
+
+export const DELIVERY_FREQUENCIES: Record<DeliveryFrequency, { label: string; description: string }> = {
+  instant: { label: 'As published', description: 'An email for each new story' },
+  weekly: { label: 'Weekly digest', description: 'One round-up email a week' },
+};
+
+export const DEFAULT_PREFERENCES: SubscriberPreferences = {
+  topics: [],
+  authors: [],
+  frequency: 'instant',
+  paused: false,
+};
+
+const MAX_SELECTIONS = 50;
+
+function toStringList(value: unknown, normalize: (item: string) => string): string[] {
+  if (!Array.isArray(value)) return [];
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map(normalize)
+    .filter(Boolean);
+  return [...new Set(items)].slice(0, MAX_SELECTIONS);
+}
+
+/**
+ * Coerce stored or submitted preferences into a complete, valid object
+ */
+export function normalizePreferences(input: unknown): SubscriberPreferences {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  return {
+    topics: toStringList(raw.topics, canonicalizeTag),
+    authors: toStringList(raw.authors, uid => uid.trim()),
+    frequency: raw.frequency === 'weekly' ? 'weekly' : DEFAULT_PREFERENCES.frequency,
+    paused: raw.paused === true,
+  };
+}
+
+/**
+ * Whether a post matches a subscriber's topic and author choices. With nothing
+ * selected the subscriber follows everything; otherwise a shared tag or a followed
+ * author is enough.
+ */
+export function matchesPreferences(
+  preferences: SubscriberPreferences,
+  post: { tags?: string[]; authorUids?: string[] }
+): boolean {
+  if (preferences.topics.length === 0 && preferences.authors.length === 0) {
+    return true;
+  }
+
+  const postTags = canonicalizeTags(post.tags || []);
+  const postAuthors = post.authorUids || [];
+
+  return preferences.topics.some(topic => postTags.includes(canonicalizeTag(topic))) ||
+    preferences.authors.some(uid => postAuthors.includes(uid));
+}
+
+/**
+ * Whether a subscriber should get an individual email as soon as a matching post is published
+ */
+export function wantsInstantDelivery(preferences: SubscriberPreferences): boolean {
+  return !preferences.paused && preferences.frequency === 'instant';
+}
@@ -0,0 +1,359 @@
+/**
+ * Newsletter Subscriber Store
+ * Persistence for `newsletter_subscriber` records behind a pluggable interface.
+ * - FileSubscriberStore: JSON file on local disk, for development and single-node deployments
+ * - ContentstackSubscriberStore: entries in the stack via the Content Management API
+ * Server-only - uses node:fs and management credentials.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { endpoints } from './contentstack';
+import { DEFAULT_PREFERENCES, normalizePreferences, SubscriberPreferences } from './subscriber-preferences';
+
+// 'pending' subscribers have signed up but not yet confirmed their address (double opt-in).
+// 'suppressed' addresses hard-bounced or reported spam and are never emailed again.
+export type SubscriberStatus = 'pending' | 'active' | 'inactive' | 'suppressed';
+
+// 'dropped': the provider refused to send because the address is invalid
+export type SuppressionReason = 'bounce' | 'dropped' | 'spamreport';
+
+export interface NewsletterSubscriber {
+  id: string;
+  email: string;                       // Normalized: trimmed and lowercased
+  status: SubscriberStatus;
+  source: string;                      // Where the signup came from, e.g. 'homepage_form'
+  subscribed_at: string;               // ISO timestamps
+  updated_at: string;
+  confirmed_at?: string | null;        // Set when the confirmation link is followed
+  unsubscribed_at?: string | null;
+  suppressed_at?: string | null;       // Set from provider bounce/complaint events
+  suppression_reason?: SuppressionReason | null;
+  preferences: SubscriberPreferences;
+}
+
+export interface CreateSubscriberInput {
+  email: string;
+  source: string;
+  status?: SubscriberStatus;
+}
+
+export type SubscriberUpdate = Partial<Pick<NewsletterSubscriber, 'status' | 'source' | 'subscribed_at' | 'confirmed_at' | 'unsubscribed_at' | 'suppressed_at' | 'suppression_reason' | 'preferences'>>;
+
+export interface SubscriberStore {
+  findById(id: string): Promise<NewsletterSubscriber | null>;
+  findByEmail(email: string): Promise<NewsletterSubscriber | null>;
+  create(input: CreateSubscriberInput): Promise<NewsletterSubscriber>;
+  update(id: string, changes: SubscriberUpdate): Promise<NewsletterSubscriber>;
+  list(filter?: { status?: SubscriberStatus }): Promise<NewsletterSubscriber[]>;
+}
+
+export class SubscriberNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Subscriber ${id} not found`);
+    this.name = 'SubscriberNotFoundError';
+  }
+}
+
+export const SUBSCRIBER_CONTENT_TYPE = 'newsletter_subscriber';
+const DEFAULT_FILE_PATH = path.join(process.cwd(), '.data', 'newsletter-subscribers.json');
+
+/**
+ * Normalize an email for storage and lookups
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * JSON file store. Writes are serialized and replace the file atomically.
+ */
+export class FileSubscriberStore implements SubscriberStore {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string = DEFAULT_FILE_PATH) {}
+
+  async findById(id: string): Promise<NewsletterSubscriber | null> {
+    const subscribers = await this.readAll();
+    return subscribers.find(subscriber => subscriber.id === id) || null;
+  }
+
+  async findByEmail(email: string): Promise<NewsletterSubscriber | null> {
+    const normalized = normalizeEmail(email);
+    const subscribers = await this.readAll();
+    return subscribers.find(subscriber => subscriber.email === normalized) || null;
+  }
+
+  async create(input: CreateSubscriberInput): Promise<NewsletterSubscriber> {
+    return this.mutate(subscribers => {
+      const email = normalizeEmail(input.email);
+      if (subscribers.some(subscriber => subscriber.email === email)) {
+        throw new Error(`Subscriber ${email} already exists`);
+      }
+
+      const now = new Date().toISOString();
+      const subscriber: NewsletterSubscriber = {
+        id: randomUUID(),
+        email,
+        status: input.status || 'active',
+        source: input.source,
+        subscribed_at: now,
+        updated_at: now,
+        confirmed_at: null,
+        unsubscribed_at: null,
+        suppressed_at: null,
+        suppression_reason: null,
+        preferences: { ...DEFAULT_PREFERENCES },
+      };
+      subscribers.push(subscriber);
+      return subscriber;
+    });
+  }
+
+  async update(id: string, changes: SubscriberUpdate): Promise<NewsletterSubscriber> {
+    return this.mutate(subscribers => {
+      const index = subscribers.findIndex(subscriber => subscriber.id === id);
+      if (index === -1) {
+        throw new SubscriberNotFoundError(id);
+      }
+
+      const updated = { ...subscribers[index], ...changes, updated_at: new Date().toISOString() };
+      subscribers[index] = updated;
+      return updated;
+    });
+  }
+
+  async list(filter: { status?: SubscriberStatus } = {}): Promise<NewsletterSubscriber[]> {
+    const subscribers = await this.readAll();
+    return filter.status ? subscribers.filter(subscriber => subscriber.status === filter.status) : subscribers;
+  }
+
+  private async readAll(): Promise<NewsletterSubscriber[]> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(contents);
+      // Records written before the preference center existed have no preferences
+      return Array.isArray(parsed)
+        ? parsed.map(subscriber => ({ ...subscriber, preferences: normalizePreferences(subscriber.preferences) }))
+        : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a read-modify-write cycle after any pending writes
+   */
+  private mutate<T>(change: (subscribers: NewsletterSubscriber[]) => T): Promise<T> {
+    const run = async () => {
+      const subscribers = await this.readAll();
+      const result = change(subscribers);
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(subscribers, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+
+      return result;
+    };
+
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+export interface ContentstackSubscriberStoreConfig {
+  apiKey: string;
+  managementToken: string;
+  environment: string;
+  host: string;                        // Content Management API host, without scheme
+  locale?: string;
+}
+
+interface SubscriberEntry {
+  uid: string;
+  title: string;
+  email: string;
+  status: SubscriberStatus;
+  source?: string;
+  subscribed_at?: string;
+  confirmed_at?: string | null;
+  unsubscribed_at?: string | null;
+  suppressed_at?: string | null;
+  suppression_reason?: SuppressionReason | null;
+  preferences?: Partial<SubscriberPreferences>;  // Group field
+  updated_at: string;
+  created_at: string;
+}
+
+/**
+ * Content Management API store. Entries are published after each write so the
+ * Delivery API (and the existing read paths) see them too.
+ */
+export class ContentstackSubscriberStore implements SubscriberStore {
+  private locale: string;
+
+  constructor(private config: ContentstackSubscriberStoreConfig) {
+    this.locale = config.locale || 'en-us';
+  }
+
+  async findById(id: string): Promise<NewsletterSubscriber | null> {
+    const query = encodeURIComponent(JSON.stringify({ uid: id }));
+    const data = await this.request<{ entries: SubscriberEntry[] }>(
+      'GET',
+      `/content_types/${SUBSCRIBER_CONTENT_TYPE}/entries?query=${query}&limit=1`
+    );
+    return data.entries?.[0] ? this.toSubscriber(data.entries[0]) : null;
+  }
+
+  async findByEmail(email: string): Promise<NewsletterSubscriber | null> {
+    const query = encodeURIComponent(JSON.stringify({ email: normalizeEmail(email) }));
+    const data = await this.request<{ entries: SubscriberEntry[] }>(
+      'GET',
+      `/content_types/${SUBSCRIBER_CONTENT_TYPE}/entries?query=${query}&limit=1`
+    );
+    return data.entries?.[0] ? this.toSubscriber(data.entries[0]) : null;
+  }
+
+  async create(input: CreateSubscriberInput): Promise<NewsletterSubscriber> {
+    const email = normalizeEmail(input.email);
+    const data = await this.request<{ entry: SubscriberEntry }>(
+      'POST',
+      `/content_types/${SUBSCRIBER_CONTENT_TYPE}/entries?locale=${this.locale}`,
+      {
+        entry: {
+          title: email,
+          email,
+          status: input.status || 'active',
+          source: input.source,
+          subscribed_at: new Date().toISOString(),
+          confirmed_at: null,
+          unsubscribed_at: null,
+          suppressed_at: null,
+          suppression_reason: null,
+          preferences: DEFAULT_PREFERENCES,
+        },
+      }
+    );
+
+    await this.publish(data.entry.uid);
+    return this.toSubscriber(data.entry);
+  }
+
+  async update(id: string, changes: SubscriberUpdate): Promise<NewsletterSubscriber> {
+    const data = await this.request<{ entry: SubscriberEntry }>(
+      'PUT',
+      `/content_types/${SUBSCRIBER_CONTENT_TYPE}/entries/${id}?locale=${this.locale}`,
+      { entry: changes }
+    );
+
+    await this.publish(id);
+    return this.toSubscriber(data.entry);
+  }
+
+  async list(filter: { status?: SubscriberStatus } = {}): Promise<NewsletterSubscriber[]> {
+    const pageSize = 100;
+    const query = filter.status ? `&query=${encodeURIComponent(JSON.stringify({ status: filter.status }))}` : '';
+    const subscribers: NewsletterSubscriber[] = [];
+
+    for (let skip = 0; ; skip += pageSize) {
+      const data = await this.request<{ entries: SubscriberEntry[]; count?: number }>(
+        'GET',
+        `/content_types/${SUBSCRIBER_CONTENT_TYPE}/entries?limit=${pageSize}&skip=${skip}&include_count=true${query}`
+      );
+      const entries = data.entries || [];
+      subscribers.push(...entries.map(entry => this.toSubscriber(entry)));
+
+      if (entries.length < pageSize || subscribers.length >= (data.count ?? Infinity)) {
+        break;
+      }
+    }
+
+    return subscribers;
+  }
+
+  private async publish(uid: string): Promise<void> {
+    await this.request('POST', `/content_types/${SUBSCRIBER_CONTENT_TYPE}/entries/${uid}/publish`, {
+      entry: { environments: [this.config.environment], locales: [this.locale] },
+    });
+  }
+
+  private async request<T>(method: string, pathname: string, body?: unknown): Promise<T> {
+    const response = await fetch(`https://${this.config.host}/v3${pathname}`, {
+      method,
+      headers: {
+        api_key: this.config.apiKey,
+        authorization: this.config.managementToken,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: 'no-store',
+    });
+
+    if (response.status === 404 && method !== 'GET') {
+      throw new SubscriberNotFoundError(pathname);
+    }
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Contentstack Management API ${method} ${pathname} failed with status ${response.status}: ${details}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  private toSubscriber(entry: SubscriberEntry): NewsletterSubscriber {
+    return {
+      id: entry.uid,
+      email: entry.email,
+      status: entry.status,
+      source: entry.source || 'unknown',
+      subscribed_at: entry.subscribed_at || entry.created_at,
+      updated_at: entry.updated_at,
+      confirmed_at: entry.confirmed_at ?? null,
+      unsubscribed_at: entry.unsubscribed_at ?? null,
+      suppressed_at: entry.suppressed_at ?? null,
+      suppression_reason: entry.suppression_reason ?? null,
+      preferences: normalizePreferences(entry.preferences),
+    };
+  }
+}
+
+// Singleton instance
+let subscriberStore: SubscriberStore | null = null;
+
+/**
+ * Get the configured subscriber store. NEWSLETTER_STORE selects "file" or
+ * "contentstack"; by default the Management API is used when a token is set.
+ */
+export function getSubscriberStore(): SubscriberStore {
+  if (subscriberStore) {
+    return subscriberStore;
+  }
+
+  const managementToken = process.env.CONTENTSTACK_MANAGEMENT_TOKEN;
+  const storeType = process.env.NEWSLETTER_STORE || (managementToken ? 'contentstack' : 'file');
+
+  if (storeType === 'contentstack') {
+    if (!managementToken) {
+      throw new Error('NEWSLETTER_STORE=contentstack requires CONTENTSTACK_MANAGEMENT_TOKEN');
+    }
+
+    subscriberStore = new ContentstackSubscriberStore({
+      apiKey: process.env.NEXT_PUBLIC_CONTENTSTACK_API_KEY as string,
+      managementToken,
+      environment: process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT as string,
+      host: process.env.CONTENTSTACK_MANAGEMENT_HOST || endpoints.contentManagement,
+    });
+  } else {
+    subscriberStore = new FileSubscriberStore(process.env.NEWSLETTER_STORE_PATH || DEFAULT_FILE_PATH);
+  }
+
+  console.log(`📬 SubscriberStore: Using ${storeType} store`);
+  return subscriberStore;
+}
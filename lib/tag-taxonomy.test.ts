@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalizeTag,
+  canonicalizeTags,
+  categorizeTags,
+  extendTaxonomy,
+  getTagCategory,
+  getTagLabel,
+  isTagInTopic,
+  normalizeTag,
+  tagsMatch,
+} from './tag-taxonomy';
+
+describe('normalizeTag', () => {
+  it('lowercases and collapses separators, keeping tech punctuation', () => {
+    expect(normalizeTag('  Front_End--Dev  ')).toBe('front end dev');
+    expect(normalizeTag('Node.js')).toBe('node.js');
+    expect(normalizeTag('C++ / C#')).toBe('c++ c#');
+  });
+});
+
+describe('canonicalizeTag', () => {
+  it('maps synonyms, labels and casing to one canonical tag', () => {
+    expect(canonicalizeTag('JS')).toBe('javascript');
+    expect(canonicalizeTag('JavaScript')).toBe('javascript');
+    expect(canonicalizeTag('ReactJS')).toBe('react');
+    expect(canonicalizeTag('React.js')).toBe('react');
+    expect(canonicalizeTag('Next.js')).toBe('nextjs');
+    expect(canonicalizeTag('golang')).toBe('go');
+    expect(canonicalizeTag('k8s')).toBe('kubernetes');
+    expect(canonicalizeTag('Postgres')).toBe('postgresdb');
+  });
+
+  it('finds a known term inside a longer tag', () => {
+    expect(canonicalizeTag('JavaScript Tips')).toBe('javascript');
+    expect(canonicalizeTag('React Hooks')).toBe('react');
+    expect(canonicalizeTag('Intro to Docker')).toBe('docker');
+  });
+
+  it('prefers the subject over the format', () => {
+    expect(canonicalizeTag('React Best Practices')).toBe('react');
+    expect(canonicalizeTag('Best Practices')).toBe('guide');
+  });
+
+  it('only matches short synonyms as the whole tag', () => {
+    expect(canonicalizeTag('go')).toBe('go');
+    expect(canonicalizeTag('Lets go shopping')).toBe('lets go shopping');
+    expect(canonicalizeTag('ts')).toBe('typescript');
+  });
+
+  it('returns unknown tags normalized', () => {
+    expect(canonicalizeTag('Quantum Widgets')).toBe('quantum widgets');
+  });
+});
+
+describe('canonicalizeTags', () => {
+  it('merges synonyms and drops empties', () => {
+    expect(canonicalizeTags(['JS', 'javascript', 'JavaScript Tips', '', 'React'])).toEqual(['javascript', 'react']);
+  });
+});
+
+describe('categories', () => {
+  it('finds the top-level category of a tag', () => {
+    expect(getTagCategory('ReactJS')).toBe('frontend');
+    expect(getTagCategory('frontend')).toBe('frontend');
+    expect(getTagCategory('Mongo')).toBe('database');
+    expect(getTagCategory('quantum widgets')).toBeNull();
+  });
+
+  it('puts a tag under its own topic and its category, not its siblings', () => {
+    expect(isTagInTopic('React Hooks', 'react')).toBe(true);
+    expect(isTagInTopic('React Hooks', 'Frontend')).toBe(true);
+    expect(isTagInTopic('React Hooks', 'vue')).toBe(false);
+    expect(tagsMatch('JS', 'ecmascript')).toBe(true);
+    expect(tagsMatch('JS', 'TS')).toBe(false);
+  });
+
+  it('groups tags by category, leaving out unknown ones', () => {
+    expect(categorizeTags(['React', 'vuejs', 'Postgres', 'quantum widgets'])).toEqual({
+      frontend: ['react', 'vue'],
+      database: ['postgresdb'],
+    });
+  });
+
+  it('labels known tags and echoes unknown ones', () => {
+    expect(getTagLabel('nodejs')).toBe('Node.js');
+    expect(getTagLabel('Quantum Widgets')).toBe('Quantum Widgets');
+  });
+});
+
+describe('extendTaxonomy', () => {
+  it('adds terms with their synonyms and parent', () => {
+    extendTaxonomy([{ uid: 'deno', label: 'Deno', parent: 'backend', synonyms: ['deno deploy'] }]);
+
+    expect(canonicalizeTag('Deno Deploy')).toBe('deno');
+    expect(getTagCategory('deno')).toBe('backend');
+    expect(canonicalizeTag('React')).toBe('react');
+  });
+});
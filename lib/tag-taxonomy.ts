@@ -0,0 +1,201 @@
+/**
+ * Tag Taxonomy
+ * One place that knows which tags mean the same thing and how they group:
+ * canonical tags with synonyms ("JS", "javascript", "JavaScript Tips" ->
+ * "javascript") and a parent category for each ("javascript" -> "frontend").
+ * Used by interest tracking, recommendations, DynamicHero and Lytics segmentation.
+ * The built-in terms can be extended at runtime, e.g. with terms from a
+ * Contentstack taxonomy, via extendTaxonomy().
+ */
+
+export interface TaxonomyTerm {
+  uid: string;                         // Canonical tag
+  label: string;
+  parent?: string;                     // Category term uid; categories have none
+  synonyms?: string[];
+}
+
+const DEFAULT_TERMS: TaxonomyTerm[] = [
+  // Categories
+  { uid: 'frontend', label: 'Frontend', synonyms: ['front end', 'front-end', 'ui development'] },
+  { uid: 'backend', label: 'Backend', synonyms: ['back end', 'back-end', 'server side'] },
+  { uid: 'database', label: 'Databases', synonyms: ['databases', 'db', 'data storage'] },
+  { uid: 'cloud', label: 'Cloud & DevOps', synonyms: ['devops', 'infrastructure', 'cloud computing'] },
+  { uid: 'tools', label: 'Tools', synonyms: ['tooling', 'developer tools', 'dev tools'] },
+  { uid: 'learning', label: 'Learning', synonyms: ['tutorials & learning', 'learning resources'] },
+
+  // Frontend
+  { uid: 'javascript', label: 'JavaScript', parent: 'frontend', synonyms: ['js', 'ecmascript', 'es6', 'es2024', 'vanilla js'] },
+  { uid: 'typescript', label: 'TypeScript', parent: 'frontend', synonyms: ['ts'] },
+  { uid: 'react', label: 'React', parent: 'frontend', synonyms: ['reactjs', 'react.js', 'react js'] },
+  { uid: 'nextjs', label: 'Next.js', parent: 'frontend', synonyms: ['next.js', 'next js'] },
+  { uid: 'vue', label: 'Vue', parent: 'frontend', synonyms: ['vuejs', 'vue.js'] },
+  { uid: 'angular', label: 'Angular', parent: 'frontend', synonyms: ['angularjs'] },
+  { uid: 'svelte', label: 'Svelte', parent: 'frontend', synonyms: ['sveltekit'] },
+  { uid: 'css', label: 'CSS', parent: 'frontend', synonyms: ['css3', 'stylesheets', 'tailwind', 'tailwindcss'] },
+  { uid: 'html', label: 'HTML', parent: 'frontend', synonyms: ['html5'] },
+
+  // Backend
+  { uid: 'node', label: 'Node.js', parent: 'backend', synonyms: ['nodejs', 'node.js', 'node js'] },
+  { uid: 'python', label: 'Python', parent: 'backend', synonyms: ['py'] },
+  { uid: 'java', label: 'Java', parent: 'backend' },
+  { uid: 'go', label: 'Go', parent: 'backend', synonyms: ['golang'] },
+  { uid: 'api', label: 'APIs', parent: 'backend', synonyms: ['apis', 'rest', 'rest api', 'restful'] },
+  { uid: 'graphql', label: 'GraphQL', parent: 'backend', synonyms: ['gql'] },
+
+  // Databases
+  { uid: 'sql', label: 'SQL', parent: 'database' },
+  { uid: 'postgresdb', label: 'PostgreSQL', parent: 'database', synonyms: ['postgres', 'postgresql', 'pg'] },
+  { uid: 'mysql', label: 'MySQL', parent: 'database' },
+  { uid: 'mongodb', label: 'MongoDB', parent: 'database', synonyms: ['mongo'] },
+  { uid: 'redis', label: 'Redis', parent: 'database' },
+
+  // Cloud
+  { uid: 'aws', label: 'AWS', parent: 'cloud', synonyms: ['amazon web services'] },
+  { uid: 'azure', label: 'Azure', parent: 'cloud', synonyms: ['microsoft azure'] },
+  { uid: 'gcp', label: 'Google Cloud', parent: 'cloud', synonyms: ['google cloud', 'google cloud platform'] },
+  { uid: 'docker', label: 'Docker', parent: 'cloud', synonyms: ['containers'] },
+  { uid: 'kubernetes', label: 'Kubernetes', parent: 'cloud', synonyms: ['k8s'] },
+  { uid: 'serverless', label: 'Serverless', parent: 'cloud', synonyms: ['lambda', 'edge functions'] },
+
+  // Tools
+  { uid: 'prisma', label: 'Prisma', parent: 'tools' },
+  { uid: 'firebase', label: 'Firebase', parent: 'tools' },
+  { uid: 'git', label: 'Git', parent: 'tools', synonyms: ['github', 'version control'] },
+
+  // Learning
+  { uid: 'tutorial', label: 'Tutorials', parent: 'learning', synonyms: ['tutorials', 'how to', 'how-to', 'walkthrough'] },
+  { uid: 'guide', label: 'Guides', parent: 'learning', synonyms: ['guides', 'tips', 'best practices'] },
+  { uid: 'documentation', label: 'Documentation', parent: 'learning', synonyms: ['docs'] },
+];
+
+// Synonyms this short are only matched exactly, never inside a longer tag ("go", "ts", "pg")
+const MIN_PHRASE_LENGTH = 3;
+
+let terms = new Map<string, TaxonomyTerm>();
+let aliases = new Map<string, string>();        // Normalized synonym or uid -> canonical uid
+let phrases: string[] = [];                     // Aliases usable inside longer tags, in match priority
+
+function buildIndex(termList: TaxonomyTerm[]): void {
+  terms = new Map(termList.map(term => [term.uid, term]));
+  aliases = new Map();
+
+  for (const term of termList) {
+    for (const alias of [term.uid, term.label, ...(term.synonyms || [])]) {
+      const normalized = normalizeTag(alias);
+      if (normalized && !aliases.has(normalized)) {
+        aliases.set(normalized, term.uid);
+      }
+    }
+  }
+
+  // Subjects beat formats ("React Best Practices" is about react), then longer beats shorter
+  const isFormat = (alias: string) => getTagCategory(aliases.get(alias)!) === 'learning';
+  phrases = Array.from(aliases.keys())
+    .filter(alias => alias.length >= MIN_PHRASE_LENGTH)
+    .sort((a, b) => Number(isFormat(a)) - Number(isFormat(b)) || b.length - a.length);
+}
+
+/**
+ * Lowercase, trim and collapse separators, keeping characters that matter in
+ * tech names ("node.js", "c++", "c#")
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/[_\s-]+/g, ' ')
+    .replace(/[^a-z0-9.+# &]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Map a tag to its canonical form. Exact synonyms win; otherwise the best known
+ * term appearing as whole words in the tag ("JavaScript Tips" -> "javascript").
+ * Unknown tags come back normalized.
+ */
+export function canonicalizeTag(tag: string): string {
+  const normalized = normalizeTag(tag);
+  const exact = aliases.get(normalized);
+  if (exact) {
+    return exact;
+  }
+
+  const padded = ` ${normalized} `;
+  const phrase = phrases.find(candidate => padded.includes(` ${candidate} `));
+  return phrase ? aliases.get(phrase)! : normalized;
+}
+
+/**
+ * Canonicalize a list of tags, dropping empties and duplicates
+ */
+export function canonicalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(canonicalizeTag).filter(Boolean)));
+}
+
+/**
+ * Whether two tags mean the same thing
+ */
+export function tagsMatch(a: string, b: string): boolean {
+  return canonicalizeTag(a) === canonicalizeTag(b);
+}
+
+/**
+ * Whether a tag falls under a topic: the same tag, or one in the topic's category
+ * ("React Hooks" is under "react" and "frontend", not under "vue")
+ */
+export function isTagInTopic(tag: string, topic: string): boolean {
+  const canonicalTopic = canonicalizeTag(topic);
+  return canonicalizeTag(tag) === canonicalTopic || getTagCategory(tag) === canonicalTopic;
+}
+
+/**
+ * Top-level category of a tag ("react" -> "frontend", "frontend" -> "frontend"),
+ * or null for tags outside the taxonomy
+ */
+export function getTagCategory(tag: string): string | null {
+  let term = terms.get(canonicalizeTag(tag));
+  // Bounded walk in case extended terms form a cycle
+  for (let depth = 0; term?.parent && depth < 10; depth++) {
+    term = terms.get(term.parent) || term;
+  }
+  return term ? term.uid : null;
+}
+
+/**
+ * Display label for a tag, falling back to the tag itself
+ */
+export function getTagLabel(tag: string): string {
+  return terms.get(canonicalizeTag(tag))?.label || tag;
+}
+
+/**
+ * Group tags by top-level category; tags outside the taxonomy are left out
+ */
+export function categorizeTags(tags: string[]): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  for (const tag of canonicalizeTags(tags)) {
+    const category = getTagCategory(tag);
+    if (category) {
+      (result[category] ||= []).push(tag);
+    }
+  }
+  return result;
+}
+
+/**
+ * Add or replace terms (matched by uid), e.g. from a Contentstack taxonomy
+ */
+export function extendTaxonomy(additionalTerms: TaxonomyTerm[]): void {
+  const merged = new Map(terms);
+  for (const term of additionalTerms) {
+    merged.set(term.uid, term);
+  }
+  buildIndex(Array.from(merged.values()));
+}
+
+export function getTaxonomyTerms(): TaxonomyTerm[] {
+  return Array.from(terms.values());
+}
+
+buildIndex(DEFAULT_TERMS);
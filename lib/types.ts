@@ -107,4 +107,60 @@ export interface Blog {
   published_date?: string;          // Publication date
   personalization_tags?: string[];  // Additional tags
   publish_details?: PublishDetails;
-}
\ No newline at end of file
+}
+
+// PaginatedResult object - Represents one page of entries with the total count
+export interface PaginatedResult<T> {
+  entries: T[];
+  total: number;                    // Total entries matching the query
+  limit: number;                    // Page size
+  skip: number;                     // Number of entries skipped
+  page: number;                     // 1-based page number
+  totalPages: number;
+  hasMore: boolean;                 // Whether entries exist after this page
+}
+
+// SearchMatchRange object - Represents a matched word in a search result
+export interface SearchMatchRange {
+  field: string;                    // title, tags, author, summary or content
+  valueIndex?: number;              // Index into array fields (tags, author)
+  start: number;                    // Character offsets into the field value
+  end: number;
+}
+
+// SearchSnippet object - Represents a context excerpt around search matches
+export interface SearchSnippet {
+  field: string;
+  text: string;                     // Excerpt of the stripped field text
+  highlights: { start: number; end: number }[];
+}
+
+// BlogSearchHit object - Represents one ranked result from /api/search
+export interface BlogSearchHit {
+  blog: Blog;
+  score: number;                    // Relevance score, higher is better
+  matchedFields: string[];          // Indexed fields the query matched
+  matches: SearchMatchRange[];      // Offsets into title, summary, tags and author names
+  snippet?: SearchSnippet;          // Excerpt from the stripped post content
+}
+
+// BlogSearchResponse object - Represents the /api/search response body
+export interface BlogSearchResponse {
+  query: string;
+  total: number;                    // Total matches before the limit was applied
+  results: BlogSearchHit[];
+}
+
+// SearchSuggestion object - Represents one typeahead suggestion
+export interface SearchSuggestion {
+  type: 'post' | 'tag' | 'author';
+  label: string;                    // Text shown to the reader
+  value: string;                    // Blog slug, tag or author UID
+  count?: number;                   // Number of posts for tags and authors
+}
+
+// SearchSuggestionResponse object - Represents the /api/search/suggest response body
+export interface SearchSuggestionResponse {
+  query: string;
+  suggestions: SearchSuggestion[];
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { isContentMuted, mergeInterestProfiles, normalizeInterestProfile } from './user-interests';
+
+const interest = (tag: string, lastUpdated: string) => ({ tag, score: 2, viewCount: 1, lastUpdated });
+
+describe('mergeInterestProfiles', () => {
+  it('keeps the most recently updated entry for each canonical tag', () => {
+    const a = normalizeInterestProfile({ interests: [{ ...interest('JS', '2026-10-01T00:00:00Z'), score: 5 }] });
+    const b = normalizeInterestProfile({ interests: [{ ...interest('javascript', '2026-10-02T00:00:00Z'), score: 1 }] });
+
+    expect(mergeInterestProfiles(a, b).interests).toEqual([expect.objectContaining({ tag: 'javascript', score: 1 })]);
+  });
+
+  it('takes explicit choices from the copy edited last', () => {
+    const older = normalizeInterestProfile({ explicit: { followed: ['react'], updatedAt: '2026-10-01T00:00:00Z' } });
+    const newer = normalizeInterestProfile({ explicit: { followed: [], muted: ['vue'], updatedAt: '2026-10-05T00:00:00Z' } });
+
+    for (const merged of [mergeInterestProfiles(older, newer), mergeInterestProfiles(newer, older)]) {
+      expect(merged.explicit).toMatchObject({ followed: [], muted: ['vue'] });
+    }
+  });
+
+  it('does not bring back an interest removed on the other copy', () => {
+    const server = normalizeInterestProfile({
+      interests: [interest('react', '2026-10-01T00:00:00Z'), interest('vue', '2026-10-01T00:00:00Z')],
+    });
+    const device = normalizeInterestProfile({ removed: [{ tag: 'React', removedAt: '2026-10-10T00:00:00Z' }] });
+
+    for (const merged of [mergeInterestProfiles(server, device), mergeInterestProfiles(device, server)]) {
+      expect(merged.interests.map(entry => entry.tag)).toEqual(['vue']);
+      expect(merged.removed).toEqual([{ tag: 'react', removedAt: '2026-10-10T00:00:00Z' }]);
+    }
+  });
+
+  it('keeps an interest read about again after it was removed', () => {
+    const device = normalizeInterestProfile({ removed: [{ tag: 'react', removedAt: '2026-10-10T00:00:00Z' }] });
+    const reread = normalizeInterestProfile({ interests: [interest('react', '2026-10-12T00:00:00Z')] });
+
+    expect(mergeInterestProfiles(device, reread).interests.map(entry => entry.tag)).toEqual(['react']);
+  });
+});
+
+describe('normalizeInterestProfile', () => {
+  it('canonicalizes and de-duplicates explicit topics', () => {
+    const profile = normalizeInterestProfile({
+      explicit: { followed: ['ReactJS', 'react', 42, 'JavaScript Tips'], pinned: 'react', muted: ['k8s'] },
+    });
+
+    expect(profile.explicit).toMatchObject({ followed: ['react', 'javascript'], pinned: [], muted: ['kubernetes'] });
+  });
+
+  it('drops malformed interests', () => {
+    const profile = normalizeInterestProfile({
+      interests: [interest('react', '2026-10-01T00:00:00Z'), interest('', '2026-10-01T00:00:00Z'), interest('vue', 'never')],
+    });
+
+    expect(profile.interests.map(entry => entry.tag)).toEqual(['react']);
+  });
+
+  it('drops malformed removals and keeps the latest per tag', () => {
+    const profile = normalizeInterestProfile({
+      removed: [
+        { tag: 'reactjs', removedAt: '2026-10-01T00:00:00Z' },
+        { tag: 'react', removedAt: '2026-10-05T00:00:00Z' },
+        { tag: 'vue', removedAt: 'not a date' },
+        { removedAt: '2026-10-05T00:00:00Z' },
+        'react',
+      ],
+    });
+
+    expect(profile.removed).toEqual([{ tag: 'react', removedAt: '2026-10-05T00:00:00Z' }]);
+  });
+
+  it('defaults removals for profiles saved before they existed', () => {
+    expect(normalizeInterestProfile({ interests: [] }).removed).toEqual([]);
+  });
+});
+
+describe('isContentMuted', () => {
+  it('mutes a topic, its synonyms and, for a category, everything in it', () => {
+    expect(isContentMuted(['ReactJS'], ['react'])).toBe(true);
+    expect(isContentMuted(['Vue'], ['react'])).toBe(false);
+    expect(isContentMuted(['Vue', 'CSS'], ['frontend'])).toBe(true);
+    expect(isContentMuted(['Docker'], ['frontend'])).toBe(false);
+    expect(isContentMuted(['React'], [])).toBe(false);
+  });
+});
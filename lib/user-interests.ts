@@ -1,25 +1,67 @@
 /**
  * User Interest Detection and Management System
- * Tracks user reading behavior and manages interest-based personalization
+ * Tracks user reading behavior and manages interest-based personalization.
+ * The localStorage profile is synced to /api/profile, which keeps a server copy
+ * keyed by the Personalize user UID or, after a signed newsletter link, the
+ * reader's email, so it follows them across devices. Scores are stored as of `lastUpdated` and decayed on
+ * read (see lib/interest-model). Tags are stored in canonical form (see
+ * lib/tag-taxonomy), so "JS" and "javascript" are one interest.
+ * Topics the reader follows, pins or mutes in the InterestManager are kept apart
+ * from the inferred scores and override them.
  */
 
+import {
+  buildTagWeights,
+  getDecayedScore,
+  getEngagementWeight,
+  getInterestModelConfig,
+  ReadingEngagement,
+  scoreTagsAgainstInterests,
+} from './interest-model';
+import { canonicalizeTag, canonicalizeTags, isTagInTopic } from './tag-taxonomy';
+
 export interface UserInterest {
   tag: string;
-  score: number;
+  score: number;                       // As of lastUpdated; negative after dismissals
   lastUpdated: string;
   viewCount: number;
 }
 
+// Topics the reader chose, as canonical tags. Never decayed or pruned.
+export interface ExplicitInterests {
+  followed: string[];                  // Includes topics not read yet
+  pinned: string[];                    // Always ranked first; pinned topics are also followed
+  muted: string[];                     // Never recommended, nor anything in them if a category
+  updatedAt: string;
+}
+
+// Inferred interest the reader removed (by unfollowing). Kept so a merge with an
+// older copy of the profile doesn't bring it back.
+export interface RemovedInterest {
+  tag: string;
+  removedAt: string;
+}
+
 export interface UserInterestProfile {
-  interests: UserInterest[];
+  interests: UserInterest[];           // Inferred from reading
+  explicit: ExplicitInterests;
+  removed: RemovedInterest[];          // Most recent first
   totalBlogViews: number;
   lastActive: string;
   created: string;
 }
 
 const INTEREST_STORAGE_KEY = 'user_interests_profile';
+// Written by PersonalizationAPI once Personalize has assigned this browser a user UID
+const PERSONALIZE_UID_STORAGE_KEY = 'contentstack_personalize_user_uid';
 const MAX_INTERESTS = 20;
-const INTEREST_DECAY_DAYS = 30;
+const MAX_EXPLICIT_TOPICS = 50;
+// Affinity of a followed topic, relative to the strongest inferred interest (1)
+const FOLLOWED_AFFINITY = 0.75;
+// Batch profile uploads while a reader moves between posts
+const PROFILE_SYNC_DELAY = 5000;
+
+let profileSyncTimer: ReturnType<typeof setTimeout> | null = null;
 
 /**
  * Get the user's current interest profile
@@ -35,99 +77,326 @@ export function getUserInterestProfile(): UserInterestProfile {
       return createEmptyProfile();
     }
 
-    const profile: UserInterestProfile = JSON.parse(stored);
-    
-    // Validate and clean up old interests
-    const now = new Date();
-    const cutoffDate = new Date(now.getTime() - INTEREST_DECAY_DAYS * 24 * 60 * 60 * 1000);
-    
-    profile.interests = profile.interests.filter(interest => {
-      const lastUpdated = new Date(interest.lastUpdated);
-      return lastUpdated > cutoffDate;
-    });
-
-    return profile;
+    // Validate (folding tags saved before canonicalization) and clean up old interests
+    return pruneStaleInterests(normalizeInterestProfile(JSON.parse(stored)));
   } catch (error) {
     console.error('Error loading user interest profile:', error);
     return createEmptyProfile();
   }
 }
 
+/**
+ * Drop interests that have decayed to (almost) nothing
+ */
+export function pruneStaleInterests(profile: UserInterestProfile, now: Date = new Date()): UserInterestProfile {
+  const { pruneThreshold } = getInterestModelConfig();
+
+  return {
+    ...profile,
+    interests: profile.interests.filter(interest =>
+      Math.abs(getDecayedScore(interest, now.getTime())) >= pruneThreshold),
+  };
+}
+
 /**
  * Create an empty interest profile
  */
 function createEmptyProfile(): UserInterestProfile {
   return {
     interests: [],
+    explicit: createEmptyExplicitInterests(),
+    removed: [],
     totalBlogViews: 0,
     lastActive: new Date().toISOString(),
     created: new Date().toISOString(),
   };
 }
 
+function createEmptyExplicitInterests(): ExplicitInterests {
+  return {
+    followed: [],
+    pinned: [],
+    muted: [],
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
 /**
- * Track user interest from blog tags
+ * Track user interest from blog tags. With engagement data the view is weighted
+ * by how much of the post was read; without it, it counts as one plain view.
  */
-export function trackInterestFromBlog(blogTags: string[], blogUid: string): void {
+export function trackInterestFromBlog(blogTags: string[], blogUid: string, engagement?: ReadingEngagement): void {
   if (typeof window === 'undefined' || !blogTags || blogTags.length === 0) {
     return;
   }
 
-  console.log('🎯 UserInterests: Tracking interests from blog tags:', blogTags);
+  const weight = getEngagementWeight(engagement);
+  console.log('🎯 UserInterests: Tracking interests from blog tags:', blogTags, { blogUid, weight });
 
   const profile = getUserInterestProfile();
-  const now = new Date().toISOString();
   
   // Increment total blog views
   profile.totalBlogViews += 1;
-  profile.lastActive = now;
 
-  // Process each tag
-  blogTags.forEach(tag => {
-    const cleanTag = tag.toLowerCase().trim();
-    if (!cleanTag) return;
+  applyTagSignal(profile, blogTags, weight, true);
+  saveUserInterestProfile(profile);
+  console.log('🎯 UserInterests: Updated interest profile:', profile);
+  scheduleInterestProfileSync();
+}
+
+/**
+ * Negative signal: the reader dismissed a post, so its tags score lower
+ */
+export function trackInterestDismissal(blogTags: string[], blogUid: string): void {
+  if (typeof window === 'undefined' || !blogTags || blogTags.length === 0) {
+    return;
+  }
+
+  console.log('🎯 UserInterests: Tracking dismissal of', blogUid, blogTags);
+
+  const profile = getUserInterestProfile();
+  applyTagSignal(profile, blogTags, -getInterestModelConfig().dismissalPenalty, false);
+  saveUserInterestProfile(profile);
+  scheduleInterestProfileSync();
+}
+
+/**
+ * Decay each tag's score to now, add `delta`, then keep the strongest signals
+ * (positive or negative) up to MAX_INTERESTS
+ */
+function applyTagSignal(profile: UserInterestProfile, tags: string[], delta: number, isView: boolean): void {
+  const now = Date.now();
+  const nowIso = new Date(now).toISOString();
+  profile.lastActive = nowIso;
 
-    // Find existing interest or create new one
-    let interest = profile.interests.find(i => i.tag === cleanTag);
+  canonicalizeTags(tags).forEach(cleanTag => {
+    const interest = profile.interests.find(i => i.tag === cleanTag);
     
     if (interest) {
       // Update existing interest
-      interest.score += 1;
-      interest.viewCount += 1;
-      interest.lastUpdated = now;
+      interest.score = getDecayedScore(interest, now) + delta;
+      interest.viewCount += isView ? 1 : 0;
+      interest.lastUpdated = nowIso;
     } else {
       // Create new interest
-      interest = {
+      profile.interests.push({
         tag: cleanTag,
-        score: 1,
-        viewCount: 1,
-        lastUpdated: now,
-      };
-      profile.interests.push(interest);
+        score: delta,
+        viewCount: isView ? 1 : 0,
+        lastUpdated: nowIso,
+      });
     }
   });
 
-  // Sort by score (descending) and limit to max interests
-  profile.interests.sort((a, b) => b.score - a.score);
+  profile.interests.sort(byStrength(now));
   profile.interests = profile.interests.slice(0, MAX_INTERESTS);
+}
+
+/**
+ * Order interests by the size of their current (decayed) score, positive or negative
+ */
+function byStrength(now: number = Date.now()) {
+  return (a: UserInterest, b: UserInterest) =>
+    Math.abs(getDecayedScore(b, now)) - Math.abs(getDecayedScore(a, now));
+}
 
-  // Save updated profile
+/**
+ * Store the profile in localStorage
+ */
+function saveUserInterestProfile(profile: UserInterestProfile): void {
   try {
     localStorage.setItem(INTEREST_STORAGE_KEY, JSON.stringify(profile));
-    console.log('🎯 UserInterests: Updated interest profile:', profile);
   } catch (error) {
     console.error('Error saving user interest profile:', error);
   }
 }
 
+/**
+ * Coerce untrusted input (a stored or uploaded profile) into a valid profile.
+ * Tags are canonicalized; where several map to one, the most recent entry is kept.
+ */
+export function normalizeInterestProfile(input: unknown): UserInterestProfile {
+  const source = (input && typeof input === 'object' ? input : {}) as Partial<UserInterestProfile>;
+  const empty = createEmptyProfile();
+  const isDate = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+  const interests = (Array.isArray(source.interests) ? source.interests : [])
+    .filter((interest): interest is UserInterest =>
+      !!interest && typeof interest.tag === 'string' && interest.tag.trim() !== '' && isDate(interest.lastUpdated))
+    .map(interest => ({
+      tag: canonicalizeTag(interest.tag.slice(0, 100)),
+      score: Number.isFinite(interest.score) ? interest.score : 0,
+      viewCount: Number.isFinite(interest.viewCount) ? Math.max(Math.floor(interest.viewCount), 0) : 0,
+      lastUpdated: interest.lastUpdated,
+    }))
+    .filter(interest => interest.tag !== '');
+
+  const explicit = (source.explicit && typeof source.explicit === 'object' ? source.explicit : {}) as Partial<ExplicitInterests>;
+  const topics = (value: unknown) =>
+    canonicalizeTags((Array.isArray(value) ? value : []).filter((tag): tag is string => typeof tag === 'string').map(tag => tag.slice(0, 100)))
+      .slice(0, MAX_EXPLICIT_TOPICS);
+
+  const removed = (Array.isArray(source.removed) ? source.removed : [])
+    .filter((entry): entry is RemovedInterest =>
+      !!entry && typeof entry.tag === 'string' && entry.tag.trim() !== '' && isDate(entry.removedAt))
+    .map(entry => ({ tag: canonicalizeTag(entry.tag.slice(0, 100)), removedAt: entry.removedAt }))
+    .filter(entry => entry.tag !== '');
+
+  const latestRemoved = keepLatestRemovals(removed);
+  const keptInterests = withoutRemovedInterests(keepLatestPerTag(interests), latestRemoved);
+
+  return {
+    interests: keptInterests.sort(byStrength()).slice(0, MAX_INTERESTS),
+    explicit: {
+      followed: topics(explicit.followed),
+      pinned: topics(explicit.pinned),
+      muted: topics(explicit.muted),
+      updatedAt: isDate(explicit.updatedAt) ? explicit.updatedAt : createEmptyExplicitInterests().updatedAt,
+    },
+    removed: latestRemoved,
+    totalBlogViews: Number.isFinite(source.totalBlogViews) ? Math.max(Math.floor(source.totalBlogViews as number), 0) : 0,
+    lastActive: isDate(source.lastActive) ? source.lastActive : empty.lastActive,
+    created: isDate(source.created) ? source.created : empty.created,
+  };
+}
+
+/**
+ * Merge two copies of a profile (e.g. this device and the server). For each tag
+ * the most recently updated entry wins; counters keep the larger value. Explicit
+ * choices are taken whole from the copy edited last, and interests removed on
+ * either copy stay removed unless they were updated after the removal, so an
+ * unfollow isn't undone.
+ */
+export function mergeInterestProfiles(a: UserInterestProfile, b: UserInterestProfile): UserInterestProfile {
+  const removed = keepLatestRemovals([...a.removed, ...b.removed]);
+  const interests = withoutRemovedInterests(keepLatestPerTag([...a.interests, ...b.interests]), removed)
+    .sort(byStrength());
+
+  return {
+    interests: interests.slice(0, MAX_INTERESTS),
+    explicit: Date.parse(a.explicit.updatedAt) >= Date.parse(b.explicit.updatedAt) ? a.explicit : b.explicit,
+    removed,
+    totalBlogViews: Math.max(a.totalBlogViews, b.totalBlogViews),
+    lastActive: Date.parse(a.lastActive) >= Date.parse(b.lastActive) ? a.lastActive : b.lastActive,
+    created: Date.parse(a.created) <= Date.parse(b.created) ? a.created : b.created,
+  };
+}
+
+function keepLatestPerTag(interests: UserInterest[]): UserInterest[] {
+  const byTag = new Map<string, UserInterest>();
+
+  for (const interest of interests) {
+    const existing = byTag.get(interest.tag);
+    if (!existing || Date.parse(interest.lastUpdated) > Date.parse(existing.lastUpdated)) {
+      byTag.set(interest.tag, interest);
+    }
+  }
+  return Array.from(byTag.values());
+}
+
+/**
+ * One removal per tag (the latest), most recent first, capped like explicit topics
+ */
+function keepLatestRemovals(removed: RemovedInterest[]): RemovedInterest[] {
+  const byTag = new Map<string, RemovedInterest>();
+
+  for (const entry of removed) {
+    const existing = byTag.get(entry.tag);
+    if (!existing || Date.parse(entry.removedAt) > Date.parse(existing.removedAt)) {
+      byTag.set(entry.tag, entry);
+    }
+  }
+  return Array.from(byTag.values())
+    .sort((a, b) => Date.parse(b.removedAt) - Date.parse(a.removedAt))
+    .slice(0, MAX_EXPLICIT_TOPICS);
+}
+
+/**
+ * Drop interests last updated before they were removed; reading about the
+ * topic again afterwards brings it back
+ */
+function withoutRemovedInterests(interests: UserInterest[], removed: RemovedInterest[]): UserInterest[] {
+  const removedAt = new Map(removed.map(entry => [entry.tag, Date.parse(entry.removedAt)]));
+  return interests.filter(interest => {
+    const removedTime = removedAt.get(interest.tag);
+    return removedTime === undefined || Date.parse(interest.lastUpdated) > removedTime;
+  });
+}
+
+/**
+ * Push the local profile to /api/profile and keep the merged result locally.
+ * The server binds the profile to this browser with a signed cookie on first sync,
+ * starting it under the Personalize user UID when there is one. Pass the token of
+ * a signed newsletter link to move to the profile shared by the reader's devices.
+ * Returns the merged profile, or null when the sync failed.
+ */
+export async function syncInterestProfile(options: { token?: string } = {}): Promise<UserInterestProfile | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const response = await fetch('/api/profile', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        profile: getUserInterestProfile(),
+        userId: localStorage.getItem(PERSONALIZE_UID_STORAGE_KEY) || undefined,
+        token: options.token,
+      }),
+    });
+
+    if (!response.ok) {
+      console.warn('🎯 UserInterests: Profile sync failed with status', response.status);
+      return null;
+    }
+
+    const { profile } = await response.json();
+    const merged = normalizeInterestProfile(profile);
+    saveUserInterestProfile(merged);
+    console.log('🎯 UserInterests: Synced interest profile with server');
+    return merged;
+  } catch (error) {
+    console.error('🎯 UserInterests: Profile sync error:', error);
+    return null;
+  }
+}
+
+/**
+ * Sync shortly after the profile changes, coalescing bursts of updates
+ */
+function scheduleInterestProfileSync(): void {
+  if (profileSyncTimer) {
+    clearTimeout(profileSyncTimer);
+  }
+  profileSyncTimer = setTimeout(() => {
+    profileSyncTimer = null;
+    syncInterestProfile();
+  }, PROFILE_SYNC_DELAY);
+}
+
 /**
  * Get user's top interests as a simple array of strings
  */
 export function getUserTopInterests(limit: number = 10): string[] {
-  const profile = getUserInterestProfile();
-  return profile.interests
-    .slice(0, limit)
-    .map(interest => interest.tag);
+  return getTopInterestTags(getUserInterestProfile(), limit);
+}
+
+/**
+ * A profile's top interests: pinned topics first, then followed and inferred
+ * ones by affinity. Muted topics are left out.
+ */
+export function getTopInterestTags(profile: UserInterestProfile, limit: number = 10, now: number = Date.now()): string[] {
+  const affinities = getProfileAffinities(profile, now);
+  const pinned = profile.explicit.pinned.filter(tag => affinities.has(tag));
+  const ranked = Array.from(affinities.entries())
+    .filter(([tag, affinity]) => affinity > 0 && !pinned.includes(tag))
+    .sort((a, b) => b[1] - a[1])
+    .map(([tag]) => tag);
+
+  return [...pinned, ...ranked].slice(0, limit);
 }
 
 /**
@@ -135,46 +404,166 @@ export function getUserTopInterests(limit: number = 10): string[] {
  */
 export function getInterestScore(tag: string): number {
   const profile = getUserInterestProfile();
-  const interest = profile.interests.find(i => i.tag === tag.toLowerCase());
-  return interest ? interest.score : 0;
+  const interest = profile.interests.find(i => i.tag === canonicalizeTag(tag));
+  return interest ? getDecayedScore(interest) : 0;
 }
 
 /**
- * Check if user has any interests
+ * Each tag's current score relative to the strongest positive interest (negative
+ * for dismissed tags), so relevance doesn't depend on how long someone has been reading.
+ * Followed topics are raised to FOLLOWED_AFFINITY, pinned ones to 1, and muted ones removed.
+ */
+function getProfileAffinities(profile: UserInterestProfile, now: number = Date.now()): Map<string, number> {
+  const scores = profile.interests.map(interest => [interest.tag, getDecayedScore(interest, now)] as const);
+  const strongest = Math.max(1e-6, ...scores.map(([, score]) => score));
+  const affinities = new Map(scores.map(([tag, score]) => [tag, Math.max(score / strongest, -1)]));
+
+  for (const tag of profile.explicit.followed) {
+    affinities.set(tag, Math.max(affinities.get(tag) ?? 0, FOLLOWED_AFFINITY));
+  }
+  for (const tag of profile.explicit.pinned) {
+    affinities.set(tag, 1);
+  }
+  for (const tag of affinities.keys()) {
+    if (isMutedTag(tag, profile.explicit.muted)) {
+      affinities.delete(tag);
+    }
+  }
+  return affinities;
+}
+
+function isMutedTag(tag: string, muted: string[]): boolean {
+  return muted.some(topic => isTagInTopic(tag, topic));
+}
+
+/**
+ * Whether content with these tags falls under a topic the reader muted
+ */
+export function isContentMuted(tags: string[] = [], muted: string[] = getUserInterestProfile().explicit.muted): boolean {
+  return muted.length > 0 && tags.some(tag => isMutedTag(tag, muted));
+}
+
+/**
+ * Check if user has any interests, inferred or chosen
  */
 export function hasUserInterests(): boolean {
+  const { interests, explicit } = getUserInterestProfile();
+  return interests.length > 0 || explicit.followed.length > 0 || explicit.muted.length > 0;
+}
+
+/**
+ * The reader's followed, pinned and muted topics
+ */
+export function getExplicitInterests(): ExplicitInterests {
+  return getUserInterestProfile().explicit;
+}
+
+/**
+ * Follow a topic, whether or not the reader has read about it yet. Unmutes it.
+ */
+export function followTopic(tag: string): ExplicitInterests {
+  return updateExplicitInterests(tag, (explicit, topic) => {
+    explicit.followed = withTopic(explicit.followed, topic);
+    explicit.muted = withoutTopic(explicit.muted, topic);
+  });
+}
+
+/**
+ * Stop following a topic. Its inferred score is dropped too, so it leaves the
+ * reader's interests until they read more about it.
+ */
+export function unfollowTopic(tag: string): ExplicitInterests {
+  return updateExplicitInterests(tag, (explicit, topic, profile) => {
+    explicit.followed = withoutTopic(explicit.followed, topic);
+    explicit.pinned = withoutTopic(explicit.pinned, topic);
+    profile.interests = profile.interests.filter(interest => interest.tag !== topic);
+    profile.removed = keepLatestRemovals([{ tag: topic, removedAt: new Date().toISOString() }, ...profile.removed]);
+  });
+}
+
+/**
+ * Keep a topic at the top of the reader's interests
+ */
+export function pinTopic(tag: string): ExplicitInterests {
+  return updateExplicitInterests(tag, (explicit, topic) => {
+    explicit.pinned = withTopic(explicit.pinned, topic);
+    explicit.followed = withTopic(explicit.followed, topic);
+    explicit.muted = withoutTopic(explicit.muted, topic);
+  });
+}
+
+export function unpinTopic(tag: string): ExplicitInterests {
+  return updateExplicitInterests(tag, (explicit, topic) => {
+    explicit.pinned = withoutTopic(explicit.pinned, topic);
+  });
+}
+
+/**
+ * Never recommend a topic (or, for a category, anything in it). Unfollows it.
+ */
+export function muteTopic(tag: string): ExplicitInterests {
+  return updateExplicitInterests(tag, (explicit, topic) => {
+    explicit.muted = withTopic(explicit.muted, topic);
+    explicit.followed = withoutTopic(explicit.followed, topic);
+    explicit.pinned = withoutTopic(explicit.pinned, topic);
+  });
+}
+
+export function unmuteTopic(tag: string): ExplicitInterests {
+  return updateExplicitInterests(tag, (explicit, topic) => {
+    explicit.muted = withoutTopic(explicit.muted, topic);
+  });
+}
+
+const withTopic = (topics: string[], topic: string) =>
+  topics.includes(topic) ? topics : [...topics, topic].slice(-MAX_EXPLICIT_TOPICS);
+const withoutTopic = (topics: string[], topic: string) => topics.filter(existing => existing !== topic);
+
+/**
+ * Apply an edit to the explicit interests for one (canonicalized) topic, then save and sync
+ */
+function updateExplicitInterests(
+  tag: string,
+  change: (explicit: ExplicitInterests, topic: string, profile: UserInterestProfile) => void
+): ExplicitInterests {
   const profile = getUserInterestProfile();
-  return profile.interests.length > 0;
+  const topic = canonicalizeTag(tag);
+  if (typeof window === 'undefined' || !topic) {
+    return profile.explicit;
+  }
+
+  change(profile.explicit, topic, profile);
+  profile.explicit.updatedAt = new Date().toISOString();
+  saveUserInterestProfile(profile);
+  console.log('🎯 UserInterests: Updated explicit interests:', profile.explicit);
+  scheduleInterestProfileSync();
+  return profile.explicit;
 }
 
 /**
- * Get personalized content score for a blog based on user interests
+ * Relevance of a blog to the reader in [-1, 1], from the decayed interest weights
+ * of its tags. Pass `tagWeights` (see buildTagWeights) to down-weight ubiquitous tags.
  */
-export function calculateBlogRelevanceScore(blogTags: string[]): number {
+export function calculateBlogRelevanceScore(blogTags: string[], tagWeights?: Map<string, number>): number {
   if (!blogTags || blogTags.length === 0) {
     return 0;
   }
 
-  const userInterests = getUserTopInterests();
-  if (userInterests.length === 0) {
-    return 0;
+  const profile = getUserInterestProfile();
+  if (isContentMuted(blogTags, profile.explicit.muted)) {
+    return -1;
   }
 
-  let score = 0;
-  blogTags.forEach(tag => {
-    const cleanTag = tag.toLowerCase();
-    const interestIndex = userInterests.indexOf(cleanTag);
-    if (interestIndex !== -1) {
-      // Higher score for higher-priority interests
-      score += (userInterests.length - interestIndex);
-    }
-  });
+  const affinities = getProfileAffinities(profile);
+  if (affinities.size === 0) {
+    return 0;
+  }
 
-  return score;
+  return scoreTagsAgainstInterests(blogTags, affinities, tagWeights);
 }
 
 /**
- * Filter and sort blogs by user interest relevance
+ * Filter and sort blogs by user interest relevance. Content in muted topics is always removed.
  */
 export function personalizeContentByInterests<T extends { categories_tags?: string[] }>(
   content: T[],
@@ -184,19 +573,22 @@ export function personalizeContentByInterests<T extends { categories_tags?: stri
     maxResults?: number;
   } = {}
 ): T[] {
-  const { requireMatch = false, minScore = 1, maxResults } = options;
+  const { requireMatch = false, minScore = 0.05, maxResults } = options;
+  const { muted } = getExplicitInterests();
+  const visibleContent = content.filter(item => !isContentMuted(item.categories_tags, muted));
   
   if (!hasUserInterests()) {
     console.log('🎯 UserInterests: No user interests found, returning original content');
-    return maxResults ? content.slice(0, maxResults) : content;
+    return maxResults ? visibleContent.slice(0, maxResults) : visibleContent;
   }
 
   console.log('🎯 UserInterests: Personalizing content based on user interests');
 
-  // Calculate relevance scores for each item
-  const scoredContent = content.map(item => ({
+  // Calculate relevance scores for each item; tags common across this content count for less
+  const tagWeights = buildTagWeights(content);
+  const scoredContent = visibleContent.map(item => ({
     item,
-    score: calculateBlogRelevanceScore(item.categories_tags || [])
+    score: calculateBlogRelevanceScore(item.categories_tags || [], tagWeights)
   }));
 
   // Filter by minimum score if required
@@ -219,7 +611,7 @@ export function personalizeContentByInterests<T extends { categories_tags?: stri
     result.slice(0, 5).map(item => ({
       title: (item as any).title,
       tags: (item as any).categories_tags,
-      score: calculateBlogRelevanceScore((item as any).categories_tags || [])
+      score: calculateBlogRelevanceScore((item as any).categories_tags || [], tagWeights)
     }))
   );
 
@@ -317,6 +709,10 @@ export function clearUserInterests(): void {
   if (typeof window !== 'undefined') {
     localStorage.removeItem(INTEREST_STORAGE_KEY);
     console.log('🎯 UserInterests: Cleared user interest data');
+
+    // Remove the server copy too, or the next sync would bring the interests back
+    fetch('/api/profile', { method: 'DELETE' })
+      .catch(error => console.error('🎯 UserInterests: Failed to clear server profile:', error));
   }
 }
 
@@ -330,6 +726,8 @@ export function getInterestStats() {
   return {
     totalInterests: profile.interests.length,
     topInterests: userInterests.slice(0, 5),
+    followedTopics: profile.explicit.followed.length,
+    mutedTopics: profile.explicit.muted.length,
     totalBlogViews: profile.totalBlogViews,
     lastActive: profile.lastActive,
     hasInterests: hasUserInterests(),
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  FileProcessedEventStore,
+  isTimestampFresh,
+  signWebhookPayload,
+  verifyWebhookRequest,
+  verifyWebhookSignature,
+} from './webhook-security';
+
+const SECRET = 'test-webhook-secret';
+const BODY = JSON.stringify({ event: 'publish', triggered_at: '2026-10-19T12:00:00.000Z' });
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the HMAC of the raw body, bare or sha256= prefixed', () => {
+    const signature = signWebhookPayload(BODY, SECRET);
+    expect(verifyWebhookSignature(BODY, signature, SECRET)).toBe(true);
+    expect(verifyWebhookSignature(BODY, `sha256=${signature.toUpperCase()}`, SECRET)).toBe(true);
+  });
+
+  it('rejects a modified body, another secret or a malformed signature', () => {
+    const signature = signWebhookPayload(BODY, SECRET);
+    expect(verifyWebhookSignature(`${BODY} `, signature, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, signature, 'other-secret')).toBe(false);
+    expect(verifyWebhookSignature(BODY, signature.slice(0, -2), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, 'not-hex', SECRET)).toBe(false);
+  });
+});
+
+describe('isTimestampFresh', () => {
+  const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+  it('accepts unix seconds, milliseconds and ISO dates inside the window', () => {
+    expect(isTimestampFresh(now / 1000 - 60, 300, now)).toBe(true);
+    expect(isTimestampFresh(String(now - 60 * 1000), 300, now)).toBe(true);
+    expect(isTimestampFresh('2026-10-19T11:58:00.000Z', 300, now)).toBe(true);
+  });
+
+  it('rejects timestamps outside the window or missing', () => {
+    expect(isTimestampFresh(now / 1000 - 301, 300, now)).toBe(false);
+    expect(isTimestampFresh(now / 1000 + 301, 300, now)).toBe(false);
+    expect(isTimestampFresh(undefined, 300, now)).toBe(false);
+    expect(isTimestampFresh('yesterday', 300, now)).toBe(false);
+  });
+
+  it('covers the retry schedule by default', () => {
+    expect(isTimestampFresh(now - 90 * 60 * 1000, undefined, now)).toBe(true);
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  const timestamp = new Date().toISOString();
+
+  it('passes a signed, fresh delivery', () => {
+    const signature = signWebhookPayload(BODY, SECRET);
+    expect(verifyWebhookRequest(BODY, signature, timestamp, { secret: SECRET })).toEqual({ valid: true });
+  });
+
+  it('reports why a delivery was rejected', () => {
+    const signature = signWebhookPayload(BODY, SECRET);
+    expect(verifyWebhookRequest(BODY, signature, timestamp, { secret: '' }).reason).toBe('missing_secret');
+    expect(verifyWebhookRequest(BODY, null, timestamp, { secret: SECRET }).reason).toBe('missing_signature');
+    expect(verifyWebhookRequest(BODY, 'sha256=00', timestamp, { secret: SECRET }).reason).toBe('invalid_signature');
+    expect(verifyWebhookRequest(BODY, signature, '2020-01-01T00:00:00.000Z', { secret: SECRET }).reason)
+      .toBe('stale_timestamp');
+  });
+});
+
+describe('FileProcessedEventStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-events-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('lets only one claim win an event', async () => {
+    const store = new FileProcessedEventStore(directory);
+    const results = await Promise.all([store.claim('evt-1'), store.claim('evt-1'), store.claim('evt-1')]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('shares claims between instances using the same directory', async () => {
+    expect(await new FileProcessedEventStore(directory).claim('evt-1')).toBe(true);
+    expect(await new FileProcessedEventStore(directory).claim('evt-1')).toBe(false);
+  });
+
+  it('keeps completed events until the TTL and frees released ones', async () => {
+    const store = new FileProcessedEventStore(directory);
+
+    await store.claim('done');
+    await store.complete('done');
+    expect(await store.claim('done')).toBe(false);
+
+    await store.claim('failed');
+    await store.release('failed');
+    expect(await store.claim('failed')).toBe(true);
+  });
+
+  it('takes over a claim whose lease has lapsed', async () => {
+    const store = new FileProcessedEventStore(directory, 60 * 1000, -1);
+    expect(await store.claim('stuck')).toBe(true);
+    expect(await store.claim('stuck')).toBe(true);
+  });
+
+  it('treats an unreadable record as a claim that lapses with the lease', async () => {
+    const store = new FileProcessedEventStore(directory);
+    await store.claim('evt-1');
+    const [file] = await fs.readdir(directory);
+    await fs.writeFile(path.join(directory, file), '{', 'utf8');
+
+    expect(await store.claim('evt-1')).toBe(false);
+    expect(await new FileProcessedEventStore(directory, 60 * 1000, -1).claim('evt-1')).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Webhook Security
+ * HMAC signature verification, timestamp-window checking and event idempotency
+ * for incoming Contentstack webhooks. Processed events are recorded on disk so
+ * every process sharing the data directory sees them.
+ * Server-only - uses node:crypto and the file system.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type WebhookRejection = 'missing_secret' | 'missing_signature' | 'invalid_signature' | 'stale_timestamp';
+
+export interface WebhookVerification {
+  valid: boolean;
+  reason?: WebhookRejection;
+}
+
+// The signed timestamp is the original trigger time, which retries keep. Contentstack
+// retries a failed delivery up to 5 times with exponential backoff, the last a little
+// over an hour after the event, so the window covers that schedule with room to spare.
+const DEFAULT_TOLERANCE_SECONDS = 2 * 60 * 60;
+
+// Remember processed events for a day - well beyond the timestamp window, so a
+// replayed delivery is either too old or recognised as a duplicate
+const PROCESSED_EVENT_TTL = 24 * 60 * 60 * 1000;
+// A claim whose handler never finished (e.g. the process died) lapses after this
+const PROCESSING_LEASE = 10 * 60 * 1000;
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+const DEFAULT_EVENT_DIR = path.join(process.cwd(), '.data', 'webhook-events');
+
+/**
+ * HMAC-SHA256 of the raw request body, hex encoded
+ */
+export function signWebhookPayload(rawBody: string, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex');
+}
+
+/**
+ * Compare a signature header against the expected HMAC in constant time.
+ * Accepts a bare hex digest or one prefixed with "sha256=".
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string, secret: string): boolean {
+  const provided = signature.trim().replace(/^sha256=/i, '').toLowerCase();
+  const expected = signWebhookPayload(rawBody, secret);
+
+  if (!/^[0-9a-f]+$/.test(provided) || provided.length !== expected.length) {
+    return false;
+  }
+
+  return timingSafeEqual(Buffer.from(provided, 'hex'), Buffer.from(expected, 'hex'));
+}
+
+/**
+ * Check that a delivery timestamp falls inside the tolerance window
+ */
+export function isTimestampFresh(
+  timestamp: string | number | undefined,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): boolean {
+  if (timestamp === undefined || timestamp === '') return false;
+
+  // Unix seconds, unix milliseconds or an ISO date string
+  const numeric = Number(timestamp);
+  const time = Number.isFinite(numeric)
+    ? (numeric < 1e12 ? numeric * 1000 : numeric)
+    : Date.parse(String(timestamp));
+
+  return Number.isFinite(time) && Math.abs(now - time) <= toleranceSeconds * 1000;
+}
+
+/**
+ * Verify a webhook request: signature over the raw body, then the signed timestamp.
+ * The timestamp is read from the payload so it is covered by the signature.
+ */
+export function verifyWebhookRequest(
+  rawBody: string,
+  signature: string | null,
+  timestamp: string | number | undefined,
+  options: { secret?: string; toleranceSeconds?: number } = {}
+): WebhookVerification {
+  const secret = options.secret ?? process.env.CONTENTSTACK_WEBHOOK_SECRET;
+  const toleranceSeconds = options.toleranceSeconds ??
+    (Number(process.env.CONTENTSTACK_WEBHOOK_TOLERANCE_SECONDS) || DEFAULT_TOLERANCE_SECONDS);
+
+  if (!secret) {
+    return { valid: false, reason: 'missing_secret' };
+  }
+  if (!signature) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+  if (!verifyWebhookSignature(rawBody, signature, secret)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+  if (!isTimestampFresh(timestamp, toleranceSeconds)) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Tracks webhook event IDs so redeliveries are processed once. An event is claimed
+ * while it is being handled and released if handling fails, so a retry can run it.
+ */
+export interface ProcessedEventStore {
+  /**
+   * Claim an event for processing. Resolves false if it is already claimed or done.
+   */
+  claim(eventId: string): Promise<boolean>;
+  /**
+   * Mark a claimed event as handled
+   */
+  complete(eventId: string): Promise<void>;
+  /**
+   * Give up a claim so a redelivery can process the event
+   */
+  release(eventId: string): Promise<void>;
+}
+
+interface EventRecord {
+  state: 'processing' | 'done';
+  expiresAt: number;
+}
+
+/**
+ * One file per event. Claims create the file exclusively, so only one process
+ * (or instance sharing the directory) can win a given event.
+ */
+export class FileProcessedEventStore implements ProcessedEventStore {
+  private lastSweep = 0;
+
+  constructor(
+    private directory: string = DEFAULT_EVENT_DIR,
+    private ttl: number = PROCESSED_EVENT_TTL,
+    private lease: number = PROCESSING_LEASE
+  ) {}
+
+  async claim(eventId: string): Promise<boolean> {
+    await fs.mkdir(this.directory, { recursive: true });
+    this.sweep();
+
+    if (await this.create(eventId)) {
+      return true;
+    }
+
+    // Take over a lapsed claim or an expired record, then race for it again
+    const existing = await this.read(this.getPath(eventId));
+    if (existing && existing.expiresAt > Date.now()) {
+      return false;
+    }
+    await this.remove(this.getPath(eventId));
+    return this.create(eventId);
+  }
+
+  async complete(eventId: string): Promise<void> {
+    const record: EventRecord = { state: 'done', expiresAt: Date.now() + this.ttl };
+    await fs.writeFile(this.getPath(eventId), JSON.stringify(record), 'utf8');
+  }
+
+  async release(eventId: string): Promise<void> {
+    await this.remove(this.getPath(eventId));
+  }
+
+  private getPath(eventId: string): string {
+    // Hash so any provider's ID is a safe file name
+    return path.join(this.directory, `${createHash('sha256').update(eventId).digest('hex')}.json`);
+  }
+
+  private async create(eventId: string): Promise<boolean> {
+    const record: EventRecord = { state: 'processing', expiresAt: Date.now() + this.lease };
+    try {
+      await fs.writeFile(this.getPath(eventId), JSON.stringify(record), { encoding: 'utf8', flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async read(filePath: string): Promise<EventRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      // Caught between create and write (or damaged): a claim that lapses like any other
+      const { mtimeMs } = await fs.stat(filePath);
+      return { state: 'processing', expiresAt: mtimeMs + this.lease };
+    }
+  }
+
+  private async remove(filePath: string): Promise<void> {
+    await fs.unlink(filePath).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  /**
+   * Delete expired records now and then, in the background
+   */
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+
+    const run = async () => {
+      for (const name of await fs.readdir(this.directory)) {
+        const filePath = path.join(this.directory, name);
+        const record = await this.read(filePath);
+        if (record && record.expiresAt <= now) {
+          await this.remove(filePath);
+        }
+      }
+    };
+    run().catch(error => console.error('❌ ProcessedEventStore: Sweep failed:', error));
+  }
+}
+
+// Singleton instance
+let processedEventStore: ProcessedEventStore | null = null;
+
+/**
+ * Get the shared processed-event store (WEBHOOK_EVENT_STORE_DIR overrides the directory)
+ */
+export function getProcessedEventStore(): ProcessedEventStore {
+  if (!processedEventStore) {
+    processedEventStore = new FileProcessedEventStore(process.env.WEBHOOK_EVENT_STORE_DIR || DEFAULT_EVENT_DIR);
+  }
+  return processedEventStore;
+}
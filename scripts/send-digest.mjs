@@ -0,0 +1,35 @@
+// Trigger the weekly digest on a running deployment.
+//
+//   npm run digest -- [--dry-run] [--since=2025-01-01T00:00:00Z]
+//
+// Reads NEXT_PUBLIC_SITE_URL and CRON_SECRET from .env.local.
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('❌ CRON_SECRET is not set');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const params = new URLSearchParams();
+if (args.includes('--dry-run')) params.set('dryRun', 'true');
+const sinceArg = args.find(arg => arg.startsWith('--since='));
+if (sinceArg) params.set('since', sinceArg.slice('--since='.length));
+
+const url = `${siteUrl}/api/newsletter/digest${params.size ? `?${params}` : ''}`;
+console.log(`📰 Running digest: POST ${url}`);
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${secret}` },
+});
+const body = await response.json().catch(() => ({}));
+
+if (!response.ok) {
+  console.error(`❌ Digest failed (${response.status}):`, body);
+  process.exit(1);
+}
+
+console.log('✅ Digest finished:', body);